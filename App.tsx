@@ -1,15 +1,71 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import NeuronScene from './components/NeuronScene';
 import ControlPanel from './components/ControlPanel';
 import Oscilloscope from './components/Oscilloscope';
 import GatingPlot from './components/GatingPlot';
-import { solveHH, getInitialState } from './services/hhSolver';
-import { HHState, HHParameters } from './types';
+import CurrentsPlot from './components/CurrentsPlot';
+import ClampPlot from './components/ClampPlot';
+import MetricsPanel from './components/MetricsPanel';
+import Workbench, { WorkbenchTab } from './components/Workbench';
+import SweepPanel from './components/SweepPanel';
+import PhasePlane from './components/PhasePlane';
+import BifurcationPanel from './components/BifurcationPanel';
+import FitPanel from './components/FitPanel';
+import PharmacologyPanel from './components/PharmacologyPanel';
+import KineticsPanel from './components/KineticsPanel';
+import MorphologyLoader from './components/MorphologyLoader';
+import SceneToolbar from './components/SceneToolbar';
+import { getInitialState, DEFAULT_SOLVER_SETTINGS } from './services/hhSolver';
+import { DEFAULT_CLAMP_PROTOCOL } from './services/voltageClamp';
+import { DEFAULT_STIMULUS_PROTOCOL, stimulusDuration } from './services/stimulus';
+import { DEFAULT_CABLE } from './services/cableSolver';
+import { DEFAULT_NOISE_SETTINGS } from './services/channelNoise';
+import { DEFAULT_PHARMACOLOGY, rebaseEvents } from './services/pharmacology';
+import { DEFAULT_IONIC_ENVIRONMENT } from './services/ionicEnvironment';
+import { DEFAULT_CHANNEL_SETTINGS } from './services/channels';
+import { membraneConditions } from './services/membrane';
+import { loadSwc, proceduralMorphology, DEFAULT_MORPHOLOGY_SEED } from './services/morphology';
+import { SimulationConfig, SAMPLE_STRIDE } from './services/simulationEngine';
+import { RingBuffer, createRingBuffer, appendRecords, clearRingBuffer, ringSize, recordOffset } from './services/ringBuffer';
+import { latestState, latestWindow, latestCurrents, timeRange, clampSweep, recentTrace, recentRecords } from './services/traceView';
+import { ScopeWindow, DEFAULT_SCOPE_SETTINGS, scopeWindow } from './services/scope';
+import { MAX_STORED_SWEEPS, captureSweep, averageSweeps } from './services/sweepOverlay';
+import { detectSpikes, computeSpikeMetrics, DEFAULT_DETECTION_OPTIONS } from './services/spikeDetection';
+import type { RheobaseCommand, RheobaseEvent } from './services/rheobaseWorker';
+import {
+  SimulationSession, SESSION_STORAGE_KEY, SESSION_HASH_PREFIX,
+  createSession, parseSession, serializeSession, traceRecords, encodeSessionHash, decodeSessionHash,
+} from './services/session';
+import { downloadFile, fileTimestamp } from './services/download';
+import { ExportFormat, EXPORT_FILES } from './services/traceExport';
+import { parseTrace, compareTrace } from './services/traceImport';
+import type { WorkerCommand, WorkerEvent } from './services/simulationWorker';
+import { 
+  HHState, HHParameters, SolverSettings, ExperimentMode, VoltageClampProtocol, ClampSample, StimulusProtocol,
+  SpikeDetectionMethod, SpikeMetrics, CableParameters, Morphology,
+  CameraMode, ElectrodeKind, ElectrodeSite, ElectrodePlacement, ReferenceTrace, CurrentSample,
+  ScopeSettings, StoredSweep, NoiseSettings, Pharmacology, Compound, IonicEnvironment, IonicState, ChannelSetting, RateExpressions,
+  MembraneConditions,
+} from './types';
 
 // Constants
 const HISTORY_LENGTH = 300; // Number of points in graph
-const DT = 0.05; // ms
-const STEPS_PER_FRAME = 5; // Run simulation faster than frame rate
+const HISTORY_WINDOW_MS = 75; // Simulated time shown in the live charts (ms)
+const SCOPE_POINTS = 500; // Max points drawn per oscilloscope screen
+const CLAMP_POINTS = 600; // Max points drawn per voltage-clamp sweep
+const RING_CAPACITY = 1 << 17; // Samples kept at full solver resolution
+const DEFAULT_REAL_TIME_FACTOR = 0.015; // Simulated ms per wall-clock ms
+const METRICS_WINDOW_MS = 1000; // Simulated time analysed by the spike metrics
+const METRICS_INTERVAL = 500; // Wall-clock ms between metrics updates
+const SESSION_TRACE_MS = 500; // Simulated time of recording stored with a saved session
+const AUTOSAVE_DELAY = 1000; // Wall-clock ms of quiet before the session is autosaved
+
+const SOMA_ELECTRODES: ElectrodePlacement = { record: 0, stimulus: 0 };
+
+const electrodePlacement = (sites: Partial<Record<ElectrodeKind, ElectrodeSite>>): ElectrodePlacement => ({
+  record: sites[ElectrodeKind.RECORD]?.pathFraction ?? SOMA_ELECTRODES.record,
+  stimulus: sites[ElectrodeKind.STIMULUS]?.pathFraction ?? SOMA_ELECTRODES.stimulus,
+});
 
 // Default Parameters
 const BIOLOGICAL_PARAMS: HHParameters = {
@@ -21,70 +77,673 @@ const BIOLOGICAL_PARAMS: HHParameters = {
   g_K: 36.0,
   g_L: 0.3,
   I_ext: 0.0,
+  temperature: 6.3,
+};
+
+const DEFAULT_CONFIG: SimulationConfig = {
+  params: BIOLOGICAL_PARAMS,
+  solver: DEFAULT_SOLVER_SETTINGS,
+  mode: ExperimentMode.CURRENT_CLAMP,
+  clampProtocol: DEFAULT_CLAMP_PROTOCOL,
+  stimulus: DEFAULT_STIMULUS_PROTOCOL,
+  cable: DEFAULT_CABLE,
+  electrodes: SOMA_ELECTRODES,
+  noise: DEFAULT_NOISE_SETTINGS,
+  pharmacology: DEFAULT_PHARMACOLOGY,
+  environment: DEFAULT_IONIC_ENVIRONMENT,
+  channels: DEFAULT_CHANNEL_SETTINGS,
+  rates: {},
+};
+
+interface WorkerStatus {
+  t: number;
+  sweepStart: number;
+  stimulusRunning: boolean;
+  stimulusStart: number | null; // Onset of the current stimulus run (advances each loop)
+  stepsPerSecond: number;
+  conductionVelocity: number | null;
+  compartments: Float32Array | null;
+  recording: boolean;
+  recordedSamples: number;
+  ions: IonicState | null;
+  gates: Record<string, number[]> | null;
+}
+
+const INITIAL_STATUS: WorkerStatus = {
+  t: 0, sweepStart: 0, stimulusRunning: false, stimulusStart: null, stepsPerSecond: 0, conductionVelocity: null, compartments: null,
+  recording: false, recordedSamples: 0, ions: null, gates: null,
 };
 
 export const App: React.FC = () => {
   // --- State ---
   const [params, setParams] = useState<HHParameters>(BIOLOGICAL_PARAMS);
   const [simHistory, setSimHistory] = useState<HHState[]>([]);
+  const [scopeSettings, setScopeSettings] = useState<ScopeSettings>(DEFAULT_SCOPE_SETTINGS);
+  const [sweepMode, setSweepMode] = useState(false);
+  const [averaging, setAveraging] = useState(false);
+  const [storedSweeps, setStoredSweeps] = useState<StoredSweep[]>([]);
+  const [scopeTrace, setScopeTrace] = useState<{ data: HHState[]; screen: ScopeWindow | null }>({ data: [], screen: null });
+  const [currentHistory, setCurrentHistory] = useState<CurrentSample[]>([]);
+  const [solverSettings, setSolverSettings] = useState<SolverSettings>(DEFAULT_SOLVER_SETTINGS);
+  const [experimentMode, setExperimentMode] = useState<ExperimentMode>(ExperimentMode.CURRENT_CLAMP);
+  const [clampProtocol, setClampProtocol] = useState<VoltageClampProtocol>(DEFAULT_CLAMP_PROTOCOL);
+  const [clampHistory, setClampHistory] = useState<ClampSample[]>([]);
+  const [stimulusProtocol, setStimulusProtocol] = useState<StimulusProtocol>(DEFAULT_STIMULUS_PROTOCOL);
+  const [stimulusRunning, setStimulusRunning] = useState(false);
+  const [cable, setCable] = useState<CableParameters>(DEFAULT_CABLE);
+  const [noise, setNoise] = useState<NoiseSettings>(DEFAULT_NOISE_SETTINGS);
+  const [pharmacology, setPharmacology] = useState<Pharmacology>(DEFAULT_PHARMACOLOGY);
+  const [environment, setEnvironment] = useState<IonicEnvironment>(DEFAULT_IONIC_ENVIRONMENT);
+  const [ionicState, setIonicState] = useState<IonicState | null>(null);
+  const [channels, setChannels] = useState<ChannelSetting[]>(DEFAULT_CHANNEL_SETTINGS);
+  const [rates, setRates] = useState<RateExpressions>({});
+  const [conductionVelocity, setConductionVelocity] = useState<number | null>(null);
+  const [simRunning, setSimRunning] = useState(true);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [realTimeFactor, setRealTimeFactor] = useState(DEFAULT_REAL_TIME_FACTOR);
+  const [simClock, setSimClock] = useState({ t: 0, stepsPerSecond: 0 });
+  const [detectionMethod, setDetectionMethod] = useState<SpikeDetectionMethod>(DEFAULT_DETECTION_OPTIONS.method);
+  const [spikeMetrics, setSpikeMetrics] = useState<SpikeMetrics | null>(null);
+  const [rheobase, setRheobase] = useState<number | null>(null);
+  const [morphologySeed, setMorphologySeed] = useState(DEFAULT_MORPHOLOGY_SEED);
+  const [morphology, setMorphology] = useState<Morphology>(() => proceduralMorphology(DEFAULT_MORPHOLOGY_SEED));
+  const [morphologyError, setMorphologyError] = useState<string | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraMode>(CameraMode.CINEMATIC);
+  const [placingElectrode, setPlacingElectrode] = useState<ElectrodeKind>(ElectrodeKind.RECORD);
+  const [electrodeSites, setElectrodeSites] = useState<Partial<Record<ElectrodeKind, ElectrodeSite>>>({});
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [recordedSamples, setRecordedSamples] = useState(0);
+  const [referenceTrace, setReferenceTrace] = useState<ReferenceTrace | null>(null);
+  const [referenceAnchor, setReferenceAnchor] = useState(0); // Simulation time (ms) of the reference's t = 0
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const [workbenchOpen, setWorkbenchOpen] = useState(false);
+  const [workbenchTab, setWorkbenchTab] = useState('sweep');
   const [uptime, setUptime] = useState(0);
   
-  // Refs for simulation loop
+  // Refs shared with the worker bridge and render loop
   const stateRef = useRef<HHState>(getInitialState());
   const paramsRef = useRef<HHParameters>(BIOLOGICAL_PARAMS);
-  const pulseRef = useRef<number>(0); 
+  const solverRef = useRef<SolverSettings>(DEFAULT_SOLVER_SETTINGS);
+  const modeRef = useRef<ExperimentMode>(ExperimentMode.CURRENT_CLAMP);
+  const clampProtocolRef = useRef<VoltageClampProtocol>(DEFAULT_CLAMP_PROTOCOL);
+  const stimulusRef = useRef<StimulusProtocol>(DEFAULT_STIMULUS_PROTOCOL);
+  const cableRef = useRef<CableParameters>(DEFAULT_CABLE);
+  const noiseRef = useRef<NoiseSettings>(DEFAULT_NOISE_SETTINGS);
+  const pharmacologyRef = useRef<Pharmacology>(DEFAULT_PHARMACOLOGY);
+  const environmentRef = useRef<IonicEnvironment>(DEFAULT_IONIC_ENVIRONMENT);
+  const channelsRef = useRef<ChannelSetting[]>(DEFAULT_CHANNEL_SETTINGS);
+  const ratesRef = useRef<RateExpressions>({});
+  const electrodeSitesRef = useRef<Partial<Record<ElectrodeKind, ElectrodeSite>>>({});
+  const morphologySeedRef = useRef<number | null>(DEFAULT_MORPHOLOGY_SEED); // null while an SWC cell is shown
+  const realTimeFactorRef = useRef(DEFAULT_REAL_TIME_FACTOR);
+  const sessionRestoredRef = useRef(false);
+  const exportFormatRef = useRef<ExportFormat | null>(null); // Format awaiting the worker's 'recording' reply
+  const simRunningRef = useRef(true);
+  const workerRef = useRef<Worker | null>(null);
+  const ringRef = useRef<RingBuffer>(createRingBuffer(RING_CAPACITY, SAMPLE_STRIDE));
+  const statusRef = useRef<WorkerStatus>(INITIAL_STATUS);
   const startTimeRef = useRef<number>(Date.now());
+  const scopeRef = useRef<ScopeSettings>(DEFAULT_SCOPE_SETTINGS);
+  const scopeViewEndRef = useRef<number | null>(null); // Right edge of a frozen screen
+  const scopeTriggerRef = useRef<number | null>(null); // Trigger of the sweep on screen
+  const scopeScreenRef = useRef<ScopeWindow | null>(null);
+  const scopeDirtyRef = useRef(false); // Redraw the scope on the next frame even without new samples
+  const sweepModeRef = useRef(false);
+  const sweepOnsetRef = useRef<number | null>(null); // Latest stimulus onset seen in sweep mode
+  const pendingSweepsRef = useRef<{ onset: number; duration: number; params: HHParameters }[]>([]); // Runs still being recorded
+  const sweepIdRef = useRef(0);
+
+  const post = useCallback((command: WorkerCommand) => {
+    workerRef.current?.postMessage(command);
+  }, []);
   
   // --- Handlers ---
   const handleParamChange = useCallback((newParams: Partial<HHParameters>) => {
-    setParams(prev => {
-        const updated = { ...prev, ...newParams };
-        paramsRef.current = updated;
-        return updated;
-    });
-  }, []);
+    const updated = { ...paramsRef.current, ...newParams };
+    paramsRef.current = updated;
+    setParams(updated);
+    post({ type: 'config', config: { params: updated } });
+  }, [post]);
+
+  const handleSolverChange = useCallback((newSettings: Partial<SolverSettings>) => {
+    const updated = { ...solverRef.current, ...newSettings };
+    solverRef.current = updated;
+    setSolverSettings(updated);
+    post({ type: 'config', config: { solver: updated } });
+  }, [post]);
+
+  const handleExperimentModeChange = useCallback((mode: ExperimentMode) => {
+    modeRef.current = mode;
+    setExperimentMode(mode);
+    post({ type: 'config', config: { mode } });
+    // Restart the sweep so the protocol always begins at the holding potential
+    post({ type: 'restartSweep' });
+    setClampHistory([]);
+  }, [post]);
+
+  const handleClampProtocolChange = useCallback((newProtocol: Partial<VoltageClampProtocol>) => {
+    const updated = { ...clampProtocolRef.current, ...newProtocol };
+    clampProtocolRef.current = updated;
+    setClampProtocol(updated);
+    post({ type: 'config', config: { clampProtocol: updated } });
+  }, [post]);
+
+  const handleStimulusProtocolChange = useCallback((protocol: StimulusProtocol) => {
+    stimulusRef.current = protocol;
+    setStimulusProtocol(protocol);
+    post({ type: 'config', config: { stimulus: protocol } });
+  }, [post]);
+
+  const handleCableChange = useCallback((newCable: Partial<CableParameters>) => {
+    const updated = { ...cableRef.current, ...newCable };
+    cableRef.current = updated;
+    setCable(updated);
+    post({ type: 'config', config: { cable: updated } });
+  }, [post]);
+
+  const handleNoiseChange = useCallback((newNoise: Partial<NoiseSettings>) => {
+    const updated = { ...noiseRef.current, ...newNoise };
+    noiseRef.current = updated;
+    setNoise(updated);
+    post({ type: 'config', config: { noise: updated } });
+  }, [post]);
+
+  const handleEnvironmentChange = useCallback((newEnvironment: Partial<IonicEnvironment>) => {
+    const updated = { ...environmentRef.current, ...newEnvironment };
+    environmentRef.current = updated;
+    setEnvironment(updated);
+    post({ type: 'config', config: { environment: updated } });
+  }, [post]);
+
+  const handleRestoreConcentrations = useCallback(() => {
+    post({ type: 'restoreConcentrations' });
+  }, [post]);
+
+  const handleChannelsChange = useCallback((updated: ChannelSetting[]) => {
+    channelsRef.current = updated;
+    setChannels(updated);
+    post({ type: 'config', config: { channels: updated } });
+  }, [post]);
+
+  const handleRatesChange = useCallback((updated: RateExpressions) => {
+    ratesRef.current = updated;
+    setRates(updated);
+    post({ type: 'config', config: { rates: updated } });
+  }, [post]);
+
+  const updatePharmacology = useCallback((updated: Pharmacology) => {
+    pharmacologyRef.current = updated;
+    setPharmacology(updated);
+    post({ type: 'config', config: { pharmacology: updated } });
+  }, [post]);
+
+  const handleCompoundsChange = useCallback((compounds: Compound[]) => {
+    updatePharmacology({ ...pharmacologyRef.current, compounds });
+  }, [updatePharmacology]);
+
+  // Steps a compound's bath concentration now (0 washes it out)
+  const handleDrugApply = useCallback((compoundId: string, concentration: number) => {
+    const { events } = pharmacologyRef.current;
+    updatePharmacology({ ...pharmacologyRef.current, events: [...events, { compoundId, time: statusRef.current.t, concentration }] });
+  }, [updatePharmacology]);
+
+  const handleStimulusToggle = useCallback(() => {
+    const running = !statusRef.current.stimulusRunning;
+    statusRef.current = { ...statusRef.current, stimulusRunning: running };
+    setStimulusRunning(running);
+    // A recorded sweep starts with its protocol, so line the reference up with it
+    if (running) setReferenceAnchor(statusRef.current.t);
+    else pendingSweepsRef.current = []; // A run cut short is not a sweep
+    post({ type: 'stimulus', running });
+  }, [post]);
 
   const handleInject = useCallback(() => {
-    pulseRef.current = 20; 
+    post({ type: 'inject' });
+  }, [post]);
+
+  const handleSimToggle = useCallback(() => {
+    const running = !simRunningRef.current;
+    simRunningRef.current = running;
+    setSimRunning(running);
+    if (running) setSimulationError(null);
+    post({ type: 'run', running });
+  }, [post]);
+
+  const handleSimStep = useCallback(() => {
+    post({ type: 'step', steps: 1 });
+  }, [post]);
+
+  const handleRealTimeFactorChange = useCallback((factor: number) => {
+    realTimeFactorRef.current = factor;
+    setRealTimeFactor(factor);
+    post({ type: 'speed', realTimeFactor: factor });
+  }, [post]);
+
+  // Moves the live simulation to a state picked in an analysis tool
+  const handleJump = useCallback((I_ext: number, state: HHState) => {
+    handleParamChange({ I_ext });
+    post({ type: 'setState', state });
+  }, [handleParamChange, post]);
+
+  // Electrodes sit on the cell; the worker only needs their position along the cable
+  const updateElectrodes = useCallback((sites: Partial<Record<ElectrodeKind, ElectrodeSite>>) => {
+    electrodeSitesRef.current = sites;
+    setElectrodeSites(sites);
+    post({ type: 'config', config: { electrodes: electrodePlacement(sites) } });
+  }, [post]);
+
+  const handlePick = useCallback((site: ElectrodeSite) => {
+    updateElectrodes({ ...electrodeSitesRef.current, [placingElectrode]: site });
+  }, [placingElectrode, updateElectrodes]);
+
+  const handleClearElectrodes = useCallback(() => updateElectrodes({}), [updateElectrodes]);
+
+  const handleMorphologyFile = useCallback((file: File) => {
+    file.text().then(text => {
+      setMorphology(loadSwc(text, file.name));
+      morphologySeedRef.current = null;
+      setMorphologyError(null);
+      updateElectrodes({});
+    }).catch((err: Error) => setMorphologyError(`${file.name}: ${err.message}`));
+  }, [updateElectrodes]);
+
+  const handleProceduralMorphology = useCallback((seed: number) => {
+    setMorphologySeed(seed);
+    setMorphology(proceduralMorphology(seed));
+    morphologySeedRef.current = seed;
+    setMorphologyError(null);
+    updateElectrodes({});
+  }, [updateElectrodes]);
+
+  const handleMorphologyDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) handleMorphologyFile(file);
+  }, [handleMorphologyFile]);
+
+  // Drops everything recorded so far; the worker clears its side on 'reset'
+  const clearTraces = useCallback(() => {
+    stateRef.current = getInitialState();
+    clearRingBuffer(ringRef.current);
+    statusRef.current = INITIAL_STATUS;
+    setConductionVelocity(null);
+    setStimulusRunning(false);
+    setSimHistory([]);
+    setCurrentHistory([]);
+    setClampHistory([]);
+    setReferenceAnchor(0);
+    setScopeTrace({ data: [], screen: null });
+    scopeTriggerRef.current = null;
+    scopeViewEndRef.current = null;
+    scopeScreenRef.current = null;
+    sweepOnsetRef.current = null;
+    pendingSweepsRef.current = [];
+    startTimeRef.current = Date.now();
   }, []);
 
   const handleReset = useCallback(() => {
-    stateRef.current = getInitialState();
     setParams(BIOLOGICAL_PARAMS);
     paramsRef.current = BIOLOGICAL_PARAMS;
-    pulseRef.current = 0;
-    setSimHistory([]);
-    startTimeRef.current = Date.now();
+    // The clock restarts, so every compound is washed out
+    const washed = { ...pharmacologyRef.current, events: [] };
+    pharmacologyRef.current = washed;
+    setPharmacology(washed);
+    post({ type: 'reset', config: { params: BIOLOGICAL_PARAMS, pharmacology: washed } });
+    setSimulationError(null);
+    clearTraces();
+  }, [post, clearTraces]);
+
+  const currentConfig = useCallback((): SimulationConfig => ({
+    params: paramsRef.current,
+    solver: solverRef.current,
+    mode: modeRef.current,
+    clampProtocol: clampProtocolRef.current,
+    stimulus: stimulusRef.current,
+    cable: cableRef.current,
+    electrodes: electrodePlacement(electrodeSitesRef.current),
+    noise: noiseRef.current,
+    pharmacology: pharmacologyRef.current,
+    environment: environmentRef.current,
+    channels: channelsRef.current,
+    rates: ratesRef.current,
+  }), []);
+
+  // --- Oscilloscope ---
+  const handleScopeChange = useCallback((changes: Partial<ScopeSettings>) => {
+    const next = { ...scopeRef.current, ...changes };
+    if (changes.frozen !== undefined) {
+      // Hold the screen exactly where it is; resume from the newest sample
+      scopeViewEndRef.current = changes.frozen ? scopeScreenRef.current?.end ?? null : null;
+    }
+    if (next.frozen && scopeViewEndRef.current === null) next.frozen = false; // Nothing on screen to hold
+    if (changes.triggerEnabled !== undefined || changes.triggerLevel !== undefined || changes.triggerEdge !== undefined) {
+      scopeTriggerRef.current = null; // The held sweep no longer matches the trigger condition
+    }
+    scopeRef.current = next;
+    scopeDirtyRef.current = true;
+    setScopeSettings(next);
+  }, []);
+
+  // Panning browses the recorded history, so it freezes the screen first
+  const handleScopePan = useCallback((deltaMs: number) => {
+    const screen = scopeScreenRef.current;
+    if (!screen) return;
+    if (!scopeRef.current.frozen) {
+      scopeRef.current = { ...scopeRef.current, frozen: true };
+      setScopeSettings(scopeRef.current);
+    }
+    scopeViewEndRef.current = (scopeViewEndRef.current ?? screen.end) + deltaMs;
+    scopeDirtyRef.current = true;
+  }, []);
+
+  // --- Sweep Overlay ---
+  const handleSweepModeChange = useCallback((enabled: boolean) => {
+    sweepModeRef.current = enabled;
+    sweepOnsetRef.current = null;
+    pendingSweepsRef.current = [];
+    scopeDirtyRef.current = true;
+    setSweepMode(enabled);
+  }, []);
+
+  const handleSweepRemove = useCallback((id: number) => {
+    setStoredSweeps(sweeps => sweeps.filter(sweep => sweep.id !== id));
+  }, []);
+
+  const handleSweepsClear = useCallback(() => setStoredSweeps([]), []);
+
+  const sweepAverage = useMemo(
+    () => (averaging && storedSweeps.length > 1 ? averageSweeps(storedSweeps, SCOPE_POINTS) : null),
+    [averaging, storedSweeps]
+  );
+
+  // --- Reference Trace ---
+  const handleReferenceFile = useCallback((file: File) => {
+    file.text().then(text => {
+      setReferenceTrace(parseTrace(text, file.name));
+      setReferenceAnchor(statusRef.current.t);
+      setReferenceError(null);
+    }).catch((err: Error) => setReferenceError(`${file.name}: ${err.message}`));
+  }, []);
+
+  const handleReferenceAlign = useCallback(() => setReferenceAnchor(statusRef.current.t), []);
+
+  const handleReferenceClear = useCallback(() => {
+    setReferenceTrace(null);
+    setReferenceError(null);
   }, []);
 
-  // --- Simulation Loop ---
+  const comparison = useMemo(
+    () => (referenceTrace ? compareTrace(scopeTrace.data, referenceTrace, referenceAnchor) : null),
+    [scopeTrace.data, referenceTrace, referenceAnchor]
+  );
+
+  // --- Recorder ---
+  const handleRecordToggle = useCallback(() => {
+    post({ type: 'record', recording: !statusRef.current.recording });
+  }, [post]);
+
+  const handleExport = useCallback((format: ExportFormat) => {
+    exportFormatRef.current = format;
+    post({ type: 'exportRecording' });
+  }, [post]);
+
+  // --- Sessions ---
+  const currentSession = useCallback((records?: Float64Array): SimulationSession => createSession(
+    currentConfig(),
+    realTimeFactorRef.current,
+    morphologySeedRef.current,
+    electrodeSitesRef.current,
+    records,
+    statusRef.current.gates
+  ), [currentConfig]);
+
+  const applySession = useCallback((session: SimulationSession) => {
+    const history = traceRecords(session);
+    // Without a trace the clock restarts at 0, so drugs are reapplied from there
+    const config = history ? session.config : { ...session.config, pharmacology: rebaseEvents(session.config.pharmacology, 0) };
+    paramsRef.current = config.params;
+    solverRef.current = config.solver;
+    modeRef.current = config.mode;
+    clampProtocolRef.current = config.clampProtocol;
+    stimulusRef.current = config.stimulus;
+    cableRef.current = config.cable;
+    noiseRef.current = config.noise;
+    pharmacologyRef.current = config.pharmacology;
+    environmentRef.current = config.environment;
+    channelsRef.current = config.channels;
+    ratesRef.current = config.rates;
+    setParams(config.params);
+    setSolverSettings(config.solver);
+    setExperimentMode(config.mode);
+    setClampProtocol(config.clampProtocol);
+    setStimulusProtocol(config.stimulus);
+    setCable(config.cable);
+    setNoise(config.noise);
+    setPharmacology(config.pharmacology);
+    setEnvironment(config.environment);
+    setChannels(config.channels);
+    setRates(config.rates);
+    handleRealTimeFactorChange(session.realTimeFactor);
+
+    if (session.morphologySeed !== null) {
+      morphologySeedRef.current = session.morphologySeed;
+      setMorphologySeed(session.morphologySeed);
+      setMorphology(proceduralMorphology(session.morphologySeed));
+    }
+    // Sites only carry over onto the procedural cell they were placed on
+    const sites = session.morphologySeed !== null ? session.electrodeSites : {};
+    electrodeSitesRef.current = sites;
+    setElectrodeSites(sites);
+
+    clearTraces();
+    post({ type: 'reset', config, history, gates: session.trace?.gates });
+  }, [post, clearTraces, handleRealTimeFactorChange]);
+
+  const handleSessionSave = useCallback((includeTrace: boolean) => {
+    const session = currentSession(includeTrace ? recentRecords(ringRef.current, SESSION_TRACE_MS) : undefined);
+    downloadFile(`neuraldx-session-${fileTimestamp()}.json`, serializeSession(session), 'application/json');
+    setSessionMessage(includeTrace && session.trace ? 'Saved with trace' : 'Saved');
+  }, [currentSession]);
+
+  const handleSessionLoad = useCallback((file: File) => {
+    file.text().then(text => {
+      applySession(parseSession(text, DEFAULT_CONFIG));
+      setSessionMessage(`Loaded ${file.name}`);
+    }).catch((err: Error) => setSessionMessage(`${file.name}: ${err.message}`));
+  }, [applySession]);
+
+  const handleSessionShare = useCallback(() => {
+    encodeSessionHash(currentSession()).then(hash => {
+      window.history.replaceState(null, '', hash);
+      return navigator.clipboard.writeText(window.location.href);
+    }).then(
+      () => setSessionMessage('Link copied to clipboard'),
+      () => setSessionMessage('Link is in the address bar')
+    );
+  }, [currentSession]);
+
+  // --- Simulation Worker ---
+  useEffect(() => {
+    const worker = new Worker(new URL('./services/simulationWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+      const event = e.data;
+      if (event.type === 'samples') {
+        appendRecords(ringRef.current, event.records, event.count);
+      } else if (event.type === 'recording') {
+        const format = exportFormatRef.current;
+        exportFormatRef.current = null;
+        if (!format || event.count === 0) return;
+        const file = EXPORT_FILES[format];
+        downloadFile(`neuraldx-recording-${fileTimestamp()}.${file.extension}`, file.serialize(event, event.config), file.type);
+      } else if (event.type === 'error') {
+        // The worker has paused itself
+        simRunningRef.current = false;
+        setSimRunning(false);
+        setSimulationError(event.message);
+      } else {
+        statusRef.current = event;
+        setStimulusRunning(event.stimulusRunning);
+        setConductionVelocity(event.conductionVelocity);
+        setRecording(event.recording);
+        setRecordedSamples(event.recordedSamples);
+        setIonicState(event.ions);
+      }
+    };
+
+    const config: SimulationConfig = {
+      params: paramsRef.current,
+      solver: solverRef.current,
+      mode: modeRef.current,
+      clampProtocol: clampProtocolRef.current,
+      stimulus: stimulusRef.current,
+      cable: cableRef.current,
+      electrodes: SOMA_ELECTRODES,
+      noise: noiseRef.current,
+      pharmacology: pharmacologyRef.current,
+      environment: environmentRef.current,
+      channels: channelsRef.current,
+      rates: ratesRef.current,
+    };
+    const storage = ringRef.current.data.buffer;
+    worker.postMessage({
+      type: 'init',
+      config,
+      storage: storage instanceof SharedArrayBuffer ? storage : undefined,
+      capacity: RING_CAPACITY,
+    } satisfies WorkerCommand);
+    worker.postMessage({ type: 'speed', realTimeFactor: DEFAULT_REAL_TIME_FACTOR } satisfies WorkerCommand);
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [currentConfig]);
+
+  // Restore a shared link first, otherwise the last autosave
+  useEffect(() => {
+    const hash = window.location.hash;
+    const restore = hash.startsWith(SESSION_HASH_PREFIX)
+      ? decodeSessionHash(hash, DEFAULT_CONFIG)
+      : Promise.resolve().then(() => {
+          const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+          return stored ? parseSession(stored, DEFAULT_CONFIG) : null;
+        });
+    restore
+      .then(session => { if (session) applySession(session); })
+      .catch((err: Error) => setSessionMessage(`Session not restored: ${err.message}`))
+      .finally(() => { sessionRestoredRef.current = true; });
+  }, [applySession]);
+
+  // Autosave (without trace) once the settings have been quiet for a moment
+  useEffect(() => {
+    if (!sessionRestoredRef.current) return;
+    const timeoutId = setTimeout(() => {
+      try {
+        localStorage.setItem(SESSION_STORAGE_KEY, serializeSession(currentSession()));
+      } catch {
+        // Storage full or disabled: autosave is best effort
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [params, solverSettings, experimentMode, clampProtocol, stimulusProtocol, cable, noise, pharmacology, environment, channels, rates, electrodeSites, realTimeFactor, morphology, currentSession]);
+
+  // --- Spike Metrics ---
+  useEffect(() => {
+    const update = () => {
+      const trace = recentTrace(ringRef.current, METRICS_WINDOW_MS);
+      if (trace.t.length < 3) {
+        setSpikeMetrics(null);
+        return;
+      }
+      const spikes = detectSpikes(trace.t, trace.V, { ...DEFAULT_DETECTION_OPTIONS, method: detectionMethod });
+      setSpikeMetrics(computeSpikeMetrics(spikes, trace.t[trace.t.length - 1] - trace.t[0]));
+    };
+    update();
+    const intervalId = setInterval(update, METRICS_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [detectionMethod]);
+
+  // Conditions of the running membrane for the analysis tools, compared by
+  // value so a re-render with the same blockers and concentrations keeps them
+  const conditionsKey = JSON.stringify(membraneConditions(channels, rates, pharmacology, ionicState, simClock.t));
+  const conditions = useMemo<MembraneConditions>(() => JSON.parse(conditionsKey), [conditionsKey]);
+
+  // Rheobase depends only on the membrane, so recompute (debounced, in a
+  // worker) when it changes; a newer membrane cancels the pending estimate
+  useEffect(() => {
+    let worker: Worker | null = null;
+    const timeoutId = setTimeout(() => {
+      worker = new Worker(new URL('./services/rheobaseWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<RheobaseEvent>) => {
+        setRheobase(e.data.type === 'done' ? e.data.rheobase : null);
+        worker?.terminate();
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        setRheobase(null);
+        worker?.terminate();
+      };
+      const command: RheobaseCommand = { type: 'run', params: { ...params, I_ext: 0 }, solver: solverSettings, conditions };
+      worker.postMessage(command);
+    }, 300);
+    return () => {
+      clearTimeout(timeoutId);
+      worker?.terminate();
+    };
+  }, [params.Cm, params.E_Na, params.E_K, params.E_L, params.g_Na, params.g_K, params.g_L, params.temperature, solverSettings, conditions]);
+
+  // --- Render Loop ---
+  // Reads whatever the worker has produced since the last frame; the solver
+  // rate is independent of the display frame rate.
   useEffect(() => {
     let animationFrameId: number;
-    let historyBuffer: HHState[] = [];
+    let lastNewest = NaN;
 
     const loop = () => {
-      // Simulation Physics
-      for (let i = 0; i < STEPS_PER_FRAME; i++) {
-        let currentI = paramsRef.current.I_ext;
-        if (pulseRef.current > 0) {
-          currentI += 20; 
-          pulseRef.current -= DT;
+      const rb = ringRef.current;
+      const newest = ringSize(rb) > 0 ? rb.data[recordOffset(rb, 0)] : NaN;
+
+      if (newest !== lastNewest) {
+        lastNewest = newest;
+        const latest = latestState(rb);
+        if (latest) stateRef.current = latest;
+
+        setSimHistory(latestWindow(rb, HISTORY_WINDOW_MS, HISTORY_LENGTH));
+        setCurrentHistory(latestCurrents(rb, HISTORY_WINDOW_MS, HISTORY_LENGTH));
+        if (modeRef.current === ExperimentMode.VOLTAGE_CLAMP) {
+          setClampHistory(clampSweep(rb, statusRef.current.sweepStart, CLAMP_POINTS));
         }
+        scopeDirtyRef.current = true;
 
-        const nextState = solveHH(
-          stateRef.current, 
-          { ...paramsRef.current, I_ext: currentI }, 
-          DT
-        );
-        stateRef.current = nextState;
+        // Sweep mode: every stimulus run (each period of a looping protocol) is
+        // stored once it has been recorded in full
+        const onset = statusRef.current.stimulusStart;
+        if (sweepModeRef.current && onset !== null && onset !== sweepOnsetRef.current) {
+          sweepOnsetRef.current = onset;
+          const duration = stimulusDuration(stimulusRef.current);
+          if (duration > 0) pendingSweepsRef.current.push({ onset, duration, params: paramsRef.current });
+        }
+        const complete = pendingSweepsRef.current.filter(run => newest >= run.onset + run.duration);
+        if (complete.length) {
+          pendingSweepsRef.current = pendingSweepsRef.current.filter(run => !complete.includes(run));
+          const captured = complete.map(run => captureSweep(rb, sweepIdRef.current++, run.onset, run.duration, SCOPE_POINTS, run.params));
+          setStoredSweeps(sweeps => [...sweeps, ...captured].slice(-MAX_STORED_SWEEPS));
+        }
       }
 
-      // History Update
-      historyBuffer.push({ ...stateRef.current });
-      if (historyBuffer.length > HISTORY_LENGTH) {
-        historyBuffer = historyBuffer.slice(historyBuffer.length - HISTORY_LENGTH);
+      if (scopeDirtyRef.current) {
+        scopeDirtyRef.current = false;
+        const screen = scopeWindow(rb, scopeRef.current, scopeViewEndRef.current, scopeTriggerRef.current,
+          sweepModeRef.current ? sweepOnsetRef.current : null);
+        if (screen && !scopeRef.current.frozen) scopeTriggerRef.current = screen.trigger;
+        scopeScreenRef.current = screen;
+        setScopeTrace({ data: screen ? timeRange(rb, screen.start, screen.end, SCOPE_POINTS) : [], screen });
       }
-      setSimHistory([...historyBuffer]);
+
+      setSimClock({ t: statusRef.current.t, stepsPerSecond: statusRef.current.stepsPerSecond });
 
       // Uptime Update (throttled visually by frame, but logic uses time)
       setUptime(Date.now() - startTimeRef.current);
@@ -97,6 +756,44 @@ export const App: React.FC = () => {
     return () => cancelAnimationFrame(animationFrameId);
   }, []);
 
+  const workbenchTabs: WorkbenchTab[] = [
+    { id: 'sweep', label: 'f–I Sweep', content: <SweepPanel params={params} solverSettings={solverSettings} conditions={conditions} /> },
+    { id: 'phase', label: 'Phase Plane', content: <PhasePlane params={params} conditions={conditions} trajectory={simHistory} /> },
+    { id: 'bifurcation', label: 'Bifurcation', content: <BifurcationPanel params={params} solverSettings={solverSettings} conditions={conditions} onJump={handleJump} /> },
+    {
+      id: 'fit',
+      label: 'Fit',
+      content: (
+        <FitPanel
+          params={params}
+          solverSettings={solverSettings}
+          stimulusProtocol={stimulusProtocol}
+          conditions={conditions}
+          reference={referenceTrace}
+          onReferenceFile={handleReferenceFile}
+          onAccept={handleParamChange}
+        />
+      ),
+    },
+    {
+      id: 'pharmacology',
+      label: 'Pharmacology',
+      content: (
+        <PharmacologyPanel
+          pharmacology={pharmacology}
+          t={simClock.t}
+          onCompoundsChange={handleCompoundsChange}
+          onApply={handleDrugApply}
+        />
+      ),
+    },
+    {
+      id: 'kinetics',
+      label: 'Kinetics',
+      content: <KineticsPanel rates={rates} temperature={params.temperature} onRatesChange={handleRatesChange} />,
+    },
+  ];
+
   // Vertical text helper
   const verticalText = "NEURALDX".split('');
 
@@ -114,17 +811,64 @@ export const App: React.FC = () => {
         <ControlPanel 
             params={params} 
             onParamChange={handleParamChange} 
+            solverSettings={solverSettings}
+            onSolverChange={handleSolverChange}
+            experimentMode={experimentMode}
+            onExperimentModeChange={handleExperimentModeChange}
+            clampProtocol={clampProtocol}
+            onClampProtocolChange={handleClampProtocolChange}
+            stimulusProtocol={stimulusProtocol}
+            onStimulusProtocolChange={handleStimulusProtocolChange}
+            cable={cable}
+            onCableChange={handleCableChange}
+            noise={noise}
+            onNoiseChange={handleNoiseChange}
+            environment={environment}
+            onEnvironmentChange={handleEnvironmentChange}
+            onRestoreConcentrations={handleRestoreConcentrations}
+            ionicState={ionicState}
+            channels={channels}
+            onChannelsChange={handleChannelsChange}
+            conductionVelocity={conductionVelocity}
+            stimulusRunning={stimulusRunning}
+            onStimulusToggle={handleStimulusToggle}
+            simRunning={simRunning}
+            simulationError={simulationError}
+            onSimToggle={handleSimToggle}
+            onSimStep={handleSimStep}
+            realTimeFactor={realTimeFactor}
+            onRealTimeFactorChange={handleRealTimeFactorChange}
             onInjectCurrent={handleInject}
             onReset={handleReset}
+            onSessionSave={handleSessionSave}
+            onSessionLoad={handleSessionLoad}
+            onSessionShare={handleSessionShare}
+            sessionMessage={sessionMessage}
+            recording={recording}
+            recordedSamples={recordedSamples}
+            onRecordToggle={handleRecordToggle}
+            onExport={handleExport}
         />
       </div>
 
       {/* --- COLUMN 2: CENTER VIEWPORT --- */}
-      <div className="flex-1 relative h-full min-w-0 bg-black">
+      <div 
+        className="flex-1 relative h-full min-w-0 bg-black"
+        onDragOver={e => e.preventDefault()}
+        onDrop={handleMorphologyDrop}
+      >
         
         {/* 3D Scene Background */}
         <div className="absolute inset-0 z-0">
-             <NeuronScene state={stateRef.current} simulationParams={params} />
+             <NeuronScene 
+                state={stateRef.current} 
+                compartments={statusRef.current.compartments} 
+                simulationParams={params} 
+                morphology={morphology} 
+                cameraMode={cameraMode} 
+                electrodes={electrodeSites} 
+                onPick={handlePick} 
+             />
              {/* Vignette */}
              <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_0%,#000000_120%)] opacity-80 pointer-events-none"></div>
         </div>
@@ -151,6 +895,44 @@ export const App: React.FC = () => {
              </div>
         </div>
 
+        {/* Morphology */}
+        <div className="hidden lg:flex flex-col gap-2 absolute bottom-6 right-6 z-20">
+            <SceneToolbar 
+                cameraMode={cameraMode} 
+                onCameraModeChange={setCameraMode} 
+                placing={placingElectrode} 
+                onPlacingChange={setPlacingElectrode} 
+                onClearElectrodes={handleClearElectrodes} 
+            />
+            <MorphologyLoader 
+                morphology={morphology} 
+                seed={morphologySeed} 
+                error={morphologyError} 
+                onFile={handleMorphologyFile} 
+                onProcedural={handleProceduralMorphology} 
+            />
+        </div>
+
+        {/* Analysis Workbench */}
+        <button
+            type="button"
+            onClick={() => setWorkbenchOpen(open => !open)}
+            className={`hidden lg:block absolute top-6 right-6 z-40 px-4 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase backdrop-blur transition-colors duration-200 ${
+                workbenchOpen
+                    ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10'
+                    : 'border-white/10 text-cyber-muted bg-cyber-panel/60 hover:text-white hover:border-white/30'
+            }`}
+        >
+            Analysis
+        </button>
+        <Workbench 
+            open={workbenchOpen} 
+            tabs={workbenchTabs} 
+            activeTab={workbenchTab} 
+            onTabChange={setWorkbenchTab} 
+            onClose={() => setWorkbenchOpen(false)} 
+        />
+
         {/* Vertical Watermark Title */}
         <div className="hidden xl:flex flex-col justify-center items-center absolute left-6 top-0 bottom-0 z-10 select-none pointer-events-none mix-blend-overlay opacity-60">
              <div className="flex flex-col gap-0">
@@ -189,7 +971,7 @@ export const App: React.FC = () => {
                 >✕</button>
              </div>
              <div className="h-full overflow-y-auto pb-20">
-                <ControlPanel params={params} onParamChange={handleParamChange} onInjectCurrent={handleInject} onReset={handleReset} />
+                <ControlPanel params={params} onParamChange={handleParamChange} solverSettings={solverSettings} onSolverChange={handleSolverChange} experimentMode={experimentMode} onExperimentModeChange={handleExperimentModeChange} clampProtocol={clampProtocol} onClampProtocolChange={handleClampProtocolChange} stimulusProtocol={stimulusProtocol} onStimulusProtocolChange={handleStimulusProtocolChange} cable={cable} onCableChange={handleCableChange} noise={noise} onNoiseChange={handleNoiseChange} environment={environment} onEnvironmentChange={handleEnvironmentChange} onRestoreConcentrations={handleRestoreConcentrations} ionicState={ionicState} channels={channels} onChannelsChange={handleChannelsChange} conductionVelocity={conductionVelocity} stimulusRunning={stimulusRunning} onStimulusToggle={handleStimulusToggle} simRunning={simRunning} simulationError={simulationError} onSimToggle={handleSimToggle} onSimStep={handleSimStep} realTimeFactor={realTimeFactor} onRealTimeFactorChange={handleRealTimeFactorChange} onInjectCurrent={handleInject} onReset={handleReset} onSessionSave={handleSessionSave} onSessionLoad={handleSessionLoad} onSessionShare={handleSessionShare} sessionMessage={sessionMessage} recording={recording} recordedSamples={recordedSamples} onRecordToggle={handleRecordToggle} onExport={handleExport} />
              </div>
         </div>
 
@@ -198,18 +980,55 @@ export const App: React.FC = () => {
       {/* --- COLUMN 3: RIGHT ANALYTICS (400px - 500px) --- */}
       <div className="hidden lg:flex w-[420px] xl:w-[500px] shrink-0 h-full z-30 flex-col border-l border-white/5 bg-cyber-black/40 backdrop-blur-xl">
           <div className="flex-1 min-h-0">
-             <Oscilloscope data={simHistory} />
+             <Oscilloscope
+                data={scopeTrace.data}
+                screen={scopeTrace.screen}
+                settings={scopeSettings}
+                onSettingsChange={handleScopeChange}
+                onPan={handleScopePan}
+                sweepMode={sweepMode}
+                onSweepModeChange={handleSweepModeChange}
+                sweeps={storedSweeps}
+                average={sweepAverage}
+                averaging={averaging}
+                onAveragingChange={setAveraging}
+                onSweepRemove={handleSweepRemove}
+                onSweepsClear={handleSweepsClear}
+                comparison={comparison}
+                referenceName={referenceTrace?.name ?? null}
+                referenceError={referenceError}
+                onReferenceFile={handleReferenceFile}
+                onReferenceAlign={handleReferenceAlign}
+                onReferenceClear={handleReferenceClear}
+             />
+          </div>
+          <div className="shrink-0 border-t border-white/5">
+             <MetricsPanel metrics={spikeMetrics} rheobase={rheobase} method={detectionMethod} onMethodChange={setDetectionMethod} />
           </div>
+          {experimentMode === ExperimentMode.VOLTAGE_CLAMP && (
+            <div className="flex-1 min-h-0 border-t border-white/5">
+               <ClampPlot data={clampHistory} />
+            </div>
+          )}
           <div className="flex-1 min-h-0 border-t border-white/5">
-             <GatingPlot data={simHistory} />
+             <CurrentsPlot data={currentHistory} />
+          </div>
+          <div className="flex-1 min-h-0 border-t border-white/5">
+             {sweepMode
+               ? <GatingPlot data={scopeTrace.data} screen={scopeTrace.screen} sweeps={storedSweeps} average={sweepAverage} />
+               : <GatingPlot data={simHistory} />}
           </div>
           
           {/* Uptime Footer */}
-          <div className="h-16 border-t border-white/10 bg-black/40 flex flex-col justify-center px-6">
+          <div className="h-20 border-t border-white/10 bg-black/40 flex flex-col justify-center px-6">
               <div className="flex justify-between items-end mb-2">
                   <span className="text-[10px] font-mono text-cyber-muted tracking-widest">SYS_UPTIME</span>
                   <span className="text-xs font-mono text-cyber-neon">{uptime} MS</span>
               </div>
+              <div className="flex justify-between items-end mb-2 text-[10px] font-mono text-cyber-muted tracking-widest">
+                  <span>SIM_T <span className="text-white/60">{simClock.t.toFixed(1)} ms</span></span>
+                  <span>SOLVER <span className="text-white/60">{Math.round(simClock.stepsPerSecond)} steps/s</span></span>
+              </div>
               <div className="w-full h-1 bg-cyber-dark rounded-full overflow-hidden">
                   <div className="h-full bg-gradient-to-r from-cyber-neon to-cyber-plasma animate-pulse w-full origin-left" style={{ transform: 'scaleX(0.8)' }}></div>
               </div>
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ResponsiveContainer, CartesianGrid, Tooltip, ReferenceLine, Legend } from 'recharts';
+import { BifurcationResult, BifurcationSettings, EquilibriumPoint, HHParameters, HHState, LimitCycle, MembraneConditions, SolverSettings } from '../types';
+import { DEFAULT_BIFURCATION_SETTINGS } from '../services/bifurcation';
+import type { BifurcationCommand, BifurcationEvent } from '../services/bifurcationWorker';
+
+interface BifurcationPanelProps {
+  params: HHParameters;
+  solverSettings: SolverSettings;
+  conditions: MembraneConditions;
+  onJump: (I_ext: number, state: HHState) => void;
+}
+
+const NUMERIC_FIELDS: { name: keyof BifurcationSettings; label: string; step: number }[] = [
+  { name: 'start', label: 'I from', step: 1 },
+  { name: 'end', label: 'I to', step: 1 },
+  { name: 'steps', label: 'Points', step: 1 },
+  { name: 'transient', label: 'Transient ms', step: 10 },
+  { name: 'window', label: 'Window ms', step: 10 },
+];
+
+// Splits equilibria into runs of consecutive same-stability points so branches are drawn unbroken
+const branches = (equilibria: EquilibriumPoint[], stable: boolean): { I: number; V: number }[][] => {
+  const runs: { I: number; V: number }[][] = [];
+  let current: { I: number; V: number }[] = [];
+  equilibria.forEach(eq => {
+    if (eq.stable === stable) {
+      current.push({ I: eq.I, V: eq.V });
+    } else if (current.length) {
+      runs.push(current);
+      current = [];
+    }
+  });
+  if (current.length) runs.push(current);
+  return runs;
+};
+
+const BifurcationPanel: React.FC<BifurcationPanelProps> = ({ params, solverSettings, conditions, onJump }) => {
+  const [settings, setSettings] = useState<BifurcationSettings>(DEFAULT_BIFURCATION_SETTINGS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<BifurcationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedI, setSelectedI] = useState<number | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => cancel, []);
+
+  const run = () => {
+    cancel();
+    const worker = new Worker(new URL('../services/bifurcationWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setProgress(0);
+    setError(null);
+
+    worker.onmessage = (e: MessageEvent<BifurcationEvent>) => {
+      const event = e.data;
+      if (event.type === 'progress') {
+        setProgress(event.done / event.total);
+        return;
+      }
+      if (event.type === 'done') {
+        setResult(event.result);
+        setSelectedI(null);
+      } else {
+        setError(event.message);
+      }
+      cancel();
+    };
+
+    // Load failures and uncaught exceptions never reach onmessage
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      setError(e.message || 'Analysis worker failed');
+      cancel();
+    };
+
+    const command: BifurcationCommand = { type: 'run', params, solver: solverSettings, settings, conditions };
+    worker.postMessage(command);
+  };
+
+  const series = useMemo(() => {
+    if (!result) return null;
+    return {
+      stable: branches(result.equilibria, true),
+      unstable: branches(result.equilibria, false),
+      cycleMax: result.cycles.map(c => ({ I: c.I, V: c.Vmax })),
+      cycleMin: result.cycles.map(c => ({ I: c.I, V: c.Vmin })),
+    };
+  }, [result]);
+
+  const selection = useMemo(() => {
+    if (!result || selectedI === null) return null;
+    const equilibria = result.equilibria.filter(eq => eq.I === selectedI);
+    const cycle: LimitCycle | undefined = result.cycles.find(c => c.I === selectedI);
+    return { equilibria, cycle };
+  }, [result, selectedI]);
+
+  const handlePointClick = (point: { I?: number; payload?: { I: number } }) => {
+    const I = point?.payload?.I ?? point?.I;
+    if (typeof I === 'number') setSelectedI(I);
+  };
+
+  return (
+    <div className="h-full flex flex-col p-6 gap-4">
+      {/* Settings */}
+      <div className="flex flex-wrap items-end gap-4 shrink-0">
+        {NUMERIC_FIELDS.map(({ name, label, step }) => (
+          <label key={name} className="flex flex-col gap-1 text-[9px] font-mono text-cyber-muted uppercase">
+            {label}
+            <input
+              type="number"
+              step={step}
+              value={settings[name]}
+              onChange={e => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) setSettings({ ...settings, [name]: value });
+              }}
+              className="w-20 bg-black border border-white/10 text-white text-right font-mono text-[11px] px-1 py-1"
+            />
+          </label>
+        ))}
+        <button
+          type="button"
+          onClick={progress === null ? run : cancel}
+          className={`px-6 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase ${
+            progress === null
+              ? 'border-cyber-neon text-cyber-neon hover:bg-cyber-neon/10'
+              : 'border-cyber-danger text-cyber-danger hover:bg-cyber-danger/10'
+          }`}
+        >
+          {progress === null ? 'Compute' : 'Cancel'}
+        </button>
+        {progress !== null && (
+          <div className="flex-1 min-w-[120px] h-1 bg-cyber-dark overflow-hidden self-center">
+            <div className="h-full bg-cyber-neon" style={{ width: `${progress * 100}%` }}></div>
+          </div>
+        )}
+        {result && result.hopf.length > 0 && (
+          <span className="text-[10px] font-mono text-[#ffd000] self-center">
+            HOPF ≈ {result.hopf.map(I => I.toFixed(1)).join(', ')} µA/cm²
+          </span>
+        )}
+      </div>
+      {error && <div className="text-[10px] font-mono text-cyber-danger">{error}</div>}
+
+      <div className="flex-1 min-h-[260px] flex gap-6">
+        {/* Diagram */}
+        <div className="flex-1 min-w-0 relative">
+          {result && series ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+                <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+                <XAxis
+                  dataKey="I"
+                  type="number"
+                  domain={[settings.start, settings.end]}
+                  stroke="#565869"
+                  tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                  label={{ value: 'I_ext (µA/cm²)', position: 'insideBottom', offset: -10, fill: '#565869', fontSize: 10 }}
+                />
+                <YAxis
+                  dataKey="V"
+                  type="number"
+                  domain={[-90, 60]}
+                  stroke="#565869"
+                  tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                  width={40}
+                  label={{ value: 'V (mV)', angle: -90, position: 'insideLeft', fill: '#565869', fontSize: 10 }}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#05060a', border: '1px solid #1f2233', color: '#fff', fontSize: '10px' }}
+                  formatter={(v: number) => v.toFixed(2)}
+                  isAnimationActive={false}
+                />
+                <Legend wrapperStyle={{ fontSize: '10px', fontFamily: 'Share Tech Mono', opacity: 0.8 }} iconSize={8} verticalAlign="top" />
+                {result.hopf.map(I => (
+                  <ReferenceLine key={I} x={I} stroke="#ffd000" strokeDasharray="2 4" />
+                ))}
+                {selectedI !== null && <ReferenceLine x={selectedI} stroke="#ffffff" strokeOpacity={0.6} />}
+                {series.stable.map((run, i) => (
+                  <Scatter key={`s${i}`} name={i === 0 ? 'Stable equilibrium' : undefined} legendType={i === 0 ? 'line' : 'none'} data={run} line={{ stroke: '#00ff9d', strokeWidth: 2 }} shape={() => null} fill="#00ff9d" isAnimationActive={false} onClick={handlePointClick} />
+                ))}
+                {series.unstable.map((run, i) => (
+                  <Scatter key={`u${i}`} name={i === 0 ? 'Unstable equilibrium' : undefined} legendType={i === 0 ? 'line' : 'none'} data={run} line={{ stroke: '#ff2a2a', strokeWidth: 1.5, strokeDasharray: '4 3' }} shape={() => null} fill="#ff2a2a" isAnimationActive={false} onClick={handlePointClick} />
+                ))}
+                <Scatter name="Cycle max V" data={series.cycleMax} fill="#00f0ff" shape="circle" isAnimationActive={false} onClick={handlePointClick} />
+                <Scatter name="Cycle min V" data={series.cycleMin} fill="#9d00ff" shape="circle" isAnimationActive={false} onClick={handlePointClick} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-[10px] font-mono text-cyber-muted uppercase tracking-widest">
+              Compute equilibria and limit cycles across I_ext
+            </div>
+          )}
+        </div>
+
+        {/* Selection */}
+        <div className="w-56 shrink-0 space-y-3 font-mono text-[10px]">
+          <div className="text-cyber-muted uppercase tracking-widest">Selected Point</div>
+          {!selection && <div className="text-white/50">Click a cycle point or branch to inspect it and jump the live simulation there.</div>}
+          {selection && (
+            <>
+              <div className="text-white">I_ext = {selectedI!.toFixed(2)} µA/cm²</div>
+              {selection.equilibria.map((eq, i) => (
+                <div key={i} className="border border-white/10 p-2 space-y-1">
+                  <div className={eq.stable ? 'text-[#00ff9d]' : 'text-cyber-danger'}>{eq.stable ? 'Stable' : 'Unstable'} equilibrium</div>
+                  <div className="text-white/60">V = {eq.V.toFixed(2)} mV</div>
+                  <button
+                    type="button"
+                    onClick={() => onJump(eq.I, eq.state)}
+                    className="w-full mt-1 py-1 border border-white/20 text-white/80 hover:border-cyber-neon hover:text-cyber-neon uppercase tracking-widest"
+                  >
+                    Jump Here
+                  </button>
+                </div>
+              ))}
+              {selection.cycle && (
+                <div className="border border-white/10 p-2 space-y-1">
+                  <div className="text-cyber-neon">Stable limit cycle</div>
+                  <div className="text-white/60">{selection.cycle.Vmin.toFixed(1)} … {selection.cycle.Vmax.toFixed(1)} mV</div>
+                  <div className="text-white/60">T = {selection.cycle.period.toFixed(2)} ms ({(1000 / selection.cycle.period).toFixed(1)} Hz)</div>
+                  <button
+                    type="button"
+                    onClick={() => onJump(selection.cycle!.I, selection.cycle!.state)}
+                    className="w-full mt-1 py-1 border border-white/20 text-white/80 hover:border-cyber-neon hover:text-cyber-neon uppercase tracking-widest"
+                  >
+                    Jump Onto Cycle
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BifurcationPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Legend, CartesianGrid, ReferenceLine } from 'recharts';
+import { ClampSample } from '../types';
+
+interface ClampPlotProps {
+  data: ClampSample[];
+}
+
+const ClampPlot: React.FC<ClampPlotProps> = React.memo(({ data }) => {
+  return (
+    <div className="w-full h-full relative flex flex-col p-6 bg-cyber-panel/20">
+
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6 shrink-0 border-l-2 border-white pl-3">
+             <h3 className="text-white text-[10px] font-sans font-bold uppercase tracking-[0.2em]">
+                Clamp Current (µA/cm²)
+            </h3>
+        </div>
+
+      <div className="flex-1 min-h-0 w-full relative">
+         {/* Decorative Brackets */}
+        <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-white/20"></div>
+        <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-white/20"></div>
+        <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-white/20"></div>
+        <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-white/20"></div>
+
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" vertical={false} opacity={0.3} />
+            <XAxis
+                dataKey="t"
+                type="number"
+                domain={[0, 'dataMax']}
+                axisLine={false}
+                tickLine={false}
+                stroke="#565869"
+                tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                tickFormatter={(t: number) => `${t.toFixed(0)}ms`}
+            />
+            <YAxis
+                domain={['auto', 'auto']}
+                hide={false}
+                axisLine={false}
+                tickLine={false}
+                stroke="#565869"
+                tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                width={35}
+                interval="preserveStartEnd"
+                tickFormatter={(v: number) => v.toFixed(0)}
+            />
+            <Legend
+                wrapperStyle={{ fontSize: '10px', fontFamily: 'Share Tech Mono', opacity: 0.8, paddingTop: '15px' }}
+                iconType="rect"
+                iconSize={8}
+            />
+            <ReferenceLine y={0} stroke="#565869" strokeDasharray="2 2" />
+
+            <Line type="monotone" dataKey="I_clamp" stroke="#ffffff" strokeWidth={1.5} dot={false} isAnimationActive={false} name="I clamp" />
+            <Line type="monotone" dataKey="I_Na" stroke="#00f0ff" strokeWidth={1.5} dot={false} isAnimationActive={false} name="I Na" />
+            <Line type="monotone" dataKey="I_K" stroke="#9d00ff" strokeWidth={1.5} dot={false} isAnimationActive={false} name="I K" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+});
+
+export default ClampPlot;
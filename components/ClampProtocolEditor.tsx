@@ -0,0 +1,75 @@
+import React from 'react';
+import { VoltageClampProtocol } from '../types';
+
+interface ClampProtocolEditorProps {
+  protocol: VoltageClampProtocol;
+  onProtocolChange: (newProtocol: Partial<VoltageClampProtocol>) => void;
+}
+
+interface SliderSpec {
+  name: keyof VoltageClampProtocol;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { name: 'V_hold', label: 'Holding', unit: 'mV', min: -120, max: 0, step: 1 },
+  { name: 't_hold', label: 'Hold Time', unit: 'ms', min: 1, max: 20, step: 0.5 },
+  { name: 'V_step', label: 'Step', unit: 'mV', min: -120, max: 80, step: 1 },
+  { name: 't_step', label: 'Step Time', unit: 'ms', min: 1, max: 50, step: 0.5 },
+  { name: 'V_tail', label: 'Tail', unit: 'mV', min: -120, max: 40, step: 1 },
+  { name: 't_tail', label: 'Tail Time', unit: 'ms', min: 1, max: 30, step: 0.5 },
+];
+
+const ClampProtocolEditor: React.FC<ClampProtocolEditorProps> = React.memo(({ protocol, onProtocolChange }) => {
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onProtocolChange({ [name]: parseFloat(value) });
+  };
+
+  // Miniature schematic of the command waveform
+  const total = protocol.t_hold + protocol.t_step + protocol.t_tail;
+  const x = (t: number) => (t / total) * 100;
+  const y = (V: number) => 30 - ((V + 120) / 200) * 30;
+  const path = [
+    `M0 ${y(protocol.V_hold)}`,
+    `H${x(protocol.t_hold)}`,
+    `V${y(protocol.V_step)}`,
+    `H${x(protocol.t_hold + protocol.t_step)}`,
+    `V${y(protocol.V_tail)}`,
+    'H100',
+  ].join(' ');
+
+  return (
+    <div className="bg-cyber-neon/5 border border-cyber-neon/20 p-4 space-y-4">
+      <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-full h-10">
+        <path d={path} fill="none" stroke="#00f0ff" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      {SLIDERS.map(({ name, label, unit, min, max, step }) => (
+        <div key={name} className="flex items-center justify-between gap-4">
+          <span className="text-[9px] font-mono text-cyber-neon/70 uppercase w-16">{label}</span>
+          <div className="flex items-center gap-3 flex-1">
+            <input
+              type="range"
+              name={name}
+              min={min}
+              max={max}
+              step={step}
+              value={protocol[name]}
+              onChange={handleChange}
+              className="flex-1 h-1 bg-cyber-neon/30 rounded-full appearance-none"
+            />
+            <span className="font-mono text-cyber-neon text-xs w-14 text-right">{protocol[name].toFixed(step < 1 ? 1 : 0)} {unit}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export default ClampProtocolEditor;
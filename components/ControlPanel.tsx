@@ -1,20 +1,109 @@
-import React from 'react';
-import { HHParameters } from '../types';
+import React, { useRef, useState } from 'react';
+import { HHParameters, IntegratorMethod, SolverSettings, ExperimentMode, VoltageClampProtocol, StimulusProtocol, CableParameters, NoiseMethod, NoiseSettings,
+  IonicEnvironment, IonicState, IonConcentrations, ChannelSetting,
+} from '../types';
+import { INTEGRATOR_LABELS } from '../services/integrators';
+import { temperatureFactor } from '../services/hhSolver';
+import { lengthConstant } from '../services/cableSolver';
+import { NOISE_LABELS, MARKOV_MAX_AREA, channelCounts } from '../services/channelNoise';
+import { ENVIRONMENT_PRESETS, reversalPotentials, ghkPotential } from '../services/ionicEnvironment';
+import { channelDefinition, gatingFormula } from '../services/channels';
+import ClampProtocolEditor from './ClampProtocolEditor';
+import StimulusEditor from './StimulusEditor';
+import { ExportFormat } from '../services/traceExport';
+import { MAX_RECORDED_SAMPLES } from '../services/recorder';
 
 interface ControlPanelProps {
   params: HHParameters;
   onParamChange: (newParams: Partial<HHParameters>) => void;
+  solverSettings: SolverSettings;
+  onSolverChange: (newSettings: Partial<SolverSettings>) => void;
+  experimentMode: ExperimentMode;
+  onExperimentModeChange: (mode: ExperimentMode) => void;
+  clampProtocol: VoltageClampProtocol;
+  onClampProtocolChange: (newProtocol: Partial<VoltageClampProtocol>) => void;
+  stimulusProtocol: StimulusProtocol;
+  onStimulusProtocolChange: (protocol: StimulusProtocol) => void;
+  cable: CableParameters;
+  onCableChange: (newCable: Partial<CableParameters>) => void;
+  noise: NoiseSettings;
+  onNoiseChange: (newNoise: Partial<NoiseSettings>) => void;
+  environment: IonicEnvironment;
+  onEnvironmentChange: (newEnvironment: Partial<IonicEnvironment>) => void;
+  onRestoreConcentrations: () => void; // Discards any drift from the configured concentrations
+  ionicState: IonicState | null; // Live concentrations while the environment is modeled
+  channels: ChannelSetting[];
+  onChannelsChange: (channels: ChannelSetting[]) => void;
+  conductionVelocity: number | null;
+  stimulusRunning: boolean;
+  onStimulusToggle: () => void;
+  simRunning: boolean;
+  simulationError: string | null; // Why the simulation paused itself, if it did
+  onSimToggle: () => void;
+  onSimStep: () => void;
+  realTimeFactor: number;
+  onRealTimeFactorChange: (factor: number) => void;
   onInjectCurrent: () => void;
   onReset: () => void;
+  onSessionSave: (includeTrace: boolean) => void;
+  onSessionLoad: (file: File) => void;
+  onSessionShare: () => void;
+  sessionMessage: string | null;
+  recording: boolean;
+  recordedSamples: number;
+  onRecordToggle: () => void;
+  onExport: (format: ExportFormat) => void;
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = React.memo(({ params, onParamChange, onInjectCurrent, onReset }) => {
+const CABLE_FIELDS: { name: keyof CableParameters; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { name: 'segments', label: 'Compartments', unit: '', min: 1, max: 200, step: 1 },
+  { name: 'diameter', label: 'Diameter', unit: 'µm', min: 1, max: 1000, step: 1 },
+  { name: 'length', label: 'Compartment Length', unit: 'µm', min: 50, max: 2000, step: 50 },
+  { name: 'Ra', label: 'Axial Resistivity', unit: 'Ω·cm', min: 10, max: 300, step: 0.1 },
+];
+
+const ION_ROWS: { label: string; inside: keyof IonConcentrations; outside: keyof IonConcentrations; reversal: 'E_Na' | 'E_K' | 'E_Cl' }[] = [
+  { label: 'Na+', inside: 'Na_i', outside: 'Na_o', reversal: 'E_Na' },
+  { label: 'K+', inside: 'K_i', outside: 'K_o', reversal: 'E_K' },
+  { label: 'Cl−', inside: 'Cl_i', outside: 'Cl_o', reversal: 'E_Cl' },
+];
+
+const REVERSAL_FIELDS: { name: 'E_Na' | 'E_K' | 'E_L'; label: string }[] = [
+  { name: 'E_Na', label: 'E Na+' },
+  { name: 'E_K', label: 'E K+' },
+  { name: 'E_L', label: 'E Leak' },
+];
+
+const ControlPanel: React.FC<ControlPanelProps> = React.memo(({ 
+  params, onParamChange, solverSettings, onSolverChange, 
+  experimentMode, onExperimentModeChange, clampProtocol, onClampProtocolChange, 
+  stimulusProtocol, onStimulusProtocolChange, cable, onCableChange, noise, onNoiseChange, environment, onEnvironmentChange, onRestoreConcentrations, ionicState, channels, onChannelsChange, conductionVelocity,
+  stimulusRunning, onStimulusToggle,
+  simRunning, simulationError, onSimToggle, onSimStep, realTimeFactor, onRealTimeFactorChange,
+  onInjectCurrent, onReset, onSessionSave, onSessionLoad, onSessionShare, sessionMessage,
+  recording, recordedSamples, onRecordToggle, onExport
+}) => {
+  const [includeTrace, setIncludeTrace] = useState(false);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
   
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     onParamChange({ [name]: parseFloat(value) });
   };
 
+  const handleCableChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onCableChange({ [name]: parseFloat(value) });
+  };
+
+  const handleSolverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    // Tolerance slider is logarithmic
+    onSolverChange(name === 'rtol'
+      ? { rtol: Math.pow(10, parseFloat(value)), atol: Math.pow(10, parseFloat(value) - 2) }
+      : { [name]: parseFloat(value) });
+  };
+
   return (
     <div className="w-full h-full bg-cyber-black/90 backdrop-blur-xl border-r border-white/10 flex flex-col relative z-20">
       
@@ -44,9 +133,157 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({ params, onParamC
               <span className="w-1 h-1 bg-current opacity-50 group-hover:animate-ping"></span>
               Initialize Reset
            </button>
+
+           {/* Simulation Clock */}
+           <div className="flex gap-2">
+              <button
+                 type="button"
+                 onClick={onSimToggle}
+                 className={`flex-1 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 ${
+                     simRunning
+                         ? 'border-white/10 text-cyber-muted hover:border-white/30 hover:text-white'
+                         : 'border-cyber-neon text-cyber-neon bg-cyber-neon/10'
+                 }`}
+              >
+                 {simRunning ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                 type="button"
+                 onClick={onSimStep}
+                 disabled={simRunning}
+                 className="flex-1 py-2 border border-white/10 text-cyber-muted hover:border-white/30 hover:text-white font-mono text-[10px] font-bold tracking-widest uppercase disabled:opacity-30 disabled:hover:border-white/10 disabled:hover:text-cyber-muted"
+              >
+                 Step dt
+              </button>
+           </div>
+           {simulationError && <div className="text-[9px] font-mono text-cyber-danger break-words">{simulationError}</div>}
+           <div className="flex items-center justify-between gap-4">
+              <span className="text-[9px] font-mono text-cyber-muted uppercase">Speed</span>
+              <div className="flex items-center gap-3 flex-1">
+                  <input 
+                      type="range" 
+                      min="-3" 
+                      max="0" 
+                      step="0.05" 
+                      value={Math.log10(realTimeFactor)} 
+                      onChange={e => onRealTimeFactorChange(Math.pow(10, parseFloat(e.target.value)))}
+                      className="flex-1 h-1 bg-gray-800 rounded-full appearance-none"
+                  />
+                  <span className="font-mono text-white/70 text-xs w-14 text-right">×{realTimeFactor < 0.01 ? realTimeFactor.toFixed(3) : realTimeFactor.toFixed(2)}</span>
+              </div>
+           </div>
+
+           {/* Session */}
+           <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: 'Save', onClick: () => onSessionSave(includeTrace) },
+                { label: 'Load', onClick: () => sessionInputRef.current?.click() },
+                { label: 'Share', onClick: onSessionShare },
+              ].map(({ label, onClick }) => (
+                <button
+                    key={label}
+                    type="button"
+                    onClick={onClick}
+                    className="py-2 border border-white/10 text-cyber-muted hover:border-white/30 hover:text-white font-mono text-[10px] font-bold tracking-widest uppercase"
+                >
+                    {label}
+                </button>
+              ))}
+           </div>
+           <input
+              ref={sessionInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onSessionLoad(file);
+                  e.target.value = '';
+              }}
+           />
+           <div className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-[9px] font-mono text-cyber-muted uppercase cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={includeTrace}
+                      onChange={e => setIncludeTrace(e.target.checked)}
+                      className="accent-cyber-neon"
+                  />
+                  Include trace
+              </label>
+              {sessionMessage && <span className="text-[9px] font-mono text-white/50 truncate" title={sessionMessage}>{sessionMessage}</span>}
+           </div>
+
+           {/* Recorder: every solver step, independent of the display buffer */}
+           <div className="flex gap-2">
+              <button
+                 type="button"
+                 onClick={onRecordToggle}
+                 className={`flex-1 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 flex items-center justify-center gap-2 ${
+                     recording
+                         ? 'border-cyber-danger text-cyber-danger bg-cyber-danger/10'
+                         : 'border-white/10 text-cyber-muted hover:border-white/30 hover:text-white'
+                 }`}
+              >
+                 <span className={`w-1.5 h-1.5 rounded-full bg-current ${recording ? 'animate-pulse' : ''}`}></span>
+                 {recording ? 'Stop' : 'Record'}
+              </button>
+              <span className="flex-1 self-center text-right font-mono text-[10px] text-white/70">
+                 {recordedSamples.toLocaleString()} <span className="text-cyber-muted">samples</span>
+                 <span className="block text-[9px] text-cyber-muted">
+                    {(recordedSamples * solverSettings.dt).toFixed(1)} ms
+                    {recordedSamples >= MAX_RECORDED_SAMPLES && <span className="text-cyber-danger"> · limit reached, stopped</span>}
+                 </span>
+              </span>
+           </div>
+           <div className="grid grid-cols-3 gap-2">
+              {Object.values(ExportFormat).map(format => (
+                <button
+                    key={format}
+                    type="button"
+                    onClick={() => onExport(format)}
+                    disabled={recordedSamples === 0}
+                    className="py-2 border border-white/10 text-cyber-muted hover:border-white/30 hover:text-white font-mono text-[10px] font-bold tracking-widest uppercase disabled:opacity-30 disabled:hover:border-white/10 disabled:hover:text-cyber-muted"
+                >
+                    {format}
+                </button>
+              ))}
+           </div>
+        </div>
+
+        {/* Experiment Mode */}
+        <div className="space-y-2">
+           <div className="flex justify-between items-end border-l-2 border-cyber-neon pl-3 py-1">
+             <label className="text-[11px] text-white font-bold tracking-[0.15em] uppercase">Experiment</label>
+           </div>
+
+           <div className="grid grid-cols-2 gap-2">
+              {[
+                { mode: ExperimentMode.CURRENT_CLAMP, label: 'I-Clamp' },
+                { mode: ExperimentMode.VOLTAGE_CLAMP, label: 'V-Clamp' },
+              ].map(({ mode, label }) => (
+                <button
+                    key={mode}
+                    type="button"
+                    onClick={() => onExperimentModeChange(mode)}
+                    className={`py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 ${
+                        experimentMode === mode
+                            ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10'
+                            : 'border-white/10 text-cyber-muted hover:border-white/30 hover:text-white'
+                    }`}
+                >
+                    {label}
+                </button>
+              ))}
+           </div>
+
+           {experimentMode === ExperimentMode.VOLTAGE_CLAMP && (
+              <ClampProtocolEditor protocol={clampProtocol} onProtocolChange={onClampProtocolChange} />
+           )}
         </div>
 
         {/* Stimulus Control */}
+        {experimentMode === ExperimentMode.CURRENT_CLAMP && (
         <div className="space-y-2">
            <div className="flex justify-between items-end border-l-2 border-cyber-danger pl-3 py-1">
              <label className="text-[11px] text-white font-bold tracking-[0.15em] uppercase">Stimulus</label>
@@ -86,7 +323,17 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({ params, onParamC
                 </div>
              </div>
            </div>
+
+           <div className="pt-2">
+             <StimulusEditor 
+                protocol={stimulusProtocol} 
+                onProtocolChange={onStimulusProtocolChange} 
+                running={stimulusRunning} 
+                onToggleRun={onStimulusToggle} 
+             />
+           </div>
         </div>
+        )}
 
         {/* Conductance Parameters */}
         <div className="space-y-6">
@@ -163,6 +410,446 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({ params, onParamC
                 />
             </div>
         </div>
+
+        {/* Channel Library */}
+        <div className="space-y-4">
+            <div className="border-b border-white/5 pb-2 mb-4 flex justify-between items-end">
+                <label className="text-[10px] text-cyber-muted font-bold tracking-[0.2em] uppercase">
+                    Channel Library
+                </label>
+                <span className="text-[9px] font-mono text-cyber-muted">
+                    {channels.filter(c => c.enabled).length} ACTIVE
+                </span>
+            </div>
+
+            {channels.map(setting => {
+                const definition = channelDefinition(setting.id);
+                if (!definition) return null;
+                const update = (changes: Partial<ChannelSetting>) =>
+                    onChannelsChange(channels.map(c => (c.id === setting.id ? { ...c, ...changes } : c)));
+                return (
+                    <div key={setting.id} className="group">
+                        <label className="flex items-center gap-2 cursor-pointer" title={definition.description}>
+                            <input
+                                type="checkbox"
+                                checked={setting.enabled}
+                                onChange={e => update({ enabled: e.target.checked })}
+                                className="accent-cyber-neon"
+                            />
+                            <span className={`text-xs font-bold ${setting.enabled ? 'text-white' : 'text-cyber-muted'}`}>{definition.name}</span>
+                            <span className="ml-auto font-mono text-[9px] text-cyber-muted">g·{gatingFormula(definition)}</span>
+                        </label>
+                        {setting.enabled && (
+                            <div className="mt-2 pl-5 space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <span className="text-[9px] text-cyber-muted tracking-widest uppercase">g {definition.ion}</span>
+                                    <span className="font-mono text-white/70 text-xs">{setting.g.toFixed(2)} mS/cm²</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max={definition.g * 4}
+                                    step={definition.g / 100}
+                                    value={setting.g}
+                                    onChange={e => update({ g: parseFloat(e.target.value) })}
+                                    className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-white"
+                                />
+                                <label className="flex justify-between items-center text-[9px] font-mono text-cyber-muted uppercase">
+                                    Reversal (mV)
+                                    <input
+                                        type="number"
+                                        step={1}
+                                        value={setting.E}
+                                        onChange={e => {
+                                            const value = parseFloat(e.target.value);
+                                            if (Number.isFinite(value)) update({ E: value });
+                                        }}
+                                        className="w-16 bg-black border border-white/10 text-white text-right text-xs px-1 py-0.5"
+                                    />
+                                </label>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Environment */}
+        <div className="space-y-6">
+            <div className="border-b border-white/5 pb-2 mb-6">
+                <label className="text-[10px] text-cyber-muted font-bold tracking-[0.2em] uppercase">
+                    Environment
+                </label>
+            </div>
+
+            {/* Temperature */}
+            <div className="group">
+                <div className="flex justify-between mb-2 items-center">
+                    <div className="flex items-baseline gap-2">
+                        <span className="text-sm font-bold text-white">T</span>
+                        <span className="text-[9px] text-cyber-danger tracking-widest uppercase opacity-70">Temperature</span>
+                    </div>
+                    <div className="bg-cyber-danger/10 border border-cyber-danger/20 px-2 py-1 min-w-[3.5rem] text-right">
+                        <span className="font-mono text-cyber-danger text-xs">{params.temperature.toFixed(1)} °C</span>
+                    </div>
+                </div>
+                <input 
+                    type="range" 
+                    name="temperature" 
+                    min="0" 
+                    max="45" 
+                    step="0.1"
+                    value={params.temperature} 
+                    onChange={handleChange}
+                    className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-cyber-danger [&::-webkit-slider-thumb]:shadow-[0_0_10px_#ff2a2a]"
+                />
+                <div className="flex justify-between mt-2 text-[9px] font-mono text-cyber-muted">
+                    <span>Q10 RATE FACTOR</span>
+                    <span className="text-white/50">×{temperatureFactor(params.temperature).toFixed(2)}</span>
+                </div>
+            </div>
+        </div>
+
+        {/* Ionic Environment */}
+        <div className="space-y-4">
+            <div className="border-b border-white/5 pb-2 mb-4 flex justify-between items-end">
+                <label className="text-[10px] text-cyber-muted font-bold tracking-[0.2em] uppercase">
+                    Ionic Environment
+                </label>
+                <span className="text-[9px] font-mono text-cyber-muted">
+                    GHK V<sub>rest</sub> <span className="text-white/50">{ghkPotential(ionicState?.concentrations ?? environment.concentrations, params.temperature).toFixed(1)} mV</span>
+                </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {[
+                  { enabled: false, label: 'Fixed E' },
+                  { enabled: true, label: 'Nernst' },
+                ].map(({ enabled, label }) => (
+                    <button
+                        key={label}
+                        type="button"
+                        onClick={() => onEnvironmentChange({ enabled })}
+                        className={`py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 ${
+                            environment.enabled === enabled
+                                ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10'
+                                : 'border-white/10 text-cyber-muted hover:border-white/30 hover:text-white'
+                        }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {!environment.enabled ? (
+                <div className="grid grid-cols-3 gap-2">
+                    {REVERSAL_FIELDS.map(({ name, label }) => (
+                        <label key={name} className="flex flex-col gap-1 text-[9px] font-mono text-cyber-muted uppercase">
+                            {label}
+                            <input
+                                type="number"
+                                step={0.5}
+                                value={params[name]}
+                                onChange={e => {
+                                    const value = parseFloat(e.target.value);
+                                    if (Number.isFinite(value)) onParamChange({ [name]: value });
+                                }}
+                                className="bg-black border border-white/10 text-white text-right text-xs px-1 py-0.5"
+                            />
+                        </label>
+                    ))}
+                </div>
+            ) : (
+                <>
+                    <div className="flex gap-1">
+                        {ENVIRONMENT_PRESETS.map(preset => (
+                            <button
+                                key={preset.name}
+                                type="button"
+                                onClick={() => onEnvironmentChange({ concentrations: preset.concentrations })}
+                                className="flex-1 py-1 border border-white/10 text-cyber-muted hover:border-white/30 hover:text-white font-mono text-[9px] uppercase tracking-widest"
+                            >
+                                {preset.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    <table className="w-full text-[10px] font-mono">
+                        <thead className="text-[9px] text-cyber-muted uppercase">
+                            <tr>
+                                <th className="font-normal text-left">Ion</th>
+                                <th className="font-normal text-right">In mM</th>
+                                <th className="font-normal text-right">Out mM</th>
+                                <th className="font-normal text-right">E mV</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ION_ROWS.map(({ label, inside, outside, reversal }) => (
+                                <tr key={label}>
+                                    <td className="py-1 text-white">{label}</td>
+                                    {[inside, outside].map(key => (
+                                        <td key={key} className="py-1 text-right">
+                                            <input
+                                                type="number"
+                                                min={0.1}
+                                                step={1}
+                                                value={environment.concentrations[key]}
+                                                onChange={e => {
+                                                    const value = parseFloat(e.target.value);
+                                                    if (Number.isFinite(value) && value > 0) {
+                                                        onEnvironmentChange({ concentrations: { ...environment.concentrations, [key]: value } });
+                                                    }
+                                                }}
+                                                className="w-14 bg-black border border-white/10 text-white text-right px-1"
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="py-1 text-right text-cyber-neon">
+                                        {(ionicState ?? { reversal: reversalPotentials(environment.concentrations, params.temperature, environment.leak) }).reversal[reversal].toFixed(1)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="flex justify-between text-[9px] font-mono text-cyber-muted">
+                        <span>E LEAK ({(environment.leak.Na * 100).toFixed(0)}% Na · {(environment.leak.K * 100).toFixed(0)}% K · {(environment.leak.Cl * 100).toFixed(0)}% Cl)</span>
+                        <span className="text-white/50">
+                            {(ionicState?.reversal.E_L ?? reversalPotentials(environment.concentrations, params.temperature, environment.leak).E_L).toFixed(1)} mV
+                        </span>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-[9px] font-mono text-cyber-muted uppercase cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={environment.dynamic}
+                            onChange={e => onEnvironmentChange({ dynamic: e.target.checked })}
+                            className="accent-cyber-neon"
+                        />
+                        Concentration dynamics + Na/K pump
+                    </label>
+                    {environment.dynamic && (
+                        <>
+                            <div className="group">
+                                <div className="flex justify-between mb-2 items-center">
+                                    <span className="text-[9px] text-cyber-muted tracking-widest uppercase">Pump Max</span>
+                                    <span className="font-mono text-white/70 text-xs">{environment.pumpMax.toFixed(1)} µA/cm²</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="10"
+                                    step="0.1"
+                                    value={environment.pumpMax}
+                                    onChange={e => onEnvironmentChange({ pumpMax: parseFloat(e.target.value) })}
+                                    className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-white"
+                                />
+                            </div>
+                            {ionicState && (
+                                <div className="space-y-1 text-[9px] font-mono text-cyber-muted">
+                                    <div className="flex justify-between">
+                                        <span>LIVE Na<sub>i</sub> · K<sub>i</sub> · K<sub>o</sub></span>
+                                        <span className="text-white/50">
+                                            {ionicState.concentrations.Na_i.toFixed(2)} · {ionicState.concentrations.K_i.toFixed(1)} · {ionicState.concentrations.K_o.toFixed(2)} mM
+                                        </span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>PUMP CURRENT</span>
+                                        <span className="text-white/50">{ionicState.I_pump.toFixed(2)} µA/cm²</span>
+                                    </div>
+                                </div>
+                            )}
+                            <button
+                                type="button"
+                                onClick={onRestoreConcentrations}
+                                className="w-full py-1 border border-white/10 text-cyber-muted hover:border-white/30 hover:text-white font-mono text-[9px] uppercase tracking-widest"
+                            >
+                                Restore concentrations
+                            </button>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+
+        {/* Channel Noise */}
+        <div className="space-y-4">
+            <div className="border-b border-white/5 pb-2 mb-4 flex justify-between items-end">
+                <label className="text-[10px] text-cyber-muted font-bold tracking-[0.2em] uppercase">
+                    Channel Noise
+                </label>
+                <span className="text-[9px] font-mono text-cyber-muted">
+                    {noise.method === NoiseMethod.NONE ? 'DETERMINISTIC'
+                        : cable.segments > 1 ? 'POINT NEURON ONLY'
+                        : noise.method === NoiseMethod.MARKOV && noise.area > MARKOV_MAX_AREA ? `LANGEVIN ABOVE ${MARKOV_MAX_AREA} µm²`
+                        : 'STOCHASTIC'}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                {Object.values(NoiseMethod).map(method => (
+                    <button
+                        key={method}
+                        type="button"
+                        onClick={() => onNoiseChange({ method })}
+                        className={`py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 ${
+                            noise.method === method
+                                ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10'
+                                : 'border-white/10 text-cyber-muted hover:border-white/30 hover:text-white'
+                        }`}
+                    >
+                        {NOISE_LABELS[method]}
+                    </button>
+                ))}
+            </div>
+
+            {noise.method !== NoiseMethod.NONE && (
+                <>
+                    <div className="group">
+                        <div className="flex justify-between mb-2 items-center">
+                            <span className="text-[9px] text-cyber-muted tracking-widest uppercase">Membrane Area</span>
+                            <span className="font-mono text-white/70 text-xs">{noise.area.toFixed(noise.area < 10 ? 1 : 0)} µm²</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="3"
+                            step="0.05"
+                            value={Math.log10(noise.area)}
+                            onChange={e => onNoiseChange({ area: +Math.pow(10, parseFloat(e.target.value)).toPrecision(2) })}
+                            className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-white"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between gap-4 text-[9px] font-mono text-cyber-muted">
+                        <span>
+                            N<sub>Na</sub> <span className="text-white/50">{channelCounts(noise.area).Na.toLocaleString()}</span>
+                            {' · '}
+                            N<sub>K</sub> <span className="text-white/50">{channelCounts(noise.area).K.toLocaleString()}</span>
+                        </span>
+                        <label className="flex items-center gap-2 uppercase">
+                            Seed
+                            <input
+                                type="number"
+                                step={1}
+                                value={noise.seed}
+                                onChange={e => {
+                                    const seed = parseInt(e.target.value, 10);
+                                    if (Number.isFinite(seed)) onNoiseChange({ seed });
+                                }}
+                                className="w-14 bg-black border border-white/10 text-white text-right px-1 py-0.5"
+                            />
+                        </label>
+                    </div>
+                </>
+            )}
+        </div>
+
+        {/* Axon Cable */}
+        <div className="space-y-4">
+            <div className="border-b border-white/5 pb-2 mb-4 flex justify-between items-end">
+                <label className="text-[10px] text-cyber-muted font-bold tracking-[0.2em] uppercase">
+                    Axon Cable
+                </label>
+                <span className="text-[9px] font-mono text-cyber-muted">
+                    {cable.segments > 1 ? `${cable.segments} × ${cable.length} µm` : 'POINT NEURON'}
+                </span>
+            </div>
+
+            {CABLE_FIELDS.map(({ name, label, unit, min, max, step }) => (
+                <div key={name} className="group">
+                    <div className="flex justify-between mb-2 items-center">
+                        <span className="text-[9px] text-cyber-muted tracking-widest uppercase">{label}</span>
+                        <span className="font-mono text-white/70 text-xs">{cable[name]} {unit}</span>
+                    </div>
+                    <input 
+                        type="range" 
+                        name={name} 
+                        min={min} 
+                        max={max} 
+                        step={step}
+                        value={cable[name]} 
+                        onChange={handleCableChange}
+                        className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-white"
+                    />
+                </div>
+            ))}
+
+            <div className="space-y-1 text-[9px] font-mono text-cyber-muted">
+                <div className="flex justify-between">
+                    <span>LENGTH CONSTANT λ</span>
+                    <span className="text-white/50">{(lengthConstant(cable, params) / 1000).toFixed(2)} mm</span>
+                </div>
+                <div className="flex justify-between">
+                    <span>CONDUCTION VELOCITY</span>
+                    <span className="text-white/50">
+                        {cable.segments > 1 && conductionVelocity !== null ? `${conductionVelocity.toFixed(1)} m/s` : '--'}
+                    </span>
+                </div>
+            </div>
+        </div>
+
+        {/* Numerical Integrator */}
+        <div className="space-y-4">
+            <div className="border-b border-white/5 pb-2 mb-4">
+                <label className="text-[10px] text-cyber-muted font-bold tracking-[0.2em] uppercase">
+                    Numerical Integrator
+                </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {Object.values(IntegratorMethod).map(method => (
+                    <button
+                        key={method}
+                        type="button"
+                        onClick={() => onSolverChange({ method })}
+                        className={`py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 ${
+                            solverSettings.method === method
+                                ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10'
+                                : 'border-white/10 text-cyber-muted hover:border-white/30 hover:text-white'
+                        }`}
+                    >
+                        {INTEGRATOR_LABELS[method]}
+                    </button>
+                ))}
+            </div>
+
+            <div className="group">
+                <div className="flex justify-between mb-2 items-center">
+                    <span className="text-[9px] text-cyber-muted tracking-widest uppercase">
+                        {solverSettings.method === IntegratorMethod.RK45 ? 'Output Interval' : 'Time Step'}
+                    </span>
+                    <span className="font-mono text-white/70 text-xs">{solverSettings.dt.toFixed(3)} ms</span>
+                </div>
+                <input 
+                    type="range" 
+                    name="dt" 
+                    min="0.005" 
+                    max="0.25" 
+                    step="0.005"
+                    value={solverSettings.dt} 
+                    onChange={handleSolverChange}
+                    className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-white"
+                />
+            </div>
+
+            {solverSettings.method === IntegratorMethod.RK45 && (
+                <div className="group">
+                    <div className="flex justify-between mb-2 items-center">
+                        <span className="text-[9px] text-cyber-muted tracking-widest uppercase">Rel. Tolerance</span>
+                        <span className="font-mono text-white/70 text-xs">{solverSettings.rtol.toExponential(0)}</span>
+                    </div>
+                    <input 
+                        type="range" 
+                        name="rtol" 
+                        min="-8" 
+                        max="-1" 
+                        step="1"
+                        value={Math.round(Math.log10(solverSettings.rtol))} 
+                        onChange={handleSolverChange}
+                        className="w-full h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-white"
+                    />
+                </div>
+            )}
+        </div>
       </div>
       
       {/* Footer Details */}
@@ -173,7 +860,7 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({ params, onParamC
          </div>
          <div className="flex justify-between">
             <span>TEMP_K</span>
-            <span className="text-white/50">279.45 K</span>
+            <span className="text-white/50">{(params.temperature + 273.15).toFixed(2)} K</span>
          </div>
       </div>
     </div>
@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, AreaChart, Area, YAxis, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
+import { CurrentSample } from '../types';
+
+interface CurrentsPlotProps {
+  data: CurrentSample[];
+}
+
+enum CurrentsView {
+  CURRENTS = 'CURRENTS',
+  CONDUCTANCES = 'CONDUCTANCES',
+  DRIVE = 'DRIVE',
+}
+
+const NA_COLOR = '#ff2a2a';
+const K_COLOR = '#9d00ff';
+const L_COLOR = '#00ff9d';
+const CH_COLOR = '#00f0ff';
+const EXT_COLOR = '#ffffff';
+
+// Na+, K+ and leak data keys of each view
+const SERIES: Record<CurrentsView, { na: keyof CurrentSample; k: keyof CurrentSample; l: keyof CurrentSample; unit: string }> = {
+  [CurrentsView.CURRENTS]: { na: 'I_Na', k: 'I_K', l: 'I_L', unit: 'µA/cm²' },
+  [CurrentsView.CONDUCTANCES]: { na: 'g_Na', k: 'g_K', l: 'g_L', unit: 'mS/cm²' },
+  [CurrentsView.DRIVE]: { na: 'drive_Na', k: 'drive_K', l: 'drive_L', unit: 'mV' },
+};
+
+const VIEW_LABELS: Record<CurrentsView, string> = {
+  [CurrentsView.CURRENTS]: 'I',
+  [CurrentsView.CONDUCTANCES]: 'g',
+  [CurrentsView.DRIVE]: 'V−E',
+};
+
+const axis = {
+  axisLine: false,
+  tickLine: false,
+  stroke: '#565869',
+  tick: { fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869' },
+  width: 30,
+  interval: 'preserveStartEnd' as const,
+};
+const legend = { wrapperStyle: { fontSize: '10px', fontFamily: 'Share Tech Mono', opacity: 0.8, paddingTop: '15px' }, iconType: 'rect' as const, iconSize: 8 };
+const toggle = (active: boolean) =>
+  `px-2 py-0.5 border font-mono text-[9px] uppercase tracking-widest ${active ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10' : 'border-white/10 text-cyber-muted hover:text-white hover:border-white/30'}`;
+
+const CurrentsPlot: React.FC<CurrentsPlotProps> = React.memo(({ data }) => {
+  const [view, setView] = useState(CurrentsView.CURRENTS);
+  const [stacked, setStacked] = useState(false);
+  const series = SERIES[view];
+  // Driving forces do not add up to anything, so they are never stacked
+  const showStacked = stacked && view !== CurrentsView.DRIVE;
+  // Library channels are recorded as one total current, so they appear in the current view only
+  const showChannels = view === CurrentsView.CURRENTS && data.some(sample => sample.I_ch !== 0);
+
+  // Share of the total (absolute) current or conductance carried by each ion
+  const stackedData = useMemo(() => showStacked
+    ? data.map(sample => ({
+        t: sample.t,
+        Na: Math.abs(sample[series.na]),
+        K: Math.abs(sample[series.k]),
+        L: Math.abs(sample[series.l]),
+        channels: showChannels ? Math.abs(sample.I_ch) : 0,
+      }))
+    : [], [data, series, showStacked, showChannels]);
+
+  return (
+    <div className="w-full h-full relative flex flex-col p-6 bg-cyber-panel/20">
+
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6 shrink-0 border-l-2 border-cyber-danger pl-3">
+             <h3 className="text-cyber-danger text-[10px] font-sans font-bold uppercase tracking-[0.2em]">
+                Ionic Currents
+            </h3>
+             <span className="font-mono text-[9px] text-cyber-muted">{showStacked ? 'fraction' : series.unit}</span>
+             <div className="ml-auto flex items-center gap-1">
+                {Object.values(CurrentsView).map(v => (
+                  <button key={v} type="button" onClick={() => setView(v)} className={toggle(view === v)}>
+                    {VIEW_LABELS[v]}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setStacked(!stacked)}
+                  disabled={view === CurrentsView.DRIVE}
+                  className={`${toggle(showStacked)} disabled:opacity-30`}
+                  title="Normalized stack: each ion's share of the total"
+                >
+                  Stack
+                </button>
+             </div>
+        </div>
+
+      <div className="flex-1 min-h-0 w-full relative">
+         {/* Decorative Brackets */}
+        <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-white/20"></div>
+        <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-white/20"></div>
+        <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-white/20"></div>
+        <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-white/20"></div>
+
+        <ResponsiveContainer width="100%" height="100%">
+          {showStacked ? (
+            <AreaChart data={stackedData} stackOffset="expand">
+              <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" vertical={false} opacity={0.3} />
+              <YAxis {...axis} tickFormatter={(v: number) => v.toFixed(1)} />
+              <Legend {...legend} />
+              <Area type="monotone" dataKey="Na" stackId="ions" stroke={NA_COLOR} fill={NA_COLOR} fillOpacity={0.5} isAnimationActive={false} name="Na+" />
+              <Area type="monotone" dataKey="K" stackId="ions" stroke={K_COLOR} fill={K_COLOR} fillOpacity={0.5} isAnimationActive={false} name="K+" />
+              <Area type="monotone" dataKey="L" stackId="ions" stroke={L_COLOR} fill={L_COLOR} fillOpacity={0.3} isAnimationActive={false} name="Leak" />
+              {showChannels && (
+                <Area type="monotone" dataKey="channels" stackId="ions" stroke={CH_COLOR} fill={CH_COLOR} fillOpacity={0.3} isAnimationActive={false} name="Library" />
+              )}
+            </AreaChart>
+          ) : (
+            <LineChart data={data}>
+              <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" vertical={false} opacity={0.3} />
+              <YAxis {...axis} tickFormatter={(v: number) => v.toFixed(0)} />
+              <Legend {...legend} />
+              <Line type="monotone" dataKey={series.na} stroke={NA_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} name={series.na} />
+              <Line type="monotone" dataKey={series.k} stroke={K_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} name={series.k} />
+              <Line type="monotone" dataKey={series.l} stroke={L_COLOR} strokeWidth={1} dot={false} isAnimationActive={false} name={series.l} />
+              {showChannels && (
+                <Line type="monotone" dataKey="I_ch" stroke={CH_COLOR} strokeWidth={1} dot={false} isAnimationActive={false} name="I_ch" />
+              )}
+              {view === CurrentsView.CURRENTS && (
+                <Line type="monotone" dataKey="I_ext" stroke={EXT_COLOR} strokeWidth={1} strokeDasharray="3 2" dot={false} isAnimationActive={false} name="I_ext" />
+              )}
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+});
+
+export default CurrentsPlot;
@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Legend, CartesianGrid, Tooltip } from 'recharts';
+import {
+  FitAlgorithm, FitCost, FitProgress, FitResult, FitSettings, HHParameters, MembraneConditions, ReferenceTrace, SolverSettings, StimulusProtocol,
+} from '../types';
+import { DEFAULT_FIT_SETTINGS, FITTABLE_PARAMETERS, FIT_ALGORITHM_LABELS, FIT_COST_LABELS } from '../services/parameterFit';
+import type { FitCommand, FitEvent } from '../services/fitWorker';
+
+interface FitPanelProps {
+  params: HHParameters;
+  solverSettings: SolverSettings;
+  stimulusProtocol: StimulusProtocol;
+  conditions: MembraneConditions;
+  reference: ReferenceTrace | null;
+  onReferenceFile: (file: File) => void;
+  onAccept: (params: Partial<HHParameters>) => void;
+}
+
+const MIN_PLOTTED_COST = 1e-6; // Keeps an exact fit on the log axis
+
+const axisTick = { fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869' };
+const fieldClass = 'bg-black border border-white/10 text-white font-mono text-[11px] py-1 px-1';
+const labelClass = 'flex flex-col gap-1 text-[9px] font-mono text-cyber-muted uppercase';
+
+const FitPanel: React.FC<FitPanelProps> = ({ params, solverSettings, stimulusProtocol, conditions, reference, onReferenceFile, onAccept }) => {
+  const [settings, setSettings] = useState<FitSettings>(DEFAULT_FIT_SETTINGS);
+  const [running, setRunning] = useState(false);
+  const [best, setBest] = useState<FitProgress | null>(null);
+  const [convergence, setConvergence] = useState<{ evaluations: number; cost: number }[]>([]);
+  const [result, setResult] = useState<FitResult | null>(null);
+  const [fitted, setFitted] = useState<(keyof HHParameters)[]>([]); // Free parameters of the latest run
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  useEffect(() => cancel, []);
+
+  const run = () => {
+    if (!reference) return;
+    cancel();
+    const worker = new Worker(new URL('../services/fitWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    setBest(null);
+    setConvergence([]);
+    setFitted(settings.parameters);
+
+    worker.onmessage = (e: MessageEvent<FitEvent>) => {
+      const event = e.data;
+      if (event.type === 'progress') {
+        const { progress } = event;
+        setBest(progress);
+        setConvergence(points => [...points, { evaluations: progress.evaluations, cost: Math.max(MIN_PLOTTED_COST, progress.cost) }]);
+        return;
+      }
+      if (event.type === 'done') {
+        setResult(event.result);
+        setBest(event.result);
+      } else {
+        setError(event.message);
+      }
+      cancel();
+    };
+
+    // Load failures and uncaught exceptions never reach onmessage
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      setError(e.message || 'Analysis worker failed');
+      cancel();
+    };
+
+    const command: FitCommand = { type: 'run', params, solver: solverSettings, stimulus: stimulusProtocol, target: reference, settings, conditions };
+    worker.postMessage(command);
+  };
+
+  const toggleParameter = (key: keyof HHParameters) => {
+    const parameters = settings.parameters.includes(key)
+      ? settings.parameters.filter(p => p !== key)
+      : [...settings.parameters, key];
+    setSettings({ ...settings, parameters });
+  };
+
+  const accept = () => {
+    if (!best) return;
+    onAccept(Object.fromEntries(fitted.map(key => [key, best.params[key]])));
+  };
+
+  return (
+    <div className="h-full flex flex-col p-6 gap-4 overflow-y-auto custom-scrollbar">
+      {/* Settings */}
+      <div className="flex flex-wrap items-end gap-4 shrink-0">
+        <div className={labelClass}>
+          Target
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="px-2 py-1 border border-white/10 text-cyber-muted hover:text-white hover:border-white/30 font-mono text-[10px] uppercase tracking-widest"
+            >
+              Load
+            </button>
+            <span className="font-mono text-[10px] normal-case text-white/70 max-w-[160px] truncate" title={reference?.name}>
+              {reference ? reference.name : 'No trace (CSV or ATF)'}
+            </span>
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,.atf"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onReferenceFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <label className={labelClass}>
+          Algorithm
+          <select
+            value={settings.algorithm}
+            onChange={e => setSettings({ ...settings, algorithm: e.target.value as FitAlgorithm })}
+            className={fieldClass}
+          >
+            {Object.values(FitAlgorithm).map(a => <option key={a} value={a}>{FIT_ALGORITHM_LABELS[a]}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Cost
+          <select
+            value={settings.cost}
+            onChange={e => setSettings({ ...settings, cost: e.target.value as FitCost })}
+            className={fieldClass}
+          >
+            {Object.values(FitCost).map(c => <option key={c} value={c}>{FIT_COST_LABELS[c]}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Evaluations
+          <input
+            type="number"
+            step={50}
+            min={10}
+            value={settings.maxEvaluations}
+            onChange={e => {
+              const value = parseInt(e.target.value, 10);
+              if (Number.isFinite(value) && value > 0) setSettings({ ...settings, maxEvaluations: value });
+            }}
+            className={`w-20 text-right ${fieldClass}`}
+          />
+        </label>
+        {settings.algorithm === FitAlgorithm.EVOLUTION && (
+          <label className={labelClass}>
+            Seed
+            <input
+              type="number"
+              step={1}
+              value={settings.seed}
+              onChange={e => {
+                const value = parseInt(e.target.value, 10);
+                if (Number.isFinite(value)) setSettings({ ...settings, seed: value });
+              }}
+              className={`w-16 text-right ${fieldClass}`}
+            />
+          </label>
+        )}
+        <button
+          type="button"
+          onClick={running ? cancel : run}
+          disabled={!running && (!reference || settings.parameters.length === 0)}
+          className={`px-6 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase disabled:opacity-30 ${
+            running
+              ? 'border-cyber-danger text-cyber-danger hover:bg-cyber-danger/10'
+              : 'border-cyber-neon text-cyber-neon hover:bg-cyber-neon/10'
+          }`}
+        >
+          {running ? 'Cancel' : 'Run Fit'}
+        </button>
+        {running && (
+          <div className="flex-1 min-w-[120px] h-1 bg-cyber-dark overflow-hidden self-center">
+            <div className="h-full bg-cyber-neon" style={{ width: `${((best?.evaluations ?? 0) / settings.maxEvaluations) * 100}%` }}></div>
+          </div>
+        )}
+      </div>
+
+      {/* Free parameters */}
+      <div className="flex flex-wrap gap-x-4 gap-y-2 shrink-0">
+        {FITTABLE_PARAMETERS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-[10px] font-mono text-white/70 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.parameters.includes(key)}
+              onChange={() => toggleParameter(key)}
+              className="accent-cyber-neon"
+            />
+            {label}
+            <span className="text-cyber-muted">{params[key].toFixed(2)}</span>
+            {best && fitted.includes(key) && (
+              <span className="text-cyber-neon">→ {best.params[key].toFixed(2)}</span>
+            )}
+          </label>
+        ))}
+      </div>
+
+      {error && <div className="text-[10px] font-mono text-cyber-danger">{error}</div>}
+
+      {best && (
+        <div className="flex items-center gap-6 shrink-0 text-[10px] font-mono">
+          <span className="text-cyber-muted">EVALS <span className="text-white">{best.evaluations}</span></span>
+          <span className="text-cyber-muted">BEST COST <span className="text-white">{best.cost.toPrecision(4)}</span></span>
+          <button
+            type="button"
+            onClick={accept}
+            className="ml-auto px-4 py-1 border border-cyber-neon text-cyber-neon hover:bg-cyber-neon/10 font-bold tracking-widest uppercase"
+          >
+            Accept Parameters
+          </button>
+        </div>
+      )}
+
+      {/* Convergence and fitted trace */}
+      <div className="flex-1 min-h-[240px] grid grid-cols-1 md:grid-cols-2 gap-4">
+        {convergence.length ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={convergence} margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+              <XAxis
+                dataKey="evaluations"
+                type="number"
+                domain={[0, 'dataMax']}
+                stroke="#565869"
+                tick={axisTick}
+                label={{ value: 'Evaluations', position: 'insideBottom', offset: -10, fill: '#565869', fontSize: 10 }}
+              />
+              <YAxis scale="log" domain={['auto', 'auto']} allowDataOverflow stroke="#565869" tick={axisTick} width={50}
+                tickFormatter={(v: number) => v.toExponential(0)} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#05060a', border: '1px solid #1f2233', color: '#fff', fontSize: '10px' }}
+                formatter={(v: number) => v.toPrecision(4)}
+                labelFormatter={(v: number) => `${v} evaluations`}
+                isAnimationActive={false}
+              />
+              <Line type="stepAfter" dataKey="cost" stroke="#00f0ff" strokeWidth={1.5} dot={false} isAnimationActive={false} name="Best cost" />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-[10px] font-mono text-cyber-muted uppercase tracking-widest text-center">
+            Load a target trace, pick the free parameters and run the fit
+          </div>
+        )}
+        {result && (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={result.trace} margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+              <XAxis
+                dataKey="t"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="#565869"
+                tick={axisTick}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                label={{ value: 'ms', position: 'insideBottom', offset: -10, fill: '#565869', fontSize: 10 }}
+              />
+              <YAxis domain={[-90, 60]} stroke="#565869" tick={axisTick} width={30} />
+              <Legend wrapperStyle={{ fontSize: '10px', fontFamily: 'Share Tech Mono', opacity: 0.8 }} iconType="rect" iconSize={8} verticalAlign="top" />
+              <Line type="monotone" dataKey="target" stroke="#ffd000" strokeWidth={1.5} dot={false} isAnimationActive={false} name="Target" />
+              <Line type="monotone" dataKey="fit" stroke="#00f0ff" strokeWidth={1} dot={false} isAnimationActive={false} name="Fit" />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FitPanel;
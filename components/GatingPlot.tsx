@@ -1,12 +1,34 @@
-import React from 'react';
-import { LineChart, Line, YAxis, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
-import { HHState } from '../types';
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
+import { HHState, StoredSweep } from '../types';
+import { ScopeWindow } from '../services/scope';
+import { sweepStyle, placeSweep } from '../services/sweepOverlay';
 
 interface GatingPlotProps {
   data: HHState[];
+  // Sweep mode: `data` is the oscilloscope screen and the stored sweeps are overlaid at its stimulus onset
+  screen?: ScopeWindow | null;
+  sweeps?: StoredSweep[];
+  average?: HHState[] | null;
 }
 
-const GatingPlot: React.FC<GatingPlotProps> = React.memo(({ data }) => {
+const GATES = [
+  { key: 'm', color: '#ff2a2a' },
+  { key: 'h', color: '#00ff9d' },
+  { key: 'n', color: '#9d00ff' },
+] as const;
+
+const GatingPlot: React.FC<GatingPlotProps> = React.memo(({ data, screen, sweeps, average }) => {
+  const origin = screen?.trigger ?? null;
+  const placedSweeps = useMemo(
+    () => (sweeps && origin !== null ? sweeps.map(sweep => placeSweep(sweep.data, origin)) : []),
+    [sweeps, origin]
+  );
+  const placedAverage = useMemo(
+    () => (average && origin !== null ? placeSweep(average, origin) : null),
+    [average, origin]
+  );
+
   return (
     <div className="w-full h-full relative flex flex-col p-6 bg-cyber-panel/20">
         
@@ -27,6 +49,7 @@ const GatingPlot: React.FC<GatingPlotProps> = React.memo(({ data }) => {
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={data}>
             <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" vertical={false} opacity={0.3} />
+            {screen && <XAxis dataKey="t" type="number" domain={[screen.start, screen.end]} allowDataOverflow hide />}
             <YAxis 
                 domain={[0, 1]} 
                 hide={false} 
@@ -43,6 +66,18 @@ const GatingPlot: React.FC<GatingPlotProps> = React.memo(({ data }) => {
                 iconSize={8}
             />
             
+            {/* Overlays stay out of the legend so it keeps describing the gates */}
+            {placedSweeps.map((sweepData, i) => {
+              const { color, opacity } = sweepStyle(sweeps![i], i, sweeps!.length);
+              return GATES.map(gate => (
+                <Line key={`${sweeps![i].id}-${gate.key}`} data={sweepData} type="monotone" dataKey={gate.key} stroke={color}
+                  strokeOpacity={opacity * 0.6} strokeWidth={1} dot={false} isAnimationActive={false} legendType="none" />
+              ));
+            })}
+            {placedAverage && GATES.map(gate => (
+              <Line key={`mean-${gate.key}`} data={placedAverage} type="monotone" dataKey={gate.key} stroke="#ffffff"
+                strokeWidth={1} strokeDasharray="3 2" dot={false} isAnimationActive={false} legendType="none" />
+            ))}
             <Line type="monotone" dataKey="m" stroke="#ff2a2a" strokeWidth={1.5} dot={false} isAnimationActive={false} name="m (Na act)" />
             <Line type="monotone" dataKey="h" stroke="#00ff9d" strokeWidth={1.5} dot={false} isAnimationActive={false} name="h (Na inact)" />
             <Line type="monotone" dataKey="n" stroke="#9d00ff" strokeWidth={1.5} dot={false} isAnimationActive={false} name="n (K act)" />
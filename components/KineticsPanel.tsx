@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, CartesianGrid, Tooltip } from 'recharts';
+import { RateExpressions, RateName } from '../types';
+import { HH_RATES } from '../services/hhSolver';
+import { CompileResult, EXPRESSION_FUNCTIONS } from '../services/expression';
+import { BUILT_IN_EXPRESSIONS, GATE_RATES, checkRatePair, compileRate, gateCurve } from '../services/rateExpressions';
+
+interface KineticsPanelProps {
+  rates: RateExpressions; // Expressions the simulation is running with
+  temperature: number;    // °C, for the time constants
+  onRatesChange: (rates: RateExpressions) => void;
+}
+
+const CURVE_POINTS = 151;
+
+const RATE_LABELS: Record<RateName, string> = {
+  alpha_m: 'αm', beta_m: 'βm', alpha_h: 'αh', beta_h: 'βh', alpha_n: 'αn', beta_n: 'βn',
+};
+
+const axisTick = { fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869' };
+const smallButton = 'px-2 py-0.5 border font-mono text-[9px] uppercase tracking-widest disabled:opacity-30';
+const toggle = (active: boolean) =>
+  `${smallButton} ${active ? 'border-cyber-neon text-cyber-neon bg-cyber-neon/10' : 'border-white/10 text-cyber-muted hover:text-white hover:border-white/30'}`;
+
+const finiteOrNull = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+const KineticsPanel: React.FC<KineticsPanelProps> = ({ rates, temperature, onRatesChange }) => {
+  // Text being edited; only expressions that compile reach the simulation
+  const [drafts, setDrafts] = useState<RateExpressions>(rates);
+  const [previewGate, setPreviewGate] = useState(GATE_RATES[0].gate);
+  const appliedRef = useRef(rates);
+
+  // Rates replaced from outside (e.g. a loaded session) discard the drafts
+  useEffect(() => {
+    if (rates === appliedRef.current) return;
+    appliedRef.current = rates;
+    setDrafts(rates);
+  }, [rates]);
+
+  const results = useMemo(() => {
+    const compiled: Partial<Record<RateName, CompileResult>> = {};
+    (Object.keys(drafts) as RateName[]).forEach(name => {
+      const text = drafts[name];
+      if (text?.trim()) compiled[name] = compileRate(text);
+    });
+    return compiled;
+  }, [drafts]);
+
+  // Each gate's drafted pair, with the built-in rate standing in for a missing or invalid one
+  const pairErrors = useMemo(() => Object.fromEntries(GATE_RATES.map(({ gate, alpha, beta }) => [
+    gate,
+    checkRatePair(results[alpha]?.evaluate ?? HH_RATES[alpha], results[beta]?.evaluate ?? HH_RATES[beta]),
+  ])), [results]);
+
+  const edit = (name: RateName, text: string) => {
+    setDrafts({ ...drafts, [name]: text });
+    const { [name]: _previous, ...others } = rates;
+    let next: RateExpressions;
+    if (!text.trim()) next = others;
+    else if (!compileRate(text).error) next = { ...others, [name]: text };
+    else return;
+    // Only a pair that still gives the gate a steady state reaches the simulation.
+    // A valid partner draft held back by an earlier pair check goes in with this edit.
+    const { alpha, beta } = GATE_RATES.find(g => g.alpha === name || g.beta === name) ?? GATE_RATES[0];
+    const partner = name === alpha ? beta : alpha;
+    const draft = drafts[partner]?.trim() ? drafts[partner]! : undefined;
+    const pending = draft !== rates[partner] && (rates[partner] !== undefined || draft !== BUILT_IN_EXPRESSIONS[partner]);
+    if (pending && (draft === undefined || !compileRate(draft).error)) {
+      const { [partner]: _held, ...rest } = next;
+      next = draft === undefined ? rest : { ...rest, [partner]: draft };
+    }
+    const rate = (key: RateName) => (next[key] !== undefined ? compileRate(next[key]!).evaluate : null) ?? HH_RATES[key];
+    if (checkRatePair(rate(alpha), rate(beta))) return;
+    appliedRef.current = next;
+    onRatesChange(next);
+  };
+
+  const restoreAll = () => {
+    setDrafts({});
+    appliedRef.current = {};
+    onRatesChange({});
+  };
+
+  // Valid drafts of the previewed gate against the built-in kinetics
+  const preview = GATE_RATES.find(g => g.gate === previewGate) ?? GATE_RATES[0];
+  const curve = useMemo(() => {
+    const alpha = results[preview.alpha]?.evaluate ?? HH_RATES[preview.alpha];
+    const beta = results[preview.beta]?.evaluate ?? HH_RATES[preview.beta];
+    const builtIn = gateCurve(HH_RATES[preview.alpha], HH_RATES[preview.beta], temperature, CURVE_POINTS);
+    return gateCurve(alpha, beta, temperature, CURVE_POINTS).map((point, i) => ({
+      V: point.V,
+      inf: finiteOrNull(point.inf),
+      tau: finiteOrNull(point.tau),
+      infBuiltIn: builtIn[i].inf,
+      tauBuiltIn: builtIn[i].tau,
+    }));
+  }, [results, preview, temperature]);
+  const customized = Object.keys(rates).length;
+
+  return (
+    <div className="h-full flex flex-col p-6 gap-4 overflow-y-auto custom-scrollbar">
+      <div className="flex flex-wrap items-center gap-4 shrink-0 text-[10px] font-mono text-cyber-muted">
+        <span>
+          RATES IN <span className="text-white">V</span> (mV) · 1/ms at 6.3 °C · FUNCTIONS{' '}
+          <span className="text-white/70">{EXPRESSION_FUNCTIONS.join(' ')}</span>
+        </span>
+        <span className="ml-auto">
+          {customized ? <span className="text-cyber-neon">{customized} CUSTOM</span> : 'BUILT-IN KINETICS'}
+        </span>
+        <button
+          type="button"
+          onClick={restoreAll}
+          disabled={!customized && !Object.keys(drafts).length}
+          className={`${smallButton} border-white/10 text-cyber-muted hover:text-white hover:border-white/30`}
+        >
+          Restore all
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-[260px] grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {/* Expressions */}
+        <div className="space-y-4">
+          {GATE_RATES.map(({ gate, label, alpha, beta }) => (
+            <div key={gate} className="space-y-2">
+              <div className="flex items-center gap-2 text-[9px] font-mono text-cyber-muted uppercase">
+                <span className="text-white text-xs normal-case">{gate}</span>
+                {label}
+              </div>
+              {pairErrors[gate] && (
+                <div className="pl-4 font-mono text-[10px] text-cyber-danger">
+                  {pairErrors[gate]}
+                  {(rates[alpha] !== undefined || rates[beta] !== undefined) && (
+                    <span className="text-cyber-muted"> · still running the last valid pair</span>
+                  )}
+                </div>
+              )}
+              {[alpha, beta].map(name => {
+                const text = drafts[name] ?? '';
+                const error = results[name]?.error ?? null;
+                const active = rates[name] !== undefined;
+                return (
+                  <div key={name} className="pl-4">
+                    <div className="flex items-center gap-2">
+                      <span className={`w-6 font-mono text-[10px] ${active ? 'text-cyber-neon' : 'text-cyber-muted'}`}>{RATE_LABELS[name]}</span>
+                      <input
+                        value={text}
+                        placeholder={BUILT_IN_EXPRESSIONS[name]}
+                        spellCheck={false}
+                        onChange={e => edit(name, e.target.value)}
+                        className={`flex-1 min-w-0 bg-black border font-mono text-[11px] py-0.5 px-1 text-white placeholder:text-white/20 ${
+                          error ? 'border-cyber-danger' : active ? 'border-cyber-neon/40' : 'border-white/10'
+                        }`}
+                      />
+                      {text ? (
+                        <button
+                          type="button"
+                          onClick={() => edit(name, '')}
+                          className={`${smallButton} border-white/10 text-cyber-muted hover:text-white hover:border-white/30`}
+                          title="Back to the built-in rate"
+                        >
+                          Built-in
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setDrafts({ ...drafts, [name]: BUILT_IN_EXPRESSIONS[name] })}
+                          className={`${smallButton} border-white/10 text-cyber-muted hover:text-white hover:border-white/30`}
+                          title="Start from the built-in expression"
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </div>
+                    {error && (
+                      <div className="pl-8 font-mono text-[10px] text-cyber-danger">
+                        {error.position !== null && <div className="whitespace-pre px-[5px] text-[11px] leading-none">{' '.repeat(error.position)}^</div>}
+                        {error.message}
+                        {error.position !== null && ` (column ${error.position + 1})`}
+                        {active && <span className="text-cyber-muted"> · still running the last valid expression</span>}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {/* Steady state and time constant of one gate */}
+        <div className="flex flex-col min-h-[260px] gap-2">
+          <div className="flex items-center gap-1 text-[9px] font-mono text-cyber-muted uppercase">
+            Preview
+            {GATE_RATES.map(({ gate }) => (
+              <button key={gate} type="button" onClick={() => setPreviewGate(gate)} className={toggle(previewGate === gate)}>
+                {gate}
+              </button>
+            ))}
+            <span className="ml-auto">
+              <span className="text-cyber-neon">—</span> current · <span className="text-cyber-muted">- -</span> built-in · τ at {temperature.toFixed(1)} °C
+            </span>
+          </div>
+          {(['inf', 'tau'] as const).map(key => (
+            <div key={key} className="flex-1 min-h-[110px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={curve} margin={{ top: 5, right: 10, bottom: key === 'tau' ? 15 : 0, left: 0 }}>
+                  <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+                  <XAxis
+                    dataKey="V"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    stroke="#565869"
+                    tick={key === 'tau' ? axisTick : false}
+                    height={key === 'tau' ? 20 : 5}
+                    label={key === 'tau' ? { value: 'V (mV)', position: 'insideBottom', offset: -10, fill: '#565869', fontSize: 10 } : undefined}
+                  />
+                  <YAxis
+                    domain={key === 'inf' ? [0, 1] : [0, 'auto']}
+                    stroke="#565869"
+                    tick={axisTick}
+                    width={35}
+                    label={{ value: key === 'inf' ? `${previewGate}∞` : `τ${previewGate} ms`, angle: -90, position: 'insideLeft', fill: '#565869', fontSize: 10 }}
+                  />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#05060a', border: '1px solid #1f2233', color: '#fff', fontSize: '10px' }}
+                    formatter={(v: number) => v.toFixed(key === 'inf' ? 3 : 2)}
+                    labelFormatter={(v: number) => `${v.toFixed(1)} mV`}
+                    isAnimationActive={false}
+                  />
+                  <Line type="monotone" dataKey={`${key}BuiltIn`} stroke="#565869" strokeDasharray="3 2" strokeWidth={1} dot={false} isAnimationActive={false} name="Built-in" />
+                  <Line type="monotone" dataKey={key} stroke="#00f0ff" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls={false} name="Current" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KineticsPanel;
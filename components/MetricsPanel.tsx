@@ -0,0 +1,74 @@
+import React from 'react';
+import { SpikeDetectionMethod, SpikeMetrics } from '../types';
+
+interface MetricsPanelProps {
+  metrics: SpikeMetrics | null;
+  rheobase: number | null;
+  method: SpikeDetectionMethod;
+  onMethodChange: (method: SpikeDetectionMethod) => void;
+}
+
+const format = (value: number | null | undefined, digits: number, unit: string): string =>
+  value === null || value === undefined || !Number.isFinite(value) ? '--' : `${value.toFixed(digits)} ${unit}`;
+
+const MetricsPanel: React.FC<MetricsPanelProps> = React.memo(({ metrics, rheobase, method, onMethodChange }) => {
+  const readouts: { label: string; value: string }[] = [
+    { label: 'Spikes', value: metrics ? `${metrics.spikes.length}` : '--' },
+    { label: 'Rate', value: format(metrics?.firingRate, 1, 'Hz') },
+    { label: 'ISI', value: metrics && Number.isFinite(metrics.isiMean) ? `${metrics.isiMean.toFixed(1)}±${Number.isFinite(metrics.isiSD) ? metrics.isiSD.toFixed(1) : '0'} ms` : '--' },
+    { label: 'ISI CV', value: format(metrics?.isiCV, 2, '') },
+    { label: 'Amplitude', value: format(metrics?.meanAmplitude, 1, 'mV') },
+    { label: 'Half-Width', value: format(metrics?.meanHalfWidth, 2, 'ms') },
+    { label: 'AHP Depth', value: format(metrics?.meanAhpDepth, 1, 'mV') },
+    { label: 'Max dV/dt', value: metrics && metrics.spikes.length ? format(metrics.maxDvdt, 0, 'mV/ms') : '--' },
+    { label: 'Threshold', value: format(metrics?.meanThreshold, 1, 'mV') },
+    { label: 'Rheobase', value: format(rheobase, 2, 'µA') },
+  ];
+
+  return (
+    <div className="w-full relative flex flex-col px-6 py-4 bg-cyber-panel/20">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-3 shrink-0">
+            <div className="flex items-center gap-3 border-l-2 border-cyber-danger pl-3">
+                <h3 className="text-cyber-danger text-[10px] font-sans font-bold uppercase tracking-[0.2em]">
+                    Spike Metrics
+                </h3>
+                {metrics && (
+                    <span className="text-[9px] font-mono text-cyber-muted">{(metrics.window / 1000).toFixed(1)} s window</span>
+                )}
+            </div>
+            <div className="flex gap-1">
+                {[
+                    { value: SpikeDetectionMethod.THRESHOLD, label: 'V>0' },
+                    { value: SpikeDetectionMethod.DERIVATIVE, label: 'dV/dt' },
+                ].map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => onMethodChange(option.value)}
+                        className={`px-2 py-0.5 border font-mono text-[9px] uppercase ${
+                            method === option.value
+                                ? 'border-cyber-danger text-cyber-danger'
+                                : 'border-white/10 text-cyber-muted hover:text-white'
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+
+        <div className="grid grid-cols-5 gap-x-3 gap-y-2">
+            {readouts.map(({ label, value }) => (
+                <div key={label} className="flex flex-col">
+                    <span className="text-[8px] font-mono text-cyber-muted uppercase tracking-widest">{label}</span>
+                    <span className="text-[11px] font-mono text-white/80 whitespace-nowrap">{value}</span>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+});
+
+export default MetricsPanel;
@@ -0,0 +1,82 @@
+import React, { useRef } from 'react';
+import { Morphology, NeuriteType } from '../types';
+import { NEURITE_COLORS, NEURITE_LABELS } from '../services/morphology';
+
+interface MorphologyLoaderProps {
+  morphology: Morphology;
+  seed: number;
+  error: string | null;
+  onFile: (file: File) => void;
+  onProcedural: (seed: number) => void;
+}
+
+const hex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const MorphologyLoader: React.FC<MorphologyLoaderProps> = ({ morphology, seed, error, onFile, onProcedural }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const types = Array.from(new Set(morphology.segments.map(segment => segment.type))).sort() as NeuriteType[];
+
+  return (
+    <div className="bg-cyber-panel/60 backdrop-blur border border-white/10 p-3 w-56 space-y-2 font-mono text-[9px]">
+      <div className="flex justify-between items-center">
+        <span className="text-cyber-muted uppercase tracking-widest">Morphology</span>
+        <span className="text-white/40">{morphology.segments.length} seg</span>
+      </div>
+      <div className="text-white/80 text-[10px] truncate" title={morphology.name}>{morphology.name}</div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {types.map(type => (
+          <span key={type} className="flex items-center gap-1 text-white/60">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: hex(NEURITE_COLORS[type]) }}></span>
+            {NEURITE_LABELS[type]}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex-1 py-1 border border-white/10 text-cyber-muted hover:text-white hover:border-white/30 uppercase tracking-widest"
+        >
+          Load SWC
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".swc,.txt"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+        />
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={seed}
+          onChange={e => {
+            const value = parseInt(e.target.value, 10);
+            if (Number.isFinite(value)) onProcedural(value);
+          }}
+          title="Procedural tree seed"
+          className="w-12 bg-black border border-white/10 text-white text-right px-1"
+        />
+        <button
+          type="button"
+          onClick={() => onProcedural(seed)}
+          className="px-2 py-1 border border-white/10 text-cyber-muted hover:text-white hover:border-white/30 uppercase"
+          title="Procedural tree"
+        >
+          Gen
+        </button>
+      </div>
+      <div className="text-white/30">or drop an .swc file on the view</div>
+      {error && <div className="text-cyber-danger">{error}</div>}
+    </div>
+  );
+};
+
+export default MorphologyLoader;
@@ -1,14 +1,169 @@
 import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
-import { HHState, HHParameters } from '../types';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { HHState, HHParameters, Morphology, Vec3, CameraMode, ElectrodeKind, ElectrodeSite, NeuriteType } from '../types';
+import { NEURITE_COLORS, NEURITE_LABELS } from '../services/morphology';
+import { compartmentAt } from '../services/cableSolver';
 
 interface NeuronSceneProps {
   state: HHState;
+  compartments: Float32Array | null; // Voltage of each cable compartment, null for a point neuron
   simulationParams: HHParameters;
+  morphology: Morphology;
+  cameraMode: CameraMode;
+  electrodes: Partial<Record<ElectrodeKind, ElectrodeSite>>;
+  onPick: (site: ElectrodeSite) => void;
 }
 
-const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) => {
+// Any cell is scaled to fit a sphere of this radius (scene units) around the origin
+const SCENE_RADIUS = 5;
+const TUBE_SIDES = 6;
+const MIN_TUBE_RADIUS = 0.012; // Keeps thin neurites visible once scaled down
+const MIN_SOMA_RADIUS = 0.15;
+const CLICK_TOLERANCE = 5;   // px a pointer may move and still count as a click
+const PICK_TOLERANCE = 0.02; // Pick radius around the ray per unit of distance from the camera
+
+const ELECTRODE_STYLES: Record<ElectrodeKind, { label: string; color: number }> = {
+  [ElectrodeKind.RECORD]: { label: 'REC', color: 0x00f0ff },
+  [ElectrodeKind.STIMULUS]: { label: 'STIM', color: 0xff2a2a },
+};
+
+interface SceneTransform {
+  center: Vec3;
+  scale: number;
+}
+
+const sceneTransform = ({ bounds: { min, max } }: Morphology): SceneTransform => ({
+  center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+  scale: SCENE_RADIUS / (Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2 || 1),
+});
+
+const toScene = (p: Vec3, { center, scale }: SceneTransform) =>
+  new THREE.Vector3((p[0] - center[0]) * scale, (p[1] - center[1]) * scale, (p[2] - center[2]) * scale);
+
+// One open tube per segment, tapering between the SWC radii. Each vertex keeps
+// its path distance from the soma, which maps it onto a cable compartment
+// (compartment 0 at the soma).
+const buildNeuriteGeometry = (morphology: Morphology, transform: SceneTransform) => {
+  const count = morphology.segments.length;
+  const vertexCount = count * 2 * TUBE_SIDES;
+  const positions = new Float32Array(vertexCount * 3);
+  const colors = new Float32Array(vertexCount * 3);
+  const pathDistances = new Float32Array(vertexCount);
+  const indices: number[] = [];
+  const segments: [THREE.Vector3, THREE.Vector3][] = [];
+
+  const axis = new THREE.Vector3();
+  const u = new THREE.Vector3();
+  const v = new THREE.Vector3();
+  const color = new THREE.Color();
+
+  morphology.segments.forEach((segment, s) => {
+    const start = toScene(segment.start, transform);
+    const end = toScene(segment.end, transform);
+    segments.push([start, end]);
+
+    axis.subVectors(end, start);
+    if (axis.lengthSq() === 0) axis.set(0, 1, 0);
+    axis.normalize();
+    // Any direction not parallel to the axis spans the ring plane
+    u.set(Math.abs(axis.x) < 0.9 ? 1 : 0, Math.abs(axis.x) < 0.9 ? 0 : 1, 0).cross(axis).normalize();
+    v.crossVectors(axis, u);
+    color.setHex(NEURITE_COLORS[segment.type]);
+
+    const rings: [THREE.Vector3, number, number][] = [
+      [start, segment.startRadius, segment.startDistance],
+      [end, segment.endRadius, segment.endDistance],
+    ];
+    rings.forEach(([centre, radius, distance], ring) => {
+      const r = Math.max(MIN_TUBE_RADIUS, radius * transform.scale);
+      for (let k = 0; k < TUBE_SIDES; k++) {
+        const angle = (k / TUBE_SIDES) * Math.PI * 2;
+        const vertex = (s * 2 + ring) * TUBE_SIDES + k;
+        const cos = Math.cos(angle) * r, sin = Math.sin(angle) * r;
+        positions[vertex * 3] = centre.x + u.x * cos + v.x * sin;
+        positions[vertex * 3 + 1] = centre.y + u.y * cos + v.y * sin;
+        positions[vertex * 3 + 2] = centre.z + u.z * cos + v.z * sin;
+        colors[vertex * 3] = color.r;
+        colors[vertex * 3 + 1] = color.g;
+        colors[vertex * 3 + 2] = color.b;
+        pathDistances[vertex] = distance;
+      }
+    });
+
+    const base = s * 2 * TUBE_SIDES;
+    for (let k = 0; k < TUBE_SIDES; k++) {
+      const a = base + k, b = base + ((k + 1) % TUBE_SIDES);
+      indices.push(a, b, a + TUBE_SIDES, b, b + TUBE_SIDES, a + TUBE_SIDES);
+    }
+  });
+
+  const voltage = new THREE.Float32BufferAttribute(new Float32Array(vertexCount).fill(-65), 1);
+  voltage.setUsage(THREE.DynamicDrawUsage);
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('neuriteColor', new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setAttribute('voltage', voltage);
+  geometry.setIndex(indices);
+
+  return { geometry, voltage, pathDistances, segments };
+};
+
+// --- ION FLUX PARTICLE SYSTEM WITH TRAILS ---
+const PARTICLE_COUNT = 1500; 
+const TRAIL_LENGTH = 12; 
+
+const buildIonGeometry = (segments: [THREE.Vector3, THREE.Vector3][]) => {
+    const ionGeo = new THREE.BufferGeometry();
+    const ionPos: number[] = [];
+    const ionDir: number[] = [];
+    const ionType: number[] = []; // 0 = Na, 1 = K
+    const ionRandom: number[] = [];
+    const ionTrailIdx: number[] = []; // 0.0 (head) -> 1.0 (tail)
+
+    // Sample points along the neuron segments
+    for(let i=0; i<PARTICLE_COUNT; i++) {
+        // Pick a random segment
+        const [p1, p2] = segments[Math.floor(Math.random() * segments.length)];
+        
+        const t = Math.random();
+        const pos = new THREE.Vector3().lerpVectors(p1, p2, t);
+        
+        // Random direction (approx normal)
+        const dir = new THREE.Vector3(Math.random()-0.5, Math.random()-0.5, Math.random()-0.5).normalize();
+
+        const type = Math.random() > 0.5 ? 1 : 0;
+        const rnd = Math.random();
+
+        // Create trail vertices for this single particle
+        for (let j = 0; j < TRAIL_LENGTH; j++) {
+            ionPos.push(pos.x, pos.y, pos.z);
+            ionDir.push(dir.x, dir.y, dir.z);
+            ionType.push(type);
+            ionRandom.push(rnd);
+            // Normalized index: 0 is head, 1 is tail
+            ionTrailIdx.push(j / (TRAIL_LENGTH - 1));
+        }
+    }
+
+    ionGeo.setAttribute('position', new THREE.Float32BufferAttribute(ionPos, 3));
+    ionGeo.setAttribute('direction', new THREE.Float32BufferAttribute(ionDir, 3));
+    ionGeo.setAttribute('ionType', new THREE.Float32BufferAttribute(ionType, 1));
+    ionGeo.setAttribute('random', new THREE.Float32BufferAttribute(ionRandom, 1));
+    ionGeo.setAttribute('trailIdx', new THREE.Float32BufferAttribute(ionTrailIdx, 1));
+    return ionGeo;
+};
+
+// Camera distance at which the cell's extent fits the view from any orbit angle
+const fitDistance = (halfWidth: number, halfHeight: number, camera: THREE.PerspectiveCamera): number => {
+  const tan = Math.tan(THREE.MathUtils.degToRad(camera.fov / 2));
+  return Math.max(halfHeight / tan, halfWidth / (tan * camera.aspect)) + halfWidth;
+};
+
+const NeuronScene: React.FC<NeuronSceneProps> = ({ state, compartments, simulationParams, morphology, cameraMode, electrodes, onPick }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const hudRefs = useRef<Record<ElectrodeKind, HTMLDivElement | null>>({ [ElectrodeKind.RECORD]: null, [ElectrodeKind.STIMULUS]: null });
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -20,12 +175,22 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
   
   // Ref to store state for the animation loop to access latest value without re-binding
   const stateRef = useRef(state);
+  const compartmentsRef = useRef(compartments);
   const paramsRef = useRef(simulationParams);
+  const morphologyRef = useRef(morphology);
+  const cameraModeRef = useRef(cameraMode);
+  const electrodesRef = useRef(electrodes);
+  const onPickRef = useRef(onPick);
 
   useEffect(() => {
     stateRef.current = state;
+    compartmentsRef.current = compartments;
     paramsRef.current = simulationParams;
-  }, [state, simulationParams]);
+    morphologyRef.current = morphology;
+    cameraModeRef.current = cameraMode;
+    electrodesRef.current = electrodes;
+    onPickRef.current = onPick;
+  }, [state, compartments, simulationParams, morphology, cameraMode, electrodes, onPick]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -47,89 +212,52 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
     containerRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
-    // --- Create Neuron Geometry (Fractal) ---
-    const createBranch = (start: THREE.Vector3, direction: THREE.Vector3, length: number, radius: number, depth: number, positions: number[]) => {
-      if (depth === 0) return;
-
-      const end = new THREE.Vector3().copy(start).add(direction.clone().multiplyScalar(length));
-      
-      positions.push(start.x, start.y, start.z);
-      positions.push(end.x, end.y, end.z);
-      
-      // Branch out
-      const numBranches = 2;
-      for (let i = 0; i < numBranches; i++) {
-        const spread = 0.8;
-        const newDir = direction.clone().applyEuler(new THREE.Euler(
-          (Math.random() - 0.5) * spread,
-          (Math.random() - 0.5) * spread,
-          (Math.random() - 0.5) * spread
-        )).normalize();
-        
-        createBranch(end, newDir, length * 0.7, radius * 0.6, depth - 1, positions);
-      }
-    };
-
-    const neuronPositions: number[] = [];
-    
-    // Create multiple main dendrites
-    const roots = 6;
-    for (let i = 0; i < roots; i++) {
-        const dir = new THREE.Vector3(Math.random()-0.5, Math.random()-0.5, Math.random()-0.5).normalize();
-        createBranch(new THREE.Vector3(0,0,0), dir, 2.5, 0.1, 5, neuronPositions);
-    }
-    
-    const neuronGeometry = new THREE.BufferGeometry();
-    neuronGeometry.setAttribute('position', new THREE.Float32BufferAttribute(neuronPositions, 3));
+    // Free camera: orbit / pan / zoom, only active outside the cinematic orbit
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.enabled = false;
 
     // --- Neuron Shader Material ---
     const neuronShaderMaterial = new THREE.ShaderMaterial({
       uniforms: {
         time: { value: 0 },
-        voltage: { value: -65 },
         // Updated colors to be much brighter/neon for visibility
-        colorRest: { value: new THREE.Color(0x0066ff) }, // Bright Electric Blue
+        // (resting color comes from the neurite type)
         colorActive: { value: new THREE.Color(0xff00ff) }, // Neon Magenta
         colorPeak: { value: new THREE.Color(0xffffff) }, // White
       },
       vertexShader: `
-        varying vec3 vPos;
+        attribute float voltage;
+        attribute vec3 neuriteColor;
+        varying float vVoltage;
+        varying vec3 vColorRest;
         void main() {
-          vPos = position;
+          vVoltage = voltage;
+          vColorRest = neuriteColor;
           gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
         }
       `,
       fragmentShader: `
-        uniform float voltage;
-        uniform vec3 colorRest;
         uniform vec3 colorActive;
         uniform vec3 colorPeak;
         uniform float time;
-        varying vec3 vPos;
+        varying float vVoltage;
+        varying vec3 vColorRest;
         
         void main() {
           // Normalize voltage: -90mV to +50mV
-          float normV = smoothstep(-90.0, 50.0, voltage);
+          float normV = smoothstep(-90.0, 50.0, vVoltage);
           
           // Color Interpolation
           // Mix faster to active color to show change early
-          vec3 color = mix(colorRest, colorActive, smoothstep(0.1, 0.8, normV));
+          vec3 color = mix(vColorRest, colorActive, smoothstep(0.1, 0.8, normV));
           color = mix(color, colorPeak, smoothstep(0.8, 1.0, normV));
 
-          // 1. Heartbeat Pulse (Global)
+          // Heartbeat Pulse
           // Always pulsing slightly (alive), gets frantic with voltage
           float pulseSpeed = 2.0 + (normV * 15.0); 
           float pulse = sin(time * pulseSpeed) * 0.5 + 0.5;
           
-          // 2. Conduction Wave (Spatial)
-          // Travels outward
-          float dist = length(vPos);
-          float flowSpeed = 3.0 + (normV * 12.0);
-          float wave = sin(dist * 2.0 - time * flowSpeed);
-          
-          // Sharpen the wave to look like electric signals
-          float waveSharp = pow(max(0.0, wave), 3.0); 
-          
           // Intensity Calculation
           // BOOSTED BASE INTENSITY so it's always visible
           float baseIntensity = 1.5; 
@@ -137,10 +265,10 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
           // Pulse modulates the base glow
           float pulseEffect = pulse * 0.5;
           
-          // Wave adds bright streaks
-          float waveEffect = waveSharp * (2.0 + normV * 5.0);
+          // Depolarised stretches glow brighter, so a propagating spike reads as a travelling streak
+          float depolarisation = smoothstep(0.3, 0.9, normV) * 5.0;
           
-          float totalIntensity = baseIntensity + pulseEffect + waveEffect;
+          float totalIntensity = baseIntensity + pulseEffect + depolarisation;
           
           // Massive Overdrive at Peak (Action Potential)
           if (normV > 0.85) {
@@ -155,60 +283,11 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
       transparent: true,
       blending: THREE.AdditiveBlending,
       depthTest: false,
-      linewidth: 2, // Hint for thicker lines where supported
     });
     
     neuronMaterialRef.current = neuronShaderMaterial;
 
-    const lines = new THREE.LineSegments(neuronGeometry, neuronShaderMaterial);
-    scene.add(lines);
-
     // --- ION FLUX PARTICLE SYSTEM WITH TRAILS ---
-    const PARTICLE_COUNT = 1500; 
-    const TRAIL_LENGTH = 12; 
-    
-    const ionGeo = new THREE.BufferGeometry();
-    const ionPos: number[] = [];
-    const ionDir: number[] = [];
-    const ionType: number[] = []; // 0 = Na, 1 = K
-    const ionRandom: number[] = [];
-    const ionTrailIdx: number[] = []; // 0.0 (head) -> 1.0 (tail)
-
-    // Sample points along the neuron segments
-    for(let i=0; i<PARTICLE_COUNT; i++) {
-        // Pick a random line segment
-        const segIndex = Math.floor(Math.random() * (neuronPositions.length / 6));
-        const idx = segIndex * 6;
-        
-        const p1 = new THREE.Vector3(neuronPositions[idx], neuronPositions[idx+1], neuronPositions[idx+2]);
-        const p2 = new THREE.Vector3(neuronPositions[idx+3], neuronPositions[idx+4], neuronPositions[idx+5]);
-        
-        const t = Math.random();
-        const pos = new THREE.Vector3().lerpVectors(p1, p2, t);
-        
-        // Random direction (approx normal)
-        const dir = new THREE.Vector3(Math.random()-0.5, Math.random()-0.5, Math.random()-0.5).normalize();
-
-        const type = Math.random() > 0.5 ? 1 : 0;
-        const rnd = Math.random();
-
-        // Create trail vertices for this single particle
-        for (let j = 0; j < TRAIL_LENGTH; j++) {
-            ionPos.push(pos.x, pos.y, pos.z);
-            ionDir.push(dir.x, dir.y, dir.z);
-            ionType.push(type);
-            ionRandom.push(rnd);
-            // Normalized index: 0 is head, 1 is tail
-            ionTrailIdx.push(j / (TRAIL_LENGTH - 1));
-        }
-    }
-
-    ionGeo.setAttribute('position', new THREE.Float32BufferAttribute(ionPos, 3));
-    ionGeo.setAttribute('direction', new THREE.Float32BufferAttribute(ionDir, 3));
-    ionGeo.setAttribute('ionType', new THREE.Float32BufferAttribute(ionType, 1));
-    ionGeo.setAttribute('random', new THREE.Float32BufferAttribute(ionRandom, 1));
-    ionGeo.setAttribute('trailIdx', new THREE.Float32BufferAttribute(ionTrailIdx, 1));
-
     const ionShaderMaterial = new THREE.ShaderMaterial({
       uniforms: {
         time: { value: 0 },
@@ -349,12 +428,10 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
     });
     
     ionMaterialRef.current = ionShaderMaterial;
-    const ionPoints = new THREE.Points(ionGeo, ionShaderMaterial);
-    scene.add(ionPoints);
 
 
     // --- Soma Mesh (Sphere) ---
-    const somaGeo = new THREE.IcosahedronGeometry(0.5, 2);
+    const somaGeo = new THREE.IcosahedronGeometry(1, 2);
     const somaMat = new THREE.MeshBasicMaterial({ 
         color: 0x00f3ff, 
         wireframe: true,
@@ -362,7 +439,153 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
         opacity: 0.3
     });
     const soma = new THREE.Mesh(somaGeo, somaMat);
-    scene.add(soma);
+
+    // Neurites, ions and soma turn together as one cell
+    const cell = new THREE.Group();
+    cell.add(soma);
+    scene.add(cell);
+
+    // --- Morphology ---
+    // Rebuilt from the animation loop whenever a different cell is supplied
+    let builtMorphology: Morphology | null = null;
+    let neurites: THREE.Mesh | null = null;
+    let ionPoints: THREE.Points | null = null;
+    let voltageAttribute: THREE.BufferAttribute | null = null;
+    let pathDistances = new Float32Array(0);
+    let maxPathDistance = 1;
+    let compartmentIndex = new Uint16Array(0);
+    let mappedCompartments = 0;
+    let somaRadius = 0.5;
+    let halfWidth = SCENE_RADIUS;
+    let halfHeight = SCENE_RADIUS;
+    let transform: SceneTransform = { center: [0, 0, 0], scale: 1 };
+    let localSegments: [THREE.Vector3, THREE.Vector3][] = [];
+
+    const buildMorphology = (cellMorphology: Morphology) => {
+      if (neurites) {
+        cell.remove(neurites);
+        neurites.geometry.dispose();
+      }
+      if (ionPoints) {
+        cell.remove(ionPoints);
+        ionPoints.geometry.dispose();
+      }
+
+      transform = sceneTransform(cellMorphology);
+      const built = buildNeuriteGeometry(cellMorphology, transform);
+      localSegments = built.segments;
+      neurites = new THREE.Mesh(built.geometry, neuronShaderMaterial);
+      cell.add(neurites);
+      if (built.segments.length) {
+        ionPoints = new THREE.Points(buildIonGeometry(built.segments), ionShaderMaterial);
+        cell.add(ionPoints);
+      }
+
+      voltageAttribute = built.voltage;
+      pathDistances = built.pathDistances;
+      maxPathDistance = pathDistances.reduce((max, d) => Math.max(max, d), 1e-9);
+      compartmentIndex = new Uint16Array(pathDistances.length);
+      mappedCompartments = 0;
+
+      soma.position.copy(toScene(cellMorphology.soma.center, transform));
+      somaRadius = Math.max(MIN_SOMA_RADIUS, cellMorphology.soma.radius * transform.scale);
+
+      // Auto-frame: the orbit circles the y axis, so x and z both count as width
+      const { min, max } = cellMorphology.bounds;
+      halfWidth = (Math.max(max[0] - min[0], max[2] - min[2]) / 2) * transform.scale;
+      halfHeight = ((max[1] - min[1]) / 2) * transform.scale;
+      builtMorphology = cellMorphology;
+      appliedElectrodes = null;
+    };
+
+    // --- Electrodes ---
+    const markers = {} as Record<ElectrodeKind, THREE.Mesh>;
+    Object.values(ElectrodeKind).forEach(kind => {
+      const marker = new THREE.Mesh(
+        new THREE.OctahedronGeometry(0.12, 0),
+        new THREE.MeshBasicMaterial({ color: ELECTRODE_STYLES[kind].color, depthTest: false, transparent: true })
+      );
+      marker.visible = false;
+      cell.add(marker);
+      markers[kind] = marker;
+    });
+    let appliedElectrodes: NeuronSceneProps['electrodes'] | null = null;
+
+    const placeElectrodes = (sites: NeuronSceneProps['electrodes']) => {
+      Object.values(ElectrodeKind).forEach(kind => {
+        const site = sites[kind];
+        markers[kind].visible = !!site;
+        if (site) markers[kind].position.copy(toScene(site.position, transform));
+      });
+      appliedElectrodes = sites;
+    };
+
+    // --- Picking ---
+    // Nearest neurite (or the soma) under the cursor, tested against the segment
+    // centre lines so thin branches stay clickable
+    const raycaster = new THREE.Raycaster();
+    const pick = (clientX: number, clientY: number): ElectrodeSite | null => {
+      if (!builtMorphology) return null;
+      const rect = renderer.domElement.getBoundingClientRect();
+      const pointer = new THREE.Vector2(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+      const ray = raycaster.ray.clone().applyMatrix4(cell.matrixWorld.clone().invert());
+
+      let best: ElectrodeSite | null = null;
+      let bestDepth = Infinity;
+      const onRay = new THREE.Vector3();
+      const onSegment = new THREE.Vector3();
+
+      const somaHit = ray.intersectSphere(new THREE.Sphere(soma.position, soma.scale.x), onRay);
+      if (somaHit) {
+        bestDepth = ray.origin.distanceTo(somaHit);
+        best = { position: builtMorphology.soma.center, type: NeuriteType.SOMA, pathDistance: 0, pathFraction: 0 };
+      }
+
+      localSegments.forEach(([a, b], index) => {
+        const distanceSq = ray.distanceSqToSegment(a, b, onRay, onSegment);
+        const depth = ray.origin.distanceTo(onRay);
+        const tolerance = PICK_TOLERANCE * depth;
+        if (distanceSq > tolerance * tolerance || depth >= bestDepth) return;
+
+        const segment = builtMorphology!.segments[index];
+        const length = a.distanceTo(b);
+        const u = length > 0 ? a.distanceTo(onSegment) / length : 0;
+        const pathDistance = segment.startDistance + u * (segment.endDistance - segment.startDistance);
+        best = {
+          position: [0, 1, 2].map(k => segment.start[k] + u * (segment.end[k] - segment.start[k])) as Vec3,
+          type: segment.type,
+          pathDistance,
+          pathFraction: pathDistance / maxPathDistance,
+        };
+        bestDepth = depth;
+      });
+
+      return best;
+    };
+
+    let pointerDown: { x: number; y: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      pointerDown = { x: e.clientX, y: e.clientY };
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointerDown) return;
+      const moved = Math.hypot(e.clientX - pointerDown.x, e.clientY - pointerDown.y);
+      pointerDown = null;
+      if (moved > CLICK_TOLERANCE) return; // A drag of the free camera, not a click
+      const site = pick(e.clientX, e.clientY);
+      if (site) onPickRef.current(site);
+    };
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown);
+    renderer.domElement.addEventListener('pointerup', handlePointerUp);
+
+    // Re-spreads the vertices over the cable whenever its compartment count changes
+    const mapCompartments = (count: number) => {
+      for (let i = 0; i < pathDistances.length; i++) {
+        compartmentIndex[i] = Math.round((pathDistances[i] / maxPathDistance) * (count - 1));
+      }
+      mappedCompartments = count;
+    };
 
     // --- Background Particles ---
     const partGeo = new THREE.BufferGeometry();
@@ -407,17 +630,37 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
     // --- Animation Loop ---
     let frameId: number;
     const clock = new THREE.Clock();
+    // Scripted motion only advances in cinematic mode so the free camera sees a still cell
+    let cinematicTime = 0;
+    let wasCinematic = true;
+    const projected = new THREE.Vector3();
 
     const animate = () => {
       frameId = requestAnimationFrame(animate);
-      const time = clock.getElapsedTime();
+      const delta = clock.getDelta();
+      const time = clock.elapsedTime;
+      const cinematic = cameraModeRef.current === CameraMode.CINEMATIC;
+      if (cinematic) cinematicTime += delta;
       const currentParams = stateRef.current;
       const simParams = paramsRef.current; // Access current simulation parameters (conductance)
 
+      if (morphologyRef.current !== builtMorphology) buildMorphology(morphologyRef.current);
+      if (electrodesRef.current !== appliedElectrodes) placeElectrodes(electrodesRef.current);
+
       // Update neuron shader uniforms
       if (neuronMaterialRef.current) {
         neuronMaterialRef.current.uniforms.time.value = time;
-        neuronMaterialRef.current.uniforms.voltage.value = currentParams.V;
+      }
+
+      // Per-vertex voltages from the simulated compartments; a point neuron is isopotential
+      const voltages = compartmentsRef.current;
+      if (voltages && voltages.length !== mappedCompartments) mapCompartments(voltages.length);
+      if (voltageAttribute) {
+        const vertexVoltages = voltageAttribute.array as Float32Array;
+        for (let i = 0; i < vertexVoltages.length; i++) {
+          vertexVoltages[i] = voltages ? voltages[compartmentIndex[i]] : currentParams.V;
+        }
+        voltageAttribute.needsUpdate = true;
       }
 
       // Update ion shader uniforms
@@ -439,16 +682,14 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
       }
 
       // Rotate Neuron
-      lines.rotation.y = time * 0.05;
-      lines.rotation.x = Math.sin(time * 0.1) * 0.1;
+      cell.rotation.y = cinematicTime * 0.05;
+      cell.rotation.x = Math.sin(cinematicTime * 0.1) * 0.1;
       soma.rotation.y = -time * 0.1;
-      ionPoints.rotation.y = lines.rotation.y;
-      ionPoints.rotation.x = lines.rotation.x;
 
       // Pulse Soma
       const v = currentParams.V;
       const scale = 1 + Math.max(0, (v + 50) * 0.01); 
-      soma.scale.setScalar(scale);
+      soma.scale.setScalar(scale * somaRadius);
       
       if (v > 0) {
           somaMat.color.setHex(0xffffff);
@@ -464,17 +705,41 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
       }
 
       // --- Cinematic Camera Orbit ---
-      if (cameraRef.current) {
-        const radius = 9;
+      if (cameraRef.current && cinematic) {
+        const radius = fitDistance(halfWidth, halfHeight, cameraRef.current);
         const orbitSpeed = 0.10; // Slowed down from 0.15 for more "cinematic" feel
         // Circular orbit
-        cameraRef.current.position.x = Math.sin(time * orbitSpeed) * radius;
-        cameraRef.current.position.z = Math.cos(time * orbitSpeed) * radius;
+        cameraRef.current.position.x = Math.sin(cinematicTime * orbitSpeed) * radius;
+        cameraRef.current.position.z = Math.cos(cinematicTime * orbitSpeed) * radius;
         // Gentle vertical bobbing
-        cameraRef.current.position.y = Math.sin(time * 0.07) * 1.5 + 0.5;
+        cameraRef.current.position.y = Math.sin(cinematicTime * 0.07) * 1.5 + 0.5;
         cameraRef.current.lookAt(0, 0, 0);
       }
 
+      // --- Free Camera ---
+      // Hand over from wherever the orbit left the camera
+      if (!cinematic && wasCinematic) controls.target.set(0, 0, 0);
+      controls.enabled = !cinematic;
+      if (!cinematic) controls.update();
+      wasCinematic = cinematic;
+
+      // --- Electrode HUD ---
+      Object.values(ElectrodeKind).forEach(kind => {
+        const hud = hudRefs.current[kind];
+        const site = electrodesRef.current[kind];
+        if (!hud) return;
+        if (!site) {
+          hud.style.display = 'none';
+          return;
+        }
+        markers[kind].getWorldPosition(projected).project(camera);
+        const rect = renderer.domElement.getBoundingClientRect();
+        const V = voltages ? voltages[compartmentAt(site.pathFraction, voltages.length)] : currentParams.V;
+        hud.style.display = projected.z < 1 ? 'block' : 'none';
+        hud.style.transform = `translate(${((projected.x + 1) / 2) * rect.width + 12}px, ${((1 - projected.y) / 2) * rect.height - 12}px)`;
+        hud.textContent = `${ELECTRODE_STYLES[kind].label} · ${NEURITE_LABELS[site.type]} · ${(site.pathFraction * 100).toFixed(0)}% to tip · ${V.toFixed(1)} mV`;
+      });
+
       if (rendererRef.current && sceneRef.current && cameraRef.current) {
         rendererRef.current.render(sceneRef.current, cameraRef.current);
       }
@@ -485,7 +750,12 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
     // --- Cleanup ---
     return () => {
       window.removeEventListener('resize', handleResize);
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown);
+      renderer.domElement.removeEventListener('pointerup', handlePointerUp);
+      controls.dispose();
       cancelAnimationFrame(frameId);
+      neurites?.geometry.dispose();
+      ionPoints?.geometry.dispose();
       if (containerRef.current && rendererRef.current) {
         containerRef.current.removeChild(rendererRef.current.domElement);
       }
@@ -493,7 +763,20 @@ const NeuronScene: React.FC<NeuronSceneProps> = ({ state, simulationParams }) =>
     };
   }, []);
 
-  return <div ref={containerRef} className="w-full h-full absolute inset-0 z-0" />;
+  return (
+    <div className="w-full h-full absolute inset-0 z-0 overflow-hidden">
+      <div ref={containerRef} className="absolute inset-0 cursor-crosshair" />
+      {/* Floating electrode readouts, positioned every frame by the render loop */}
+      {Object.values(ElectrodeKind).map(kind => (
+        <div
+          key={kind}
+          ref={el => { hudRefs.current[kind] = el; }}
+          className="absolute top-0 left-0 hidden pointer-events-none whitespace-nowrap bg-cyber-panel/70 backdrop-blur border px-2 py-1 font-mono text-[10px] text-white/90"
+          style={{ borderColor: `#${ELECTRODE_STYLES[kind].color.toString(16).padStart(6, '0')}` }}
+        />
+      ))}
+    </div>
+  );
 };
 
 export default NeuronScene;
\ No newline at end of file
@@ -1,64 +1,389 @@
-import React from 'react';
-import { LineChart, Line, YAxis, ResponsiveContainer, Tooltip, CartesianGrid } from 'recharts';
-import { HHState } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, CartesianGrid, ReferenceLine } from 'recharts';
+import { HHState, ScopeSettings, StoredSweep, TriggerEdge } from '../types';
+import { TraceComparison } from '../services/traceImport';
+import { ScopeWindow, SCOPE_DIVISIONS, TIMEBASE_STEPS, VOLTS_STEPS, stepScale, voltageDomain } from '../services/scope';
+import { sweepStyle, sweepLabels, placeSweep } from '../services/sweepOverlay';
 
 interface OscilloscopeProps {
   data: HHState[];
+  screen: ScopeWindow | null; // Time range on screen, null while waiting for a trigger
+  settings: ScopeSettings;
+  onSettingsChange: (changes: Partial<ScopeSettings>) => void;
+  onPan: (deltaMs: number) => void;
+  sweepMode?: boolean;
+  onSweepModeChange?: (enabled: boolean) => void;
+  sweeps?: StoredSweep[];        // Stored stimulus-locked sweeps, oldest first
+  average?: HHState[] | null;    // Mean of the stored sweeps when averaging
+  averaging?: boolean;
+  onAveragingChange?: (enabled: boolean) => void;
+  onSweepRemove?: (id: number) => void;
+  onSweepsClear?: () => void;
+  comparison?: TraceComparison | null;
+  referenceName?: string | null;
+  referenceError?: string | null;
+  onReferenceFile?: (file: File) => void;
+  onReferenceAlign?: () => void;
+  onReferenceClear?: () => void;
 }
 
-const Oscilloscope: React.FC<OscilloscopeProps> = React.memo(({ data }) => {
+const REFERENCE_COLOR = '#ffd000';
+const RESIDUAL_COLOR = '#ff2a2a';
+const TRIGGER_COLOR = '#ffd000';
+const CURSOR_COLOR = '#00ff9d';
+const AVERAGE_COLOR = '#ffffff';
+const DRAG_THRESHOLD = 3; // px before a press on the screen becomes a pan instead of a cursor click
+
+const headerButton = 'px-2 py-0.5 border border-white/10 text-cyber-muted hover:text-white hover:border-white/30 font-mono text-[9px] uppercase tracking-widest';
+const activeButton = 'px-2 py-0.5 border border-cyber-neon text-cyber-neon bg-cyber-neon/10 font-mono text-[9px] uppercase tracking-widest';
+
+// Membrane potential at time t, linearly interpolated between the plotted samples
+const valueAt = (data: HHState[], t: number): number | null => {
+  if (data.length === 0 || t < data[0].t || t > data[data.length - 1].t) return null;
+  const i = Math.max(1, data.findIndex(state => state.t >= t));
+  const a = data[i - 1];
+  const b = data[i];
+  return b.t > a.t ? a.V + ((t - a.t) / (b.t - a.t)) * (b.V - a.V) : a.V;
+};
+
+const formatMs = (ms: number): string => (Math.abs(ms) >= 100 ? ms.toFixed(0) : Math.abs(ms) >= 1 ? ms.toFixed(1) : ms.toFixed(2));
+
+const Oscilloscope: React.FC<OscilloscopeProps> = React.memo(({
+  data, screen, settings, onSettingsChange, onPan,
+  sweepMode, onSweepModeChange, sweeps = [], average, averaging, onAveragingChange, onSweepRemove, onSweepsClear,
+  comparison, referenceName, referenceError, onReferenceFile, onReferenceAlign, onReferenceClear,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const screenRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; dragged: boolean } | null>(null);
+  const [cursors, setCursors] = useState<[number | null, number | null]>([null, null]);
+
+  // Reference and residual ride along with the simulated samples they were interpolated at
+  const chartData = useMemo(() => comparison
+    ? data.map((state, i) => {
+        const Vref = comparison.reference[i];
+        return { ...state, Vref, residual: Vref === null ? null : state.V - Vref };
+      })
+    : data, [data, comparison]);
+
+  // Stored sweeps line up with the stimulus onset on screen
+  const sweepOrigin = sweepMode ? screen?.trigger ?? null : null;
+  const placedSweeps = useMemo(
+    () => (sweepOrigin === null ? [] : sweeps.map(sweep => placeSweep(sweep.data, sweepOrigin))),
+    [sweeps, sweepOrigin]
+  );
+  const placedAverage = useMemo(
+    () => (sweepOrigin === null || !average ? null : placeSweep(average, sweepOrigin)),
+    [average, sweepOrigin]
+  );
+  const labels = useMemo(() => sweepLabels(sweeps), [sweeps]);
+
+  const [vMin, vMax] = voltageDomain(settings);
+  const origin = screen ? screen.trigger ?? screen.start : 0; // Time axis reads relative to the trigger
+  const xTicks = screen ? Array.from({ length: SCOPE_DIVISIONS.x + 1 }, (_, i) => screen.start + i * settings.timebase) : [];
+  const yTicks = Array.from({ length: SCOPE_DIVISIONS.y + 1 }, (_, i) => vMin + i * settings.voltsPerDiv);
+
+  // Wheel zooms the timebase, shift + wheel the vertical scale. Registered
+  // natively so the page does not scroll underneath.
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  useEffect(() => {
+    const element = screenRef.current;
+    if (!element) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = settingsRef.current;
+      const direction = Math.sign(e.deltaY);
+      onSettingsChange(e.shiftKey
+        ? { voltsPerDiv: stepScale(VOLTS_STEPS, current.voltsPerDiv, direction) }
+        : { timebase: stepScale(TIMEBASE_STEPS, current.timebase, direction) });
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, [onSettingsChange]);
+
+  // Dragging pans through the recorded history (and freezes the screen)
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { x: e.clientX, dragged: false };
+  };
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    const width = screenRef.current?.clientWidth ?? 0;
+    if (!drag || width === 0) return;
+    const dx = e.clientX - drag.x;
+    if (!drag.dragged && Math.abs(dx) < DRAG_THRESHOLD) return;
+    drag.dragged = true;
+    drag.x = e.clientX;
+    onPan((-dx / width) * settings.timebase * SCOPE_DIVISIONS.x);
+  };
+  const handleMouseUp = () => {
+    // Let the chart's click handler see whether this press was a drag first
+    setTimeout(() => { dragRef.current = null; });
+  };
+
+  // Clicks place cursor A, then B, then move A again
+  const handleChartClick = (state: { activeLabel?: string | number } | null) => {
+    if (dragRef.current?.dragged || state?.activeLabel === undefined) return;
+    const t = Number(state.activeLabel);
+    setCursors(([a, b]) => (a === null || b !== null ? [t, null] : [a, t]));
+  };
+
+  const [cursorA, cursorB] = cursors;
+  const vA = cursorA !== null ? valueAt(data, cursorA) : null;
+  const vB = cursorB !== null ? valueAt(data, cursorB) : null;
+  const dt = cursorA !== null && cursorB !== null ? cursorB - cursorA : null;
+
   return (
     <div className="w-full h-full relative flex flex-col p-6 border-b border-white/5 bg-cyber-panel/20">
-        
+
         {/* Header */}
-        <div className="flex items-center gap-3 mb-6 shrink-0 border-l-2 border-cyber-neon pl-3">
+        <div className="flex items-center gap-3 mb-3 shrink-0 border-l-2 border-cyber-neon pl-3">
              <h3 className="text-cyber-neon text-[10px] font-sans font-bold uppercase tracking-[0.2em]">
                 Membrane Potential (Vm)
             </h3>
+             {onReferenceFile && (
+               <div className="ml-auto flex items-center gap-1">
+                 {referenceName && (
+                   <>
+                     <span className="font-mono text-[9px] truncate max-w-[120px]" style={{ color: REFERENCE_COLOR }} title={referenceName}>{referenceName}</span>
+                     <span className="font-mono text-[9px] text-white/70 w-20 text-right">
+                       RMS {comparison?.rms != null ? `${comparison.rms.toFixed(2)} mV` : '--'}
+                     </span>
+                     <button type="button" onClick={onReferenceAlign} className={headerButton} title="Align the recording start to the current simulation time">Align</button>
+                     <button type="button" onClick={onReferenceClear} className={headerButton} title="Remove the reference trace">✕</button>
+                   </>
+                 )}
+                 {!referenceName && (
+                   <button type="button" onClick={() => inputRef.current?.click()} className={headerButton} title="Overlay a recorded trace (CSV or ATF)">
+                     Import Trace
+                   </button>
+                 )}
+                 <input
+                   ref={inputRef}
+                   type="file"
+                   accept=".csv,.tsv,.txt,.atf"
+                   className="hidden"
+                   onChange={e => {
+                     const file = e.target.files?.[0];
+                     if (file) onReferenceFile(file);
+                     e.target.value = '';
+                   }}
+                 />
+               </div>
+             )}
+        </div>
+        {referenceError && <div className="mb-2 font-mono text-[9px] text-cyber-danger">{referenceError}</div>}
+
+        {/* Scope Controls */}
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-3 shrink-0 font-mono text-[9px] text-cyber-muted">
+             <span className="flex items-center gap-1">
+               <button type="button" onClick={() => onSettingsChange({ timebase: stepScale(TIMEBASE_STEPS, settings.timebase, -1) })} className={headerButton}>−</button>
+               <span className="text-white/80 w-16 text-center">{settings.timebase} ms/div</span>
+               <button type="button" onClick={() => onSettingsChange({ timebase: stepScale(TIMEBASE_STEPS, settings.timebase, 1) })} className={headerButton}>+</button>
+             </span>
+             <span className="flex items-center gap-1">
+               <button type="button" onClick={() => onSettingsChange({ voltsPerDiv: stepScale(VOLTS_STEPS, settings.voltsPerDiv, -1) })} className={headerButton}>−</button>
+               <span className="text-white/80 w-16 text-center">{settings.voltsPerDiv} mV/div</span>
+               <button type="button" onClick={() => onSettingsChange({ voltsPerDiv: stepScale(VOLTS_STEPS, settings.voltsPerDiv, 1) })} className={headerButton}>+</button>
+             </span>
+             <span className="flex items-center gap-1">
+               <button
+                 type="button"
+                 onClick={() => onSettingsChange({ triggerEnabled: !settings.triggerEnabled })}
+                 className={settings.triggerEnabled ? activeButton : headerButton}
+                 title="Edge trigger; off runs free"
+               >
+                 Trig
+               </button>
+               <button
+                 type="button"
+                 onClick={() => onSettingsChange({ triggerEdge: settings.triggerEdge === TriggerEdge.RISING ? TriggerEdge.FALLING : TriggerEdge.RISING })}
+                 className={headerButton}
+                 title="Trigger edge"
+               >
+                 {settings.triggerEdge === TriggerEdge.RISING ? '↑' : '↓'}
+               </button>
+               <input
+                 type="number"
+                 step={5}
+                 value={settings.triggerLevel}
+                 onChange={e => {
+                   const value = parseFloat(e.target.value);
+                   if (Number.isFinite(value)) onSettingsChange({ triggerLevel: value });
+                 }}
+                 className="w-12 bg-black border border-white/10 text-white text-right px-1"
+                 title="Trigger level (mV)"
+               />
+               <span>mV</span>
+             </span>
+             {onSweepModeChange && (
+               <span className="flex items-center gap-1">
+                 <button
+                   type="button"
+                   onClick={() => onSweepModeChange(!sweepMode)}
+                   className={sweepMode ? activeButton : headerButton}
+                   title="Lock the screen to the stimulus and keep each run for comparison"
+                 >
+                   Sweeps
+                 </button>
+                 {sweepMode && (
+                   <>
+                     <button
+                       type="button"
+                       onClick={() => onAveragingChange?.(!averaging)}
+                       className={averaging ? activeButton : headerButton}
+                       title="Overlay the mean of the stored sweeps"
+                     >
+                       Avg
+                     </button>
+                     <button type="button" onClick={onSweepsClear} className={headerButton} title="Discard the stored sweeps">Clear</button>
+                   </>
+                 )}
+               </span>
+             )}
+             <button
+               type="button"
+               onClick={() => onSettingsChange({ frozen: !settings.frozen })}
+               className={`ml-auto ${settings.frozen ? activeButton : headerButton}`}
+               title="Hold the screen; drag or scroll to browse the history"
+             >
+               {settings.frozen ? 'Run' : 'Hold'}
+             </button>
         </div>
 
-      <div className="flex-1 min-h-0 w-full relative">
+        {/* Sweep Legend (newest first) */}
+        {sweepMode && (
+          <div className="flex flex-wrap gap-x-3 gap-y-0.5 mb-2 shrink-0 max-h-12 overflow-y-auto custom-scrollbar font-mono text-[9px]">
+             {sweeps.length === 0 && <span className="text-cyber-muted">Start the stimulus to record a sweep</span>}
+             {sweeps.map((sweep, i) => ({ sweep, i })).reverse().map(({ sweep, i }) => {
+               const { color, opacity } = sweepStyle(sweep, i, sweeps.length);
+               return (
+                 <span key={sweep.id} className="flex items-center gap-1 text-white/70">
+                   <span className="w-2 h-2 inline-block" style={{ backgroundColor: color, opacity }}></span>
+                   {labels[i]}
+                   <button type="button" onClick={() => onSweepRemove?.(sweep.id)} className="text-cyber-muted hover:text-white" title="Remove sweep">✕</button>
+                 </span>
+               );
+             })}
+             {average && (
+               <span className="flex items-center gap-1 text-white/70">
+                 <span className="w-2 h-2 inline-block" style={{ backgroundColor: AVERAGE_COLOR }}></span>
+                 mean of {sweeps.length}
+               </span>
+             )}
+          </div>
+        )}
+
+      <div
+        ref={screenRef}
+        className="flex-1 min-h-0 w-full relative cursor-crosshair select-none"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
          {/* Decorative Brackets */}
         <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-white/20"></div>
         <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-white/20"></div>
         <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-white/20"></div>
         <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-white/20"></div>
 
+        {!screen && (
+          <div className="absolute inset-0 flex items-center justify-center font-mono text-[10px] text-cyber-muted uppercase tracking-widest animate-pulse">
+            Waiting for trigger
+          </div>
+        )}
+
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data}>
-            <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" vertical={false} opacity={0.3} />
-            <YAxis 
-              domain={[-90, 60]} 
-              hide={false} 
+          <LineChart data={chartData} onClick={handleChartClick}>
+            <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+            <XAxis
+              dataKey="t"
+              type="number"
+              domain={screen ? [screen.start, screen.end] : [0, 1]}
+              ticks={xTicks}
+              allowDataOverflow
               axisLine={false}
               tickLine={false}
-              stroke="#565869" 
+              stroke="#565869"
+              tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+              tickFormatter={(v: number) => formatMs(v - origin)}
+              height={15}
+            />
+            <YAxis
+              domain={[vMin, vMax]}
+              ticks={yTicks}
+              allowDataOverflow
+              hide={false}
+              axisLine={false}
+              tickLine={false}
+              stroke="#565869"
               tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
               width={25}
               interval="preserveStartEnd"
             />
-            <Tooltip 
+            <Tooltip
               contentStyle={{ backgroundColor: '#05060a', border: '1px solid #1f2233', color: '#fff', fontSize: '10px' }}
               itemStyle={{ color: '#00f0ff', fontFamily: 'Share Tech Mono' }}
               labelStyle={{ display: 'none' }}
               cursor={{ stroke: '#565869', strokeDasharray: '4 4' }}
               isAnimationActive={false}
             />
-            <Line 
-              type="monotone" 
-              dataKey="V" 
-              stroke="#00f0ff" 
-              strokeWidth={2} 
-              dot={false} 
-              isAnimationActive={false} 
+            {placedSweeps.map((sweepData, i) => {
+              const { color, opacity } = sweepStyle(sweeps[i], i, sweeps.length);
+              return (
+                <Line key={sweeps[i].id} data={sweepData} type="monotone" dataKey="V" name={labels[i]} stroke={color} strokeOpacity={opacity * 0.7}
+                  strokeWidth={1} dot={false} isAnimationActive={false} />
+              );
+            })}
+            {placedAverage && (
+              <Line data={placedAverage} type="monotone" dataKey="V" name="Mean" stroke={AVERAGE_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            )}
+            <Line
+              type="monotone"
+              dataKey="V"
+              stroke="#00f0ff"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
             />
+            {comparison && (
+              <Line type="monotone" dataKey="Vref" name="Reference" stroke={REFERENCE_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls={false} />
+            )}
+            {comparison && (
+              <Line type="monotone" dataKey="residual" name="Residual" stroke={RESIDUAL_COLOR} strokeWidth={1} strokeDasharray="3 2" dot={false} isAnimationActive={false} connectNulls={false} />
+            )}
             {/* Threshold Line */}
             <Line type="linear" dataKey={() => -55} stroke="#565869" strokeDasharray="2 2" strokeWidth={1} dot={false} isAnimationActive={false}/>
+            {settings.triggerEnabled && (
+              <ReferenceLine y={settings.triggerLevel} stroke={TRIGGER_COLOR} strokeDasharray="1 3" ifOverflow="hidden" />
+            )}
+            {screen?.trigger != null && (
+              <ReferenceLine x={screen.trigger} stroke={TRIGGER_COLOR} strokeDasharray="1 3" />
+            )}
+            {cursorA !== null && <ReferenceLine x={cursorA} stroke={CURSOR_COLOR} label={{ value: 'A', fill: CURSOR_COLOR, fontSize: 9, position: 'insideTopLeft' }} ifOverflow="hidden" />}
+            {cursorB !== null && <ReferenceLine x={cursorB} stroke={CURSOR_COLOR} label={{ value: 'B', fill: CURSOR_COLOR, fontSize: 9, position: 'insideTopLeft' }} ifOverflow="hidden" />}
           </LineChart>
         </ResponsiveContainer>
       </div>
+
+        {/* Cursor Readout */}
+        <div className="flex items-center gap-4 mt-2 shrink-0 font-mono text-[9px] text-cyber-muted">
+             {cursorA === null ? (
+               <span>Click to place cursors · drag to pan · wheel to zoom (shift: volts)</span>
+             ) : (
+               <>
+                 <span>A <span className="text-white/80">{vA !== null ? `${vA.toFixed(1)} mV` : '--'}</span></span>
+                 <span>B <span className="text-white/80">{vB !== null ? `${vB.toFixed(1)} mV` : '--'}</span></span>
+                 <span>Δt <span style={{ color: CURSOR_COLOR }}>{dt !== null ? `${formatMs(dt)} ms` : '--'}</span></span>
+                 <span>ΔV <span style={{ color: CURSOR_COLOR }}>{vA !== null && vB !== null ? `${(vB - vA).toFixed(1)} mV` : '--'}</span></span>
+                 {dt !== null && dt !== 0 && <span>1/Δt <span className="text-white/80">{(1000 / Math.abs(dt)).toFixed(1)} Hz</span></span>}
+                 <button type="button" onClick={() => setCursors([null, null])} className={`ml-auto ${headerButton}`} title="Remove cursors">✕</button>
+               </>
+             )}
+        </div>
     </div>
   );
 });
 
-export default Oscilloscope;
\ No newline at end of file
+export default Oscilloscope;
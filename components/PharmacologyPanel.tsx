@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, CartesianGrid, Tooltip, ReferenceLine, ReferenceDot } from 'recharts';
+import { Compound, DrugTarget, Pharmacology } from '../types';
+import {
+  DRUG_TARGET_LABELS, appliedConcentration, blockFraction, concentrationAt, conductanceScales, createCompound, doseResponse, isPreset,
+  targetLabel,
+} from '../services/pharmacology';
+import { channelLibrary } from '../services/channels';
+
+interface PharmacologyPanelProps {
+  pharmacology: Pharmacology;
+  t: number; // Current simulation time (ms)
+  onCompoundsChange: (compounds: Compound[]) => void;
+  onApply: (compoundId: string, concentration: number) => void;
+}
+
+const CURVE_POINTS = 120;
+const DOSE_FACTOR = 10; // Default dose relative to IC50 (~90 % block at Hill 1)
+
+const NUMERIC_FIELDS: { name: 'ic50' | 'hill' | 'onset' | 'washout'; label: string }[] = [
+  { name: 'ic50', label: 'IC50 µM' },
+  { name: 'hill', label: 'Hill' },
+  { name: 'onset', label: 'τ on ms' },
+  { name: 'washout', label: 'τ off ms' },
+];
+
+const axisTick = { fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869' };
+const fieldClass = 'bg-black border border-white/10 text-white font-mono text-[11px] py-0.5 px-1';
+const smallButton = 'px-2 py-0.5 border font-mono text-[9px] uppercase tracking-widest disabled:opacity-30';
+
+// Concentrations span many decades, so keep them short but significant
+const formatConcentration = (c: number): string => (c === 0 ? '0' : c >= 1000 ? `${+(c / 1000).toPrecision(3)} mM` : `${+c.toPrecision(3)} µM`);
+
+const PharmacologyPanel: React.FC<PharmacologyPanelProps> = ({ pharmacology, t, onCompoundsChange, onApply }) => {
+  const { compounds, events } = pharmacology;
+  const [selectedId, setSelectedId] = useState(compounds[0]?.id ?? null);
+  const [doses, setDoses] = useState<Record<string, number>>({});
+
+  const selected = compounds.find(c => c.id === selectedId) ?? compounds[0] ?? null;
+  const curve = useMemo(() => (selected ? doseResponse(selected, CURVE_POINTS) : []), [selected]);
+  const scales = conductanceScales(pharmacology, t);
+
+  const updateCompound = (id: string, changes: Partial<Compound>) =>
+    onCompoundsChange(compounds.map(c => (c.id === id ? { ...c, ...changes } : c)));
+
+  const addCompound = () => {
+    const compound = createCompound(compounds);
+    onCompoundsChange([...compounds, compound]);
+    setSelectedId(compound.id);
+  };
+
+  const doseOf = (compound: Compound) => doses[compound.id] ?? compound.ic50 * DOSE_FACTOR;
+  const selectedConcentration = selected ? concentrationAt(selected, events, t) : 0;
+
+  return (
+    <div className="h-full flex flex-col p-6 gap-4 overflow-y-auto custom-scrollbar">
+      {/* Effective conductances */}
+      <div className="flex flex-wrap items-center gap-6 shrink-0 text-[10px] font-mono">
+        {Object.entries(scales).map(([target, scale]) => (
+          <span key={target} className="text-cyber-muted">
+            {targetLabel(target)} CONDUCTANCE{' '}
+            <span className={scale < 0.99 ? 'text-cyber-danger' : 'text-white'}>×{scale.toFixed(2)}</span>
+          </span>
+        ))}
+        <button
+          type="button"
+          onClick={addCompound}
+          className={`ml-auto ${smallButton} border-white/10 text-cyber-muted hover:text-white hover:border-white/30`}
+        >
+          + Compound
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-[240px] grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {/* Compounds */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px] font-mono">
+            <thead className="text-[9px] text-cyber-muted uppercase">
+              <tr className="text-left">
+                <th className="font-normal pb-2">Compound</th>
+                <th className="font-normal pb-2">Target</th>
+                {NUMERIC_FIELDS.map(({ name, label }) => <th key={name} className="font-normal pb-2">{label}</th>)}
+                <th className="font-normal pb-2">Dose µM</th>
+                <th></th>
+                <th className="font-normal pb-2 text-right">Now</th>
+              </tr>
+            </thead>
+            <tbody>
+              {compounds.map(compound => {
+                const applied = appliedConcentration(compound, events);
+                const current = concentrationAt(compound, events, t);
+                const preset = isPreset(compound);
+                return (
+                  <tr
+                    key={compound.id}
+                    onClick={() => setSelectedId(compound.id)}
+                    className={`cursor-pointer ${compound.id === selected?.id ? 'bg-cyber-neon/5' : 'hover:bg-white/[0.02]'}`}
+                  >
+                    <td className="py-1 pr-2">
+                      {preset ? (
+                        <span className="text-white">{compound.name}</span>
+                      ) : (
+                        <input
+                          value={compound.name}
+                          onChange={e => updateCompound(compound.id, { name: e.target.value })}
+                          className={`w-20 ${fieldClass}`}
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={compound.target}
+                        onChange={e => updateCompound(compound.id, { target: e.target.value })}
+                        className={fieldClass}
+                      >
+                        {Object.values(DrugTarget).map(target => <option key={target} value={target}>{DRUG_TARGET_LABELS[target]}</option>)}
+                        <optgroup label="Library channels">
+                          {channelLibrary().map(({ id, name }) => <option key={id} value={id}>{name}</option>)}
+                        </optgroup>
+                      </select>
+                    </td>
+                    {NUMERIC_FIELDS.map(({ name }) => (
+                      <td key={name} className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={compound[name]}
+                          onChange={e => {
+                            const value = parseFloat(e.target.value);
+                            if (Number.isFinite(value) && value > 0) updateCompound(compound.id, { [name]: value });
+                          }}
+                          className={`w-16 text-right ${fieldClass}`}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        value={doseOf(compound)}
+                        onChange={e => {
+                          const value = parseFloat(e.target.value);
+                          if (Number.isFinite(value) && value >= 0) setDoses({ ...doses, [compound.id]: value });
+                        }}
+                        className={`w-16 text-right ${fieldClass}`}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => onApply(compound.id, doseOf(compound))}
+                        disabled={doseOf(compound) === applied}
+                        className={`${smallButton} border-cyber-neon text-cyber-neon hover:bg-cyber-neon/10`}
+                      >
+                        Apply
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onApply(compound.id, 0)}
+                        disabled={applied === 0}
+                        className={`ml-1 ${smallButton} border-white/10 text-cyber-muted hover:text-white hover:border-white/30`}
+                      >
+                        Wash
+                      </button>
+                      {!preset && (
+                        <button
+                          type="button"
+                          onClick={() => onCompoundsChange(compounds.filter(c => c.id !== compound.id))}
+                          disabled={applied > 0 || current > 0}
+                          className="ml-1 text-cyber-muted hover:text-white disabled:opacity-30"
+                          title="Remove compound (wash it out first)"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                    <td className="py-1 text-right whitespace-nowrap">
+                      <span className="text-white/70">{formatConcentration(current)}</span>
+                      <span className="block text-[9px] text-cyber-muted">{(blockFraction(compound, current) * 100).toFixed(0)} % block</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Dose–response of the selected compound */}
+        {selected && (
+          <div className="flex flex-col min-h-[220px]">
+            <div className="text-[9px] font-mono text-cyber-muted uppercase mb-2">
+              Dose–response · <span className="text-white">{selected.name}</span> on {targetLabel(selected.target)}
+            </div>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={curve} margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+                  <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+                  <XAxis
+                    dataKey="concentration"
+                    type="number"
+                    scale="log"
+                    domain={['dataMin', 'dataMax']}
+                    stroke="#565869"
+                    tick={axisTick}
+                    tickFormatter={(v: number) => v.toExponential(0)}
+                    label={{ value: 'Concentration (µM)', position: 'insideBottom', offset: -10, fill: '#565869', fontSize: 10 }}
+                  />
+                  <YAxis domain={[0, 1]} stroke="#565869" tick={axisTick} width={35} tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#05060a', border: '1px solid #1f2233', color: '#fff', fontSize: '10px' }}
+                    formatter={(v: number) => `${(v * 100).toFixed(1)} % block`}
+                    labelFormatter={(v: number) => formatConcentration(v)}
+                    isAnimationActive={false}
+                  />
+                  <ReferenceLine x={selected.ic50} stroke="#565869" strokeDasharray="2 2" />
+                  <ReferenceLine y={0.5} stroke="#565869" strokeDasharray="2 2" />
+                  <Line type="monotone" dataKey="block" stroke="#9d00ff" strokeWidth={1.5} dot={false} isAnimationActive={false} name="Block" />
+                  {selectedConcentration > 0 && (
+                    <ReferenceDot
+                      x={selectedConcentration}
+                      y={blockFraction(selected, selectedConcentration)}
+                      r={4}
+                      fill="#00f0ff"
+                      stroke="none"
+                      ifOverflow="extendDomain"
+                    />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PharmacologyPanel;
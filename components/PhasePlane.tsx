@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { FixedPointType, HHParameters, HHState, MembraneConditions } from '../types';
+import {
+  V_RANGE, N_RANGE, FIXED_POINT_LABELS,
+  vNullcline, nNullcline, vectorField, findFixedPoints,
+} from '../services/phasePlane';
+import { applyConditions } from '../services/membrane';
+
+interface PhasePlaneProps {
+  params: HHParameters;
+  conditions: MembraneConditions;
+  trajectory: HHState[];
+}
+
+// Plot geometry (SVG user units)
+const WIDTH = 640;
+const HEIGHT = 420;
+const PAD = { left: 44, right: 12, top: 12, bottom: 32 };
+
+const x = (V: number) => PAD.left + ((V - V_RANGE[0]) / (V_RANGE[1] - V_RANGE[0])) * (WIDTH - PAD.left - PAD.right);
+const y = (n: number) => HEIGHT - PAD.bottom - ((n - N_RANGE[0]) / (N_RANGE[1] - N_RANGE[0])) * (HEIGHT - PAD.top - PAD.bottom);
+
+const STABLE = new Set([FixedPointType.STABLE_NODE, FixedPointType.STABLE_FOCUS]);
+
+const PhasePlane: React.FC<PhasePlaneProps> = ({ params, conditions, trajectory }) => {
+  const [showField, setShowField] = useState(true);
+
+  // Geometry depends only on the membrane, not on the running state
+  const geometry = useMemo(() => {
+    const membrane = applyConditions(params, conditions);
+    return {
+      vNull: vNullcline(membrane),
+      nNull: nNullcline(membrane),
+      field: vectorField(membrane),
+      fixedPoints: findFixedPoints(membrane),
+    };
+  }, [params, conditions]);
+
+  const nNullPath = geometry.nNull.map(([V, n], i) => `${i === 0 ? 'M' : 'L'}${x(V)} ${y(n)}`).join(' ');
+  const trajectoryPath = trajectory.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s.V)} ${y(s.n)}`).join(' ');
+  const head = trajectory[trajectory.length - 1];
+
+  const arrowLength = 12;
+
+  return (
+    <div className="h-full flex gap-6 p-6">
+      <div className="flex-1 min-w-0 relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+          <defs>
+            <marker id="pp-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="4" markerHeight="4" orient="auto">
+              <path d="M0 0 L6 3 L0 6 z" fill="#565869" />
+            </marker>
+          </defs>
+
+          {/* Grid & Axes */}
+          {[-80, -60, -40, -20, 0, 20, 40, 60].map(V => (
+            <g key={`v${V}`}>
+              <line x1={x(V)} x2={x(V)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#1f2233" strokeDasharray="3 3" />
+              <text x={x(V)} y={HEIGHT - PAD.bottom + 14} fill="#565869" fontSize="9" fontFamily="Share Tech Mono" textAnchor="middle">{V}</text>
+            </g>
+          ))}
+          {[0, 0.2, 0.4, 0.6, 0.8, 1].map(n => (
+            <g key={`n${n}`}>
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(n)} y2={y(n)} stroke="#1f2233" strokeDasharray="3 3" />
+              <text x={PAD.left - 6} y={y(n) + 3} fill="#565869" fontSize="9" fontFamily="Share Tech Mono" textAnchor="end">{n.toFixed(1)}</text>
+            </g>
+          ))}
+          <text x={WIDTH - PAD.right} y={HEIGHT - 4} fill="#565869" fontSize="10" fontFamily="Share Tech Mono" textAnchor="end">V (mV)</text>
+          <text x={8} y={PAD.top + 8} fill="#565869" fontSize="10" fontFamily="Share Tech Mono">n</text>
+
+          {/* Vector Field */}
+          {showField && geometry.field.map((arrow, i) => {
+            // Arrows show direction only; screen y grows downwards
+            const sx = arrow.dx * (WIDTH - PAD.left - PAD.right);
+            const sy = -arrow.dy * (HEIGHT - PAD.top - PAD.bottom);
+            const norm = Math.hypot(sx, sy) || 1;
+            const x0 = x(arrow.V), y0 = y(arrow.n);
+            return (
+              <line
+                key={i}
+                x1={x0}
+                y1={y0}
+                x2={x0 + (sx / norm) * arrowLength}
+                y2={y0 + (sy / norm) * arrowLength}
+                stroke="#565869"
+                strokeWidth="0.8"
+                opacity="0.6"
+                markerEnd="url(#pp-arrow)"
+              />
+            );
+          })}
+
+          {/* Nullclines */}
+          {geometry.vNull.map(([V1, n1, V2, n2], i) => (
+            <line key={i} x1={x(V1)} y1={y(n1)} x2={x(V2)} y2={y(n2)} stroke="#00f0ff" strokeWidth="1.5" />
+          ))}
+          <path d={nNullPath} fill="none" stroke="#9d00ff" strokeWidth="1.5" />
+
+          {/* Live Trajectory (full model projected onto V-n) */}
+          <path d={trajectoryPath} fill="none" stroke="#ffffff" strokeWidth="1.2" opacity="0.8" />
+          {head && <circle cx={x(head.V)} cy={y(head.n)} r="4" fill="#ffffff" />}
+
+          {/* Fixed Points */}
+          {geometry.fixedPoints.map((fp, i) => (
+            <circle
+              key={i}
+              cx={x(fp.V)}
+              cy={y(fp.n)}
+              r="5"
+              fill={STABLE.has(fp.type) ? '#00ff9d' : '#05060a'}
+              stroke={fp.type === FixedPointType.SADDLE ? '#ffd000' : '#00ff9d'}
+              strokeWidth="2"
+            />
+          ))}
+        </svg>
+      </div>
+
+      {/* Sidebar */}
+      <div className="w-56 shrink-0 space-y-5 font-mono text-[10px]">
+        <div className="space-y-2">
+          <div className="text-cyber-muted uppercase tracking-widest">Legend</div>
+          <div className="flex items-center gap-2"><span className="w-4 h-0.5 bg-cyber-neon"></span><span className="text-white/70">V-nullcline (dV/dt = 0)</span></div>
+          <div className="flex items-center gap-2"><span className="w-4 h-0.5 bg-cyber-plasma"></span><span className="text-white/70">n-nullcline (dn/dt = 0)</span></div>
+          <div className="flex items-center gap-2"><span className="w-4 h-0.5 bg-white"></span><span className="text-white/70">Live trajectory</span></div>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => setShowField(show => !show)}
+          className={`w-full py-1.5 border uppercase tracking-widest ${showField ? 'border-white/40 text-white' : 'border-white/10 text-cyber-muted'}`}
+        >
+          Vector Field
+        </button>
+
+        <div className="space-y-2">
+          <div className="text-cyber-muted uppercase tracking-widest">Fixed Points</div>
+          {geometry.fixedPoints.length === 0 && <div className="text-white/50">None in view</div>}
+          {geometry.fixedPoints.map((fp, i) => (
+            <div key={i} className="border border-white/10 p-2 space-y-1">
+              <div className={STABLE.has(fp.type) ? 'text-[#00ff9d]' : 'text-cyber-danger'}>{FIXED_POINT_LABELS[fp.type]}</div>
+              <div className="text-white/60">V = {fp.V.toFixed(2)} mV, n = {fp.n.toFixed(3)}</div>
+              <div className="text-white/40">
+                λ = {fp.eigenvalues.map(e => `${e.re.toFixed(3)}${e.im ? `${e.im > 0 ? '+' : '−'}${Math.abs(e.im).toFixed(3)}i` : ''}`).join(', ')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-cyber-muted leading-relaxed">
+          Reduced model: m = m∞(V), h = 0.89 − 1.1·n. A spike is the excursion around the right branch of the V-nullcline.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PhasePlane;
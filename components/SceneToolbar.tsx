@@ -0,0 +1,57 @@
+import React from 'react';
+import { CameraMode, ElectrodeKind } from '../types';
+
+interface SceneToolbarProps {
+  cameraMode: CameraMode;
+  onCameraModeChange: (mode: CameraMode) => void;
+  placing: ElectrodeKind;
+  onPlacingChange: (kind: ElectrodeKind) => void;
+  onClearElectrodes: () => void;
+}
+
+const CAMERA_OPTIONS = [
+  { value: CameraMode.CINEMATIC, label: 'Cinematic' },
+  { value: CameraMode.FREE, label: 'Free Cam' },
+];
+
+const ELECTRODE_OPTIONS = [
+  { value: ElectrodeKind.RECORD, label: 'Record', active: 'border-cyber-neon text-cyber-neon bg-cyber-neon/10' },
+  { value: ElectrodeKind.STIMULUS, label: 'Stimulate', active: 'border-cyber-danger text-cyber-danger bg-cyber-danger/10' },
+];
+
+const idle = 'border-white/10 text-cyber-muted hover:text-white hover:border-white/30';
+
+const SceneToolbar: React.FC<SceneToolbarProps> = ({ cameraMode, onCameraModeChange, placing, onPlacingChange, onClearElectrodes }) => (
+  <div className="bg-cyber-panel/60 backdrop-blur border border-white/10 p-3 w-56 space-y-2 font-mono text-[9px]">
+    <div className="grid grid-cols-2 gap-1">
+      {CAMERA_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onCameraModeChange(option.value)}
+          className={`py-1 border uppercase tracking-widest ${cameraMode === option.value ? 'border-white/40 text-white bg-white/5' : idle}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <div className="text-cyber-muted uppercase tracking-widest">Click cell to place</div>
+    <div className="flex gap-1">
+      {ELECTRODE_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onPlacingChange(option.value)}
+          className={`flex-1 py-1 border uppercase tracking-widest ${placing === option.value ? option.active : idle}`}
+        >
+          {option.label}
+        </button>
+      ))}
+      <button type="button" onClick={onClearElectrodes} className={`px-2 py-1 border uppercase ${idle}`} title="Move both electrodes back to the soma">
+        ✕
+      </button>
+    </div>
+  </div>
+);
+
+export default SceneToolbar;
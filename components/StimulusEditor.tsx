@@ -0,0 +1,223 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { StimulusProtocol, StimulusSegment, StimulusType } from '../types';
+import {
+  STIMULUS_LABELS, STIMULUS_FIELDS, STIMULUS_PRESETS,
+  createSegment, stimulusCurrent, stimulusDuration, parseWaveform,
+} from '../services/stimulus';
+
+interface StimulusEditorProps {
+  protocol: StimulusProtocol;
+  onProtocolChange: (protocol: StimulusProtocol) => void;
+  running: boolean;
+  onToggleRun: () => void;
+}
+
+// `positive` fields are rejected at or below zero: segment times and periods derive from them
+const FIELD_SPECS: Partial<Record<keyof StimulusSegment, { label: string; unit: string; step: number; positive?: boolean }>> = {
+  duration: { label: 'Dur', unit: 'ms', step: 1, positive: true },
+  amplitude: { label: 'Amp', unit: 'µA', step: 0.5 },
+  offset: { label: 'Base', unit: 'µA', step: 0.5 },
+  frequency: { label: 'Freq', unit: 'Hz', step: 1, positive: true },
+  frequencyEnd: { label: 'F end', unit: 'Hz', step: 1, positive: true },
+  dutyCycle: { label: 'Duty', unit: '', step: 0.01 },
+};
+
+const PREVIEW_POINTS = 300;
+
+const StimulusEditor: React.FC<StimulusEditorProps> = React.memo(({ protocol, onProtocolChange, running, onToggleRun }) => {
+  const [newType, setNewType] = useState<StimulusType>(StimulusType.STEP);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Latest protocol, for edits that land after an await (e.g. a waveform upload)
+  const protocolRef = useRef(protocol);
+  protocolRef.current = protocol;
+
+  const total = stimulusDuration(protocol);
+
+  // Timeline preview sampled from the same function that drives the simulation
+  const preview = useMemo(() => {
+    if (total <= 0) return { path: '', boundaries: [] as number[] };
+    const values: number[] = [];
+    for (let i = 0; i <= PREVIEW_POINTS; i++) {
+      values.push(stimulusCurrent(protocol, (i / PREVIEW_POINTS) * total * 0.9999));
+    }
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    const range = max - min || 1;
+    const path = values
+      .map((v, i) => `${i === 0 ? 'M' : 'L'}${(i / PREVIEW_POINTS) * 100} ${36 - ((v - min) / range) * 32}`)
+      .join(' ');
+
+    const boundaries: number[] = [];
+    let t = 0;
+    protocol.segments.slice(0, -1).forEach(segment => {
+      t += segment.duration;
+      boundaries.push((t / total) * 100);
+    });
+    return { path, boundaries };
+  }, [protocol, total]);
+
+  const updateSegment = (id: string, patch: Partial<StimulusSegment>) => {
+    const current = protocolRef.current;
+    onProtocolChange({
+      ...current,
+      segments: current.segments.map(segment => (segment.id === id ? { ...segment, ...patch } : segment)),
+    });
+  };
+
+  const moveSegment = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= protocol.segments.length) return;
+    const segments = protocol.segments.slice();
+    [segments[index], segments[target]] = [segments[target], segments[index]];
+    onProtocolChange({ ...protocol, segments });
+  };
+
+  const removeSegment = (id: string) => {
+    onProtocolChange({ ...protocol, segments: protocol.segments.filter(segment => segment.id !== id) });
+  };
+
+  const addSegment = () => {
+    onProtocolChange({ ...protocol, segments: [...protocol.segments, createSegment(newType)] });
+  };
+
+  const handlePreset = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = STIMULUS_PRESETS.find(p => p.name === e.target.value);
+    if (preset) onProtocolChange(preset.build());
+    e.target.value = '';
+  };
+
+  const handleWaveformFile = (id: string, file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const { samples, sampleInterval, duration } = parseWaveform(text);
+        updateSegment(id, { samples, sampleInterval, duration });
+        setUploadError(null);
+      } catch (err) {
+        setUploadError(err instanceof Error ? err.message : String(err));
+      }
+    }).catch((err: Error) => setUploadError(`${file.name}: ${err.message}`));
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Transport */}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onToggleRun}
+          disabled={protocol.segments.length === 0}
+          className={`flex-1 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase transition-colors duration-200 disabled:opacity-30 ${
+            running
+              ? 'border-cyber-danger text-black bg-cyber-danger'
+              : 'border-cyber-danger/40 text-cyber-danger hover:bg-cyber-danger/10'
+          }`}
+        >
+          {running ? 'Stop Protocol' : 'Run Protocol'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onProtocolChange({ ...protocol, loop: !protocol.loop })}
+          className={`px-3 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase ${
+            protocol.loop ? 'border-white/40 text-white' : 'border-white/10 text-cyber-muted'
+          }`}
+        >
+          Loop
+        </button>
+        <select
+          defaultValue=""
+          onChange={handlePreset}
+          className="bg-black border border-white/10 text-cyber-muted font-mono text-[10px] py-2 px-1 uppercase"
+        >
+          <option value="" disabled>Preset</option>
+          {STIMULUS_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </select>
+      </div>
+
+      {/* Timeline Preview */}
+      <div className="relative border border-white/10 bg-black/40">
+        <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-14">
+          {preview.boundaries.map((x, i) => (
+            <line key={i} x1={x} x2={x} y1={0} y2={40} stroke="#565869" strokeDasharray="1 1" vectorEffect="non-scaling-stroke" />
+          ))}
+          <path d={preview.path} fill="none" stroke="#ff2a2a" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        </svg>
+        <span className="absolute bottom-0.5 right-1 text-[8px] font-mono text-cyber-muted">{total.toFixed(0)} ms</span>
+      </div>
+
+      {/* Segments */}
+      <div className="space-y-2">
+        {protocol.segments.map((segment, index) => (
+          <div key={segment.id} className="border border-white/10 bg-white/[0.02] p-2 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-mono text-white uppercase tracking-widest">
+                {index + 1}. {STIMULUS_LABELS[segment.type]}
+              </span>
+              <div className="flex gap-1 text-[10px] font-mono text-cyber-muted">
+                <button type="button" onClick={() => moveSegment(index, -1)} className="px-1 hover:text-white">▲</button>
+                <button type="button" onClick={() => moveSegment(index, 1)} className="px-1 hover:text-white">▼</button>
+                <button type="button" onClick={() => removeSegment(segment.id)} className="px-1 hover:text-cyber-danger">✕</button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {(['duration', ...STIMULUS_FIELDS[segment.type]] as (keyof StimulusSegment)[]).map(field => {
+                const spec = FIELD_SPECS[field];
+                if (!spec) return null;
+                return (
+                  <label key={field} className="flex items-center justify-between gap-1 text-[9px] font-mono text-cyber-muted uppercase">
+                    <span>{spec.label}</span>
+                    <input
+                      type="number"
+                      step={spec.step}
+                      min={spec.positive ? spec.step : undefined}
+                      value={segment[field] as number}
+                      onChange={e => {
+                        const value = parseFloat(e.target.value);
+                        if (Number.isFinite(value) && (!spec.positive || value > 0)) updateSegment(segment.id, { [field]: value });
+                      }}
+                      className="w-16 bg-black border border-white/10 text-white text-right px-1 py-0.5"
+                    />
+                  </label>
+                );
+              })}
+            </div>
+
+            {segment.type === StimulusType.WAVEFORM && (
+              <div className="text-[9px] font-mono text-cyber-muted space-y-1">
+                <input
+                  type="file"
+                  accept=".csv,.txt,.dat"
+                  onChange={e => handleWaveformFile(segment.id, e.target.files?.[0])}
+                  className="w-full text-[9px]"
+                />
+                <div>{segment.samples ? `${segment.samples.length} samples @ ${segment.sampleInterval} ms` : 'No waveform loaded'}</div>
+              </div>
+            )}
+          </div>
+        ))}
+        {uploadError && <div className="text-[9px] font-mono text-cyber-danger">{uploadError}</div>}
+      </div>
+
+      {/* Add Segment */}
+      <div className="flex gap-2">
+        <select
+          value={newType}
+          onChange={e => setNewType(e.target.value as StimulusType)}
+          className="flex-1 bg-black border border-white/10 text-white font-mono text-[10px] py-1 px-1 uppercase"
+        >
+          {Object.values(StimulusType).map(type => <option key={type} value={type}>{STIMULUS_LABELS[type]}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={addSegment}
+          className="px-3 border border-white/10 text-cyber-muted hover:text-white hover:border-white/30 font-mono text-[10px] uppercase"
+        >
+          + Segment
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default StimulusEditor;
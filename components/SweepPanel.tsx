@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Legend, CartesianGrid, Tooltip, ReferenceArea, ReferenceLine } from 'recharts';
+import { HHParameters, MembraneConditions, SolverSettings, SweepResult, SweepSettings } from '../types';
+import { DEFAULT_SWEEP_SETTINGS, SWEEPABLE_PARAMETERS } from '../services/parameterSweep';
+import type { SweepCommand, SweepEvent } from '../services/sweepWorker';
+
+interface SweepPanelProps {
+  params: HHParameters;
+  solverSettings: SolverSettings;
+  conditions: MembraneConditions;
+}
+
+const NUMERIC_FIELDS: { name: keyof SweepSettings; label: string; step: number }[] = [
+  { name: 'start', label: 'From', step: 0.5 },
+  { name: 'end', label: 'To', step: 0.5 },
+  { name: 'steps', label: 'Points', step: 1 },
+  { name: 'duration', label: 'ms / pt', step: 50 },
+];
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ params, solverSettings, conditions }) => {
+  const [settings, setSettings] = useState<SweepSettings>(DEFAULT_SWEEP_SETTINGS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => cancel, []);
+
+  const run = () => {
+    cancel();
+    const worker = new Worker(new URL('../services/sweepWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setProgress(0);
+    setError(null);
+
+    worker.onmessage = (e: MessageEvent<SweepEvent>) => {
+      const event = e.data;
+      if (event.type === 'progress') {
+        setProgress(event.done / event.total);
+        return;
+      }
+      if (event.type === 'done') setResult(event.result);
+      else setError(event.message);
+      cancel();
+    };
+
+    // Load failures and uncaught exceptions never reach onmessage
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      setError(e.message || 'Analysis worker failed');
+      cancel();
+    };
+
+    const command: SweepCommand = { type: 'run', params, solver: solverSettings, settings, conditions };
+    worker.postMessage(command);
+  };
+
+  const parameterLabel = SWEEPABLE_PARAMETERS.find(p => p.key === result?.settings.parameter)?.label ?? '';
+
+  return (
+    <div className="h-full flex flex-col p-6 gap-4">
+      {/* Settings */}
+      <div className="flex flex-wrap items-end gap-4 shrink-0">
+        <label className="flex flex-col gap-1 text-[9px] font-mono text-cyber-muted uppercase">
+          Parameter
+          <select
+            value={settings.parameter}
+            onChange={e => setSettings({ ...settings, parameter: e.target.value as keyof HHParameters })}
+            className="bg-black border border-white/10 text-white font-mono text-[11px] py-1 px-1"
+          >
+            {SWEEPABLE_PARAMETERS.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+          </select>
+        </label>
+        {NUMERIC_FIELDS.map(({ name, label, step }) => (
+          <label key={name} className="flex flex-col gap-1 text-[9px] font-mono text-cyber-muted uppercase">
+            {label}
+            <input
+              type="number"
+              step={step}
+              value={settings[name] as number}
+              onChange={e => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) setSettings({ ...settings, [name]: value });
+              }}
+              className="w-20 bg-black border border-white/10 text-white text-right font-mono text-[11px] px-1 py-1"
+            />
+          </label>
+        ))}
+        <button
+          type="button"
+          onClick={progress === null ? run : cancel}
+          className={`px-6 py-2 border font-mono text-[10px] font-bold tracking-widest uppercase ${
+            progress === null
+              ? 'border-cyber-neon text-cyber-neon hover:bg-cyber-neon/10'
+              : 'border-cyber-danger text-cyber-danger hover:bg-cyber-danger/10'
+          }`}
+        >
+          {progress === null ? 'Run Sweep' : 'Cancel'}
+        </button>
+        {progress !== null && (
+          <div className="flex-1 min-w-[120px] h-1 bg-cyber-dark overflow-hidden self-center">
+            <div className="h-full bg-cyber-neon" style={{ width: `${progress * 100}%` }}></div>
+          </div>
+        )}
+        {result && result.rheobase !== null && (
+          <span className="text-[10px] font-mono text-cyber-danger self-center">
+            THRESHOLD {result.rheobase.toFixed(2)}
+          </span>
+        )}
+        {result?.bistable && (
+          <span className="text-[10px] font-mono text-cyber-plasma self-center">
+            BISTABLE {result.bistable[0].toFixed(2)} – {result.bistable[1].toFixed(2)}
+          </span>
+        )}
+      </div>
+      {error && <div className="text-[10px] font-mono text-cyber-danger">{error}</div>}
+
+      {/* f-I / Latency Chart */}
+      <div className="flex-1 min-h-[240px] w-full relative">
+        {result ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={result.points} margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid stroke="#1f2233" strokeDasharray="3 3" opacity={0.3} />
+              <XAxis
+                dataKey="value"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="#565869"
+                tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                label={{ value: parameterLabel, position: 'insideBottom', offset: -10, fill: '#565869', fontSize: 10 }}
+              />
+              <YAxis
+                yAxisId="rate"
+                stroke="#565869"
+                tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                width={40}
+                label={{ value: 'Hz', angle: -90, position: 'insideLeft', fill: '#565869', fontSize: 10 }}
+              />
+              <YAxis
+                yAxisId="latency"
+                orientation="right"
+                stroke="#565869"
+                tick={{fontSize: 9, fontFamily: 'Share Tech Mono', fill: '#565869'}}
+                width={40}
+                label={{ value: 'ms', angle: 90, position: 'insideRight', fill: '#565869', fontSize: 10 }}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#05060a', border: '1px solid #1f2233', color: '#fff', fontSize: '10px' }}
+                formatter={(v: number) => (typeof v === 'number' ? v.toFixed(2) : v)}
+                labelFormatter={(v: number) => `${parameterLabel} = ${Number(v).toFixed(2)}`}
+                isAnimationActive={false}
+              />
+              <Legend wrapperStyle={{ fontSize: '10px', fontFamily: 'Share Tech Mono', opacity: 0.8 }} iconType="rect" iconSize={8} verticalAlign="top" />
+              {result.rheobase !== null && (
+                <ReferenceLine yAxisId="rate" x={result.rheobase} stroke="#ff2a2a" strokeDasharray="2 2" />
+              )}
+              {result.bistable && (
+                <ReferenceArea yAxisId="rate" x1={result.bistable[0]} x2={result.bistable[1]} fill="#9d00ff" fillOpacity={0.12} />
+              )}
+              <Line yAxisId="rate" type="linear" dataKey="rate" stroke="#ffffff" strokeWidth={1.5} dot={{ r: 1.5 }} isAnimationActive={false} name="f (from rest)" />
+              <Line yAxisId="rate" type="stepAfter" dataKey="rateUp" stroke="#00f0ff" strokeWidth={1} dot={false} isAnimationActive={false} name="f (sweep up)" />
+              <Line yAxisId="rate" type="stepBefore" dataKey="rateDown" stroke="#9d00ff" strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} name="f (sweep down)" />
+              <Line yAxisId="latency" type="linear" dataKey="latency" stroke="#ff2a2a" strokeWidth={1} dot={false} connectNulls={false} isAnimationActive={false} name="1st spike latency" />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-[10px] font-mono text-cyber-muted uppercase tracking-widest">
+            Run a sweep to build the f–I curve from the current parameters
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SweepPanel;
@@ -0,0 +1,59 @@
+import React from 'react';
+
+export interface WorkbenchTab {
+  id: string;
+  label: string;
+  content: React.ReactNode;
+}
+
+interface WorkbenchProps {
+  open: boolean;
+  tabs: WorkbenchTab[];
+  activeTab: string;
+  onTabChange: (id: string) => void;
+  onClose: () => void;
+}
+
+// Floating analysis window over the 3D viewport hosting the offline tools.
+// Tabs stay mounted while hidden so results and running jobs survive switching.
+const Workbench: React.FC<WorkbenchProps> = ({ open, tabs, activeTab, onTabChange, onClose }) => {
+  const active = tabs.find(tab => tab.id === activeTab) ?? tabs[0];
+
+  return (
+    <div className={`absolute inset-x-6 bottom-6 top-40 z-30 flex-col ${open ? 'flex' : 'hidden'} bg-cyber-black/90 backdrop-blur-xl border border-white/10 shadow-[0_0_40px_rgba(0,0,0,0.8)]`}>
+      {/* Tab Bar */}
+      <div className="flex items-center border-b border-white/10 shrink-0">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => onTabChange(tab.id)}
+            className={`px-5 py-3 font-mono text-[10px] font-bold tracking-widest uppercase border-r border-white/5 transition-colors duration-200 ${
+              tab.id === active?.id
+                ? 'text-cyber-neon bg-cyber-neon/5 border-b-2 border-b-cyber-neon'
+                : 'text-cyber-muted hover:text-white'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+        <div className="flex-1"></div>
+        <button type="button" onClick={onClose} className="px-4 py-3 text-cyber-muted hover:text-white font-mono text-xs">✕</button>
+      </div>
+
+      {tabs.map(tab => (
+        <div key={tab.id} className={`flex-1 min-h-0 overflow-y-auto custom-scrollbar ${tab.id === active?.id ? 'block' : 'hidden'}`}>
+          {tab.content}
+        </div>
+      ))}
+
+      {/* HUD Corners */}
+      <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-cyber-neon/50 pointer-events-none"></div>
+      <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-cyber-neon/50 pointer-events-none"></div>
+      <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-cyber-neon/50 pointer-events-none"></div>
+      <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-cyber-neon/50 pointer-events-none"></div>
+    </div>
+  );
+};
+
+export default Workbench;
@@ -0,0 +1,159 @@
+import {
+  BifurcationResult, BifurcationSettings, EquilibriumPoint, HHParameters, HHState, LimitCycle, MembraneConditions, SolverSettings,
+} from '../types';
+import { solveHH, getInitialState, createSystem, toVector, steadyStateGates, ionicCurrents } from './hhSolver';
+import { eigenvalues, numericalJacobian } from './linearAlgebra';
+import { stateChannelCurrent } from './channels';
+import { Membrane, DEFAULT_MEMBRANE_CONDITIONS, applyConditions } from './membrane';
+
+export const DEFAULT_BIFURCATION_SETTINGS: BifurcationSettings = {
+  start: 0,
+  end: 200,
+  steps: 81,
+  transient: 150,
+  window: 60,
+};
+
+const V_SCAN: [number, number] = [-100, 60];
+const MIN_CYCLE_AMPLITUDE = 10; // mV peak-to-peak for an oscillation to count as a cycle
+
+// Current needed to hold the membrane at V with every gate at steady state
+const steadyStateCurrent = (V: number, { params, channels, rates }: Membrane): number => {
+  const { m, h, n } = steadyStateGates(V, rates);
+  const { I_Na, I_K, I_L } = ionicCurrents(V, m, h, n, params);
+  return I_Na + I_K + I_L + stateChannelCurrent(channels, { V });
+};
+
+// All equilibria of the full model, library channel gates included, at the given I_ext
+export const findEquilibria = (membrane: Membrane, samples = 800): EquilibriumPoint[] => {
+  const { params, channels, rates } = membrane;
+  const I = params.I_ext;
+  const f = (V: number) => steadyStateCurrent(V, membrane) - I;
+  const system = createSystem(params, undefined, channels, rates);
+  const points: EquilibriumPoint[] = [];
+
+  let prevV = V_SCAN[0];
+  let prevF = f(prevV);
+  for (let i = 1; i <= samples; i++) {
+    const V = V_SCAN[0] + ((V_SCAN[1] - V_SCAN[0]) * i) / samples;
+    const fV = f(V);
+    if ((prevF > 0) !== (fV > 0)) {
+      let lo = prevV, hi = V, flo = prevF;
+      for (let k = 0; k < 60; k++) {
+        const mid = (lo + hi) / 2;
+        const fm = f(mid);
+        if ((fm > 0) === (flo > 0)) { lo = mid; flo = fm; } else hi = mid;
+      }
+      const Veq = (lo + hi) / 2;
+      // Library gates are left out of the state, which puts them at steady state
+      const state: HHState = { V: Veq, ...steadyStateGates(Veq, rates), t: 0 };
+      const J = numericalJacobian(y => system.derivatives(0, y), toVector(state, channels));
+      const lambdas = eigenvalues(J);
+      points.push({ I, V: Veq, state, eigenvalues: lambdas, stable: lambdas.every(l => l.re < 0) });
+    }
+    prevV = V;
+    prevF = fV;
+  }
+  return points;
+};
+
+// Simulates from `initial` and reports a stable oscillation if one persists
+const measureCycle = (
+  initial: HHState, { params, channels, rates }: Membrane, solver: SolverSettings, settings: BifurcationSettings
+): { cycle: LimitCycle | null; final: HHState } => {
+  let state = { ...initial, t: 0 };
+  const transientSteps = Math.ceil(settings.transient / solver.dt);
+  for (let i = 0; i < transientSteps; i++) state = solveHH(state, params, solver.dt, solver, channels, rates);
+
+  const windowSteps = Math.ceil(settings.window / solver.dt);
+  let Vmin = Infinity, Vmax = -Infinity;
+  const V: number[] = [];
+  const t: number[] = [];
+  let maxState = state;
+  for (let i = 0; i < windowSteps; i++) {
+    state = solveHH(state, params, solver.dt, solver, channels, rates);
+    if (!Number.isFinite(state.V)) return { cycle: null, final: getInitialState(rates) };
+    V.push(state.V);
+    t.push(state.t);
+    if (state.V < Vmin) Vmin = state.V;
+    if (state.V > Vmax) { Vmax = state.V; maxState = state; }
+  }
+
+  if (Vmax - Vmin < MIN_CYCLE_AMPLITUDE) return { cycle: null, final: state };
+
+  // Period from upward crossings of the mid-level
+  const mid = (Vmin + Vmax) / 2;
+  const crossings: number[] = [];
+  for (let i = 1; i < V.length; i++) if (V[i - 1] < mid && V[i] >= mid) crossings.push(t[i]);
+  if (crossings.length < 2) return { cycle: null, final: state };
+  const period = (crossings[crossings.length - 1] - crossings[0]) / (crossings.length - 1);
+
+  return {
+    cycle: { I: params.I_ext, Vmin, Vmax, period, state: { ...maxState, t: 0 } },
+    final: state,
+  };
+};
+
+const currentValues = (settings: BifurcationSettings): number[] =>
+  Array.from({ length: settings.steps }, (_, i) =>
+    settings.steps <= 1 ? settings.start : settings.start + ((settings.end - settings.start) * i) / (settings.steps - 1));
+
+// Equilibria by root finding and stability by Jacobian eigenvalues; stable
+// limit cycles by brute-force simulation, continued both up and down in I_ext
+// from a spiking state so coexisting cycles in bistable ranges are found.
+export const runBifurcation = (
+  params: HHParameters,
+  solver: SolverSettings,
+  settings: BifurcationSettings,
+  conditions: MembraneConditions = DEFAULT_MEMBRANE_CONDITIONS,
+  onProgress?: (done: number, total: number) => void
+): BifurcationResult => {
+  const values = currentValues(settings);
+  const total = values.length * 3;
+  let done = 0;
+  const tick = () => onProgress?.(++done, total);
+  const at = (I: number): Membrane => applyConditions({ ...params, I_ext: I }, conditions);
+
+  const equilibria: EquilibriumPoint[] = [];
+  values.forEach(I => {
+    equilibria.push(...findEquilibria(at(I)));
+    tick();
+  });
+
+  const cyclesByIndex = new Map<number, LimitCycle>();
+  const keep = (index: number, cycle: LimitCycle | null) => {
+    if (cycle && !cyclesByIndex.has(index)) cyclesByIndex.set(index, cycle);
+  };
+
+  // Upward pass starts from a depolarised kick so the first cycle is reached quickly
+  let state: HHState = { ...getInitialState(at(params.I_ext).rates), V: -40 };
+  values.forEach((I, index) => {
+    const { cycle, final } = measureCycle(state, at(I), solver, settings);
+    keep(index, cycle);
+    state = cycle ? final : { ...final, V: final.V + 20 };
+    tick();
+  });
+
+  // Downward pass keeps riding the cycle into the region where it coexists with rest
+  for (let index = values.length - 1; index >= 0; index--) {
+    const { cycle, final } = measureCycle(state, at(values[index]), solver, settings);
+    keep(index, cycle);
+    state = final;
+    tick();
+  }
+
+  const cycles = Array.from(cyclesByIndex.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, cycle]) => cycle);
+
+  // Hopf candidates: stability change between consecutive single equilibria
+  const hopf: number[] = [];
+  for (let i = 1; i < equilibria.length; i++) {
+    const a = equilibria[i - 1], b = equilibria[i];
+    if (a.I !== b.I && a.stable !== b.stable && b.eigenvalues.some(l => l.im !== 0)) {
+      hopf.push((a.I + b.I) / 2);
+    }
+  }
+
+  return { settings, equilibria, cycles, hopf };
+};
@@ -0,0 +1,34 @@
+import { BifurcationResult, BifurcationSettings, HHParameters, MembraneConditions, SolverSettings } from '../types';
+import { runBifurcation } from './bifurcation';
+
+// Computes bifurcation diagrams off the main thread. Cancel by terminating the worker.
+
+export type BifurcationCommand = {
+  type: 'run';
+  params: HHParameters;
+  solver: SolverSettings;
+  settings: BifurcationSettings;
+  conditions: MembraneConditions;
+};
+
+export type BifurcationEvent =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: BifurcationResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<BifurcationCommand>) => {
+  const { params, solver, settings, conditions } = e.data;
+  try {
+    const result = runBifurcation(params, solver, settings, conditions, (done, total) => {
+      const event: BifurcationEvent = { type: 'progress', done, total };
+      ctx.postMessage(event);
+    });
+    const event: BifurcationEvent = { type: 'done', result };
+    ctx.postMessage(event);
+  } catch (err) {
+    const event: BifurcationEvent = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(event);
+  }
+};
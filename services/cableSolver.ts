@@ -0,0 +1,233 @@
+import { CableParameters, CableState, HHParameters, HHState, SolverSettings } from '../types';
+import { INTEGRATORS, ODESystem } from './integrators';
+import {
+  ionicCurrents, temperatureFactor, getInitialState, DEFAULT_SOLVER_SETTINGS, HH_RATES, RateFunctions,
+} from './hhSolver';
+import { ActiveChannel, gateCount, gateKinetics, channelCurrent, channelGates } from './channels';
+
+// Compartmental cable: a chain of identical HH compartments coupled by axial
+// resistance, sealed at both ends. Current is injected (or the clamp applied)
+// at a single stimulation site, compartment 0 unless placed elsewhere.
+
+// Squid giant axon
+export const DEFAULT_CABLE: CableParameters = {
+  segments: 1,
+  diameter: 476,
+  length: 2000,
+  Ra: 35.4,
+};
+
+// Coupling conductance between neighbouring compartments per unit membrane area (mS/cm^2)
+export const axialConductance = (cable: CableParameters): number => {
+  const d = cable.diameter * 1e-4; // cm
+  const L = cable.length * 1e-4;   // cm
+  return (d / (4 * cable.Ra * L * L)) * 1000;
+};
+
+// Passive length constant (µm) given the leak conductance
+export const lengthConstant = (cable: CableParameters, params: HHParameters): number => {
+  const Rm = 1000 / params.g_L;    // Ω·cm^2
+  const d = cable.diameter * 1e-4; // cm
+  return Math.sqrt((d * Rm) / (4 * cable.Ra)) * 1e4;
+};
+
+export const createCableState = (cable: CableParameters, from: HHState = getInitialState()): CableState => {
+  const N = Math.max(1, Math.round(cable.segments));
+  const state: CableState = {
+    V: new Array(N).fill(from.V),
+    m: new Array(N).fill(from.m),
+    h: new Array(N).fill(from.h),
+    n: new Array(N).fill(from.n),
+    t: from.t,
+  };
+  if (from.gates) {
+    state.gates = Object.fromEntries(
+      Object.entries(from.gates).map(([id, values]) => [id, values.map(value => new Array(N).fill(value))])
+    );
+  }
+  return state;
+};
+
+export const compartmentState = (state: CableState, index: number): HHState => {
+  const compartment: HHState = {
+    V: state.V[index],
+    m: state.m[index],
+    h: state.h[index],
+    n: state.n[index],
+    t: state.t,
+  };
+  if (state.gates) {
+    compartment.gates = Object.fromEntries(
+      Object.entries(state.gates).map(([id, values]) => [id, values.map(gate => gate[index])])
+    );
+  }
+  return compartment;
+};
+
+// State vectors are laid out [V_0..V_N-1, m_0..m_N-1, h_0..h_N-1, n_0..n_N-1]
+// followed by N values for each gate of each additional channel
+
+// Membrane dynamics of every compartment with the axial coupling left out;
+// that part is handled implicitly in `diffuse`.
+const createMembraneSystem = (
+  params: HHParameters,
+  N: number,
+  site: number,
+  I_inject: number,
+  clampV?: number,
+  channels: ActiveChannel[] = [],
+  rates: RateFunctions = HH_RATES
+): ODESystem => {
+  const { Cm, temperature } = params;
+  const { alpha_m, beta_m, alpha_h, beta_h, alpha_n, beta_n } = rates;
+  const phi = temperatureFactor(temperature);
+  const size = (4 + gateCount(channels)) * N;
+  const gates = channels.flatMap(({ definition }) => definition.gates);
+
+  return {
+    derivatives: (_t, y) => {
+      const dy = new Array<number>(size);
+      for (let i = 0; i < N; i++) {
+        const V = y[i], m = y[N + i], h = y[2 * N + i], n = y[3 * N + i];
+        const { I_Na, I_K, I_L } = ionicCurrents(V, m, h, n, params);
+        const I_channels = gates.length ? channelCurrent(channels, y, V, 4 * N + i, N) : 0;
+        const I_app = i === site ? I_inject : 0;
+
+        dy[i] = clampV !== undefined && i === site ? 0 : (I_app - (I_Na + I_K + I_L + I_channels)) / Cm;
+        dy[N + i] = phi * (alpha_m(V) * (1 - m) - beta_m(V) * m);
+        dy[2 * N + i] = phi * (alpha_h(V) * (1 - h) - beta_h(V) * h);
+        dy[3 * N + i] = phi * (alpha_n(V) * (1 - n) - beta_n(V) * n);
+        gates.forEach((gate, j) => {
+          const index = (4 + j) * N + i;
+          const { inf, tau } = gateKinetics(gate, V, phi);
+          dy[index] = (inf - y[index]) / tau;
+        });
+      }
+      return dy;
+    },
+    gatingKinetics: (_t, y) => {
+      const kinetics = new Array(size).fill(null);
+      const gate = (a: number, b: number) => ({ inf: a / (a + b), tau: 1 / (phi * (a + b)) });
+      for (let i = 0; i < N; i++) {
+        const V = y[i];
+        kinetics[N + i] = gate(alpha_m(V), beta_m(V));
+        kinetics[2 * N + i] = gate(alpha_h(V), beta_h(V));
+        kinetics[3 * N + i] = gate(alpha_n(V), beta_n(V));
+        gates.forEach((channelGate, j) => {
+          kinetics[(4 + j) * N + i] = gateKinetics(channelGate, V, phi);
+        });
+      }
+      return kinetics;
+    },
+  };
+};
+
+// Per-gate compartment arrays of the additional channels, starting missing
+// ones at steady state for each compartment's potential
+const cableGates = (state: CableState, channels: ActiveChannel[]): number[][] =>
+  channels.flatMap(({ definition }) => {
+    const stored = state.gates?.[definition.id];
+    if (stored) return stored;
+    const perCompartment = state.V.map(V => channelGates(undefined, definition, V));
+    return definition.gates.map((_, j) => perCompartment.map(values => values[j]));
+  });
+
+// Backward-Euler step of the axial current along a sealed-end cable
+// (tridiagonal, solved with the Thomas algorithm). Being implicit it stays
+// stable however short or thick the compartments are.
+const diffuse = (V: number[], k: number, clampedIndex: number | null): number[] => {
+  const N = V.length;
+  const lower = new Array<number>(N).fill(-k);
+  const upper = new Array<number>(N).fill(-k);
+  const diag = V.map((_, i) => 1 + k * ((i > 0 ? 1 : 0) + (i < N - 1 ? 1 : 0)));
+  const rhs = V.slice();
+  if (clampedIndex !== null) {
+    diag[clampedIndex] = 1;
+    lower[clampedIndex] = 0;
+    upper[clampedIndex] = 0;
+  }
+
+  for (let i = 1; i < N; i++) {
+    const w = lower[i] / diag[i - 1];
+    diag[i] -= w * upper[i - 1];
+    rhs[i] -= w * rhs[i - 1];
+  }
+  const out = new Array<number>(N);
+  out[N - 1] = rhs[N - 1] / diag[N - 1];
+  for (let i = N - 2; i >= 0; i--) out[i] = (rhs[i] - upper[i] * out[i + 1]) / diag[i];
+  return out;
+};
+
+// One step: axial spread (implicit), then the membrane of each compartment
+// with the selected integrator.
+export const solveCable = (
+  state: CableState,
+  params: HHParameters,
+  cable: CableParameters,
+  dt: number,
+  solver: SolverSettings = DEFAULT_SOLVER_SETTINGS,
+  clampV?: number,
+  site = 0,
+  channels: ActiveChannel[] = [],
+  rates: RateFunctions = HH_RATES
+): CableState => {
+  const N = state.V.length;
+  const V0 = state.V.slice();
+  if (clampV !== undefined) V0[site] = clampV;
+
+  const V = N > 1 ? diffuse(V0, (axialConductance(cable) * dt) / params.Cm, clampV !== undefined ? site : null) : V0;
+  const system = createMembraneSystem(params, N, site, params.I_ext, clampV, channels, rates);
+  const y0 = [...V, ...state.m, ...state.h, ...state.n, ...cableGates(state, channels).flat()];
+  const y = INTEGRATORS[solver.method](system, state.t, y0, dt, solver);
+
+  const next: CableState = {
+    V: y.slice(0, N),
+    m: y.slice(N, 2 * N),
+    h: y.slice(2 * N, 3 * N),
+    n: y.slice(3 * N, 4 * N),
+    t: state.t + dt,
+  };
+  if (channels.length) {
+    let index = 4;
+    next.gates = Object.fromEntries(channels.map(({ definition }) => [
+      definition.id,
+      definition.gates.map(() => {
+        const start = index++ * N;
+        return y.slice(start, start + N);
+      }),
+    ]));
+  }
+  return next;
+};
+
+// Compartment nearest to a position given as a fraction of the cable length
+export const compartmentAt = (fraction: number, N: number): number =>
+  Math.round(Math.min(1, Math.max(0, fraction)) * (N - 1));
+
+// Net axial current flowing into compartment `index` from its neighbours (uA/cm^2)
+export const axialCurrent = (state: CableState, cable: CableParameters, index: number): number => {
+  const { V } = state;
+  const left = index > 0 ? V[index - 1] - V[index] : 0;
+  const right = index < V.length - 1 ? V[index + 1] - V[index] : 0;
+  return axialConductance(cable) * (left + right);
+};
+
+// Compartments between which propagation speed is measured: a quarter and three
+// quarters of the way along the longer stretch of cable leading away from the
+// stimulation site, so the wave reaches them in order and away from the ends.
+// Short cables still keep the far probe at least one compartment past the near one.
+export const velocityProbes = (N: number, site = 0): [number, number] => {
+  const direction = site <= (N - 1) / 2 ? 1 : -1;
+  const span = direction > 0 ? N - 1 - site : site;
+  const near = Math.floor(span * 0.25);
+  const far = Math.min(span, Math.max(near + 1, Math.floor(span * 0.75)));
+  return [site + direction * near, site + direction * far];
+};
+
+// Conduction velocity (m/s) from the spike arrival times (ms) at the two probes
+export const conductionVelocity = (cable: CableParameters, from: number, to: number, tFrom: number, tTo: number): number | null => {
+  const dt = tTo - tFrom;
+  if (!(dt > 0) || to === from) return null;
+  const distance = Math.abs(to - from) * cable.length; // µm
+  return (distance / dt) / 1000;               // µm/ms -> m/s
+};
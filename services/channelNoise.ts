@@ -0,0 +1,206 @@
+import { HHState, HHParameters, NoiseMethod, NoiseSettings, DerivedQuantities } from '../types';
+import { temperatureFactor, membraneQuantities, HH_RATES, RateFunctions } from './hhSolver';
+import { Rng, createRng, gaussian } from './random';
+
+// Channel noise for the point neuron: a finite patch of membrane holds a finite
+// number of channels, so the open fraction fluctuates around the HH mean.
+
+export const NA_CHANNEL_DENSITY = 60; // channels/µm²
+export const K_CHANNEL_DENSITY = 18;  // channels/µm²
+
+// Gillespie cost grows with the channel count, so larger patches use the Langevin
+// approximation, which is already accurate there
+export const MARKOV_MAX_AREA = 200; // µm²
+// Guards a step against runaway event counts (e.g. fast kinetics at high temperature)
+const MAX_EVENTS_PER_STEP = 20000;
+
+export const DEFAULT_NOISE_SETTINGS: NoiseSettings = {
+  method: NoiseMethod.NONE,
+  area: 100,
+  seed: 1,
+};
+
+export const NOISE_LABELS: Record<NoiseMethod, string> = {
+  [NoiseMethod.NONE]: 'Off',
+  [NoiseMethod.LANGEVIN]: 'Langevin',
+  [NoiseMethod.MARKOV]: 'Markov',
+};
+
+export const channelCounts = (area: number): { Na: number; K: number } => ({
+  Na: Math.max(1, Math.round(NA_CHANNEL_DENSITY * area)),
+  K: Math.max(1, Math.round(K_CHANNEL_DENSITY * area)),
+});
+
+// Channels per kinetic state. Na+ state i + 4j has i open m gates and j open
+// h gates (index 7 = m3h1 conducts); K+ state 8 + i has i open n gates (12 conducts).
+const NA_OPEN = 7;
+const K_BASE = 8;
+const K_OPEN = 12;
+const STATE_COUNT = 13;
+
+export interface NoiseRuntime {
+  settings: NoiseSettings;
+  rng: Rng;
+  channels: Float64Array | null; // Channel counts per state, Markov method only
+}
+
+const binomial = (k: number, n: number, p: number): number => {
+  let c = 1;
+  for (let i = 0; i < k; i++) c = (c * (n - i)) / (i + 1);
+  return c * Math.pow(p, k) * Math.pow(1 - p, n - k);
+};
+
+// Splits `total` channels over states in proportion to `weights`, handing the
+// rounding remainder to the largest fractional parts
+const apportion = (total: number, weights: number[]): number[] => {
+  const exact = weights.map(w => w * total);
+  const counts = exact.map(Math.floor);
+  let remainder = total - counts.reduce((a, b) => a + b, 0);
+  const order = exact.map((x, i) => ({ i, frac: x - Math.floor(x) })).sort((a, b) => b.frac - a.frac);
+  for (let k = 0; remainder > 0; k = (k + 1) % order.length, remainder--) counts[order[k].i]++;
+  return counts;
+};
+
+// Channel population in equilibrium with the given gating variables
+const createChannels = (state: HHState, area: number): Float64Array => {
+  const { Na, K } = channelCounts(area);
+  const naWeights: number[] = [];
+  for (let j = 0; j < 2; j++) {
+    for (let i = 0; i < 4; i++) naWeights.push(binomial(i, 3, state.m) * binomial(j, 1, state.h));
+  }
+  const kWeights = [0, 1, 2, 3, 4].map(i => binomial(i, 4, state.n));
+  return Float64Array.from([...apportion(Na, naWeights), ...apportion(K, kWeights)]);
+};
+
+// Keeps the generator and channel population in step with the settings: a new
+// seed restarts the random sequence, a new area or method rebuilds the population.
+// Markov patches above MARKOV_MAX_AREA run as Langevin.
+export const syncNoise = (noise: NoiseRuntime | null, settings: NoiseSettings, state: HHState): NoiseRuntime => {
+  if (noise && noise.settings === settings) return noise;
+  const rng = noise && noise.settings.seed === settings.seed ? noise.rng : createRng(settings.seed);
+  const keep = noise && noise.channels && noise.settings.area === settings.area;
+  const markov = settings.method === NoiseMethod.MARKOV && settings.area <= MARKOV_MAX_AREA;
+  const channels = !markov ? null : keep ? noise.channels : createChannels(state, settings.area);
+  return { settings, rng, channels };
+};
+
+const openFractions = (channels: Float64Array): { Na: number; K: number } => {
+  let Na = 0;
+  let K = 0;
+  for (let s = 0; s < K_BASE; s++) Na += channels[s];
+  for (let s = K_BASE; s < STATE_COUNT; s++) K += channels[s];
+  return { Na: channels[NA_OPEN] / Na, K: channels[K_OPEN] / K };
+};
+
+// Conductances and currents of the channels that are actually open
+export const channelQuantities = (channels: Float64Array, V: number, params: HHParameters): DerivedQuantities => {
+  const open = openFractions(channels);
+  return membraneQuantities(V, open.Na, open.K, params);
+};
+
+// Fraction of open m, h and n gates across the population, for display
+const meanGates = (channels: Float64Array): { m: number; h: number; n: number } => {
+  let Na = 0, m = 0, h = 0, K = 0, n = 0;
+  for (let s = 0; s < K_BASE; s++) {
+    Na += channels[s];
+    m += (s % 4) * channels[s];
+    h += (s >= 4 ? 1 : 0) * channels[s];
+  }
+  for (let s = K_BASE; s < STATE_COUNT; s++) {
+    K += channels[s];
+    n += (s - K_BASE) * channels[s];
+  }
+  return { m: m / (3 * Na), h: h / Na, n: n / (4 * K) };
+};
+
+// Every single-gate transition between channel states; `rate` indexes
+// [α_m, β_m, α_h, β_h, α_n, β_n] and `multiplier` counts the gates that can flip
+const TRANSITIONS: { from: number; to: number; rate: number; multiplier: number }[] = [];
+for (let s = 0; s < K_BASE; s++) {
+  const i = s % 4;
+  if (i < 3) TRANSITIONS.push({ from: s, to: s + 1, rate: 0, multiplier: 3 - i });
+  if (i > 0) TRANSITIONS.push({ from: s, to: s - 1, rate: 1, multiplier: i });
+  TRANSITIONS.push(s < 4 ? { from: s, to: s + 4, rate: 2, multiplier: 1 } : { from: s, to: s - 4, rate: 3, multiplier: 1 });
+}
+for (let i = 0; i <= 4; i++) {
+  if (i < 4) TRANSITIONS.push({ from: K_BASE + i, to: K_BASE + i + 1, rate: 4, multiplier: 4 - i });
+  if (i > 0) TRANSITIONS.push({ from: K_BASE + i, to: K_BASE + i - 1, rate: 5, multiplier: i });
+}
+
+// Gillespie simulation of every channel transition within one step, with the
+// rates frozen at the membrane potential at the start of the step. Stops after
+// MAX_EVENTS_PER_STEP transitions, leaving the rest of the step unsimulated.
+const advanceChannels = (channels: Float64Array, V: number, phi: number, dt: number, rng: Rng, kinetics: RateFunctions) => {
+  const { alpha_m, beta_m, alpha_h, beta_h, alpha_n, beta_n } = kinetics;
+  const rates = [alpha_m(V), beta_m(V), alpha_h(V), beta_h(V), alpha_n(V), beta_n(V)];
+  const rate = TRANSITIONS.map(({ rate, multiplier }) => phi * multiplier * rates[rate]);
+  const propensity = new Float64Array(TRANSITIONS.length);
+
+  let remaining = dt;
+  for (let events = 0; events < MAX_EVENTS_PER_STEP; events++) {
+    let total = 0;
+    for (let k = 0; k < TRANSITIONS.length; k++) {
+      propensity[k] = channels[TRANSITIONS[k].from] * rate[k];
+      total += propensity[k];
+    }
+    if (total <= 0) return;
+    remaining -= -Math.log(1 - rng()) / total;
+    if (remaining < 0) return;
+
+    let pick = rng() * total;
+    let k = 0;
+    while (k < TRANSITIONS.length - 1 && (pick -= propensity[k]) > 0) k++;
+    const { from, to } = TRANSITIONS[k];
+    if (channels[from] === 0) continue; // Rounding landed on an empty state
+    channels[from]--;
+    channels[to]++;
+  }
+};
+
+// Euler–Maruyama step of the gating variables (Fox & Lu), each driven by
+// white noise whose variance shrinks with the number of channels
+const langevinGate = (x: number, a: number, b: number, channels: number, dt: number, rng: Rng): number => {
+  const drift = a * (1 - x) - b * x;
+  const diffusion = Math.sqrt(Math.max(0, (a * (1 - x) + b * x) / channels));
+  return Math.min(1, Math.max(0, x + drift * dt + diffusion * Math.sqrt(dt) * gaussian(rng)));
+};
+
+// Membrane potential after dt with the open fractions held fixed. Solved exactly
+// (exponential Euler), since noise can open enough channels to make forward Euler unstable.
+const relaxVoltage = (V: number, openNa: number, openK: number, params: HHParameters, dt: number): number => {
+  const gNa = params.g_Na * openNa;
+  const gK = params.g_K * openK;
+  const gTotal = gNa + gK + params.g_L;
+  const V_inf = (params.I_ext + gNa * params.E_Na + gK * params.E_K + params.g_L * params.E_L) / gTotal;
+  return V_inf + (V - V_inf) * Math.exp((-dt * gTotal) / params.Cm);
+};
+
+// Advances the point neuron by one step with channel noise. With clampV the
+// potential is held there and only the channels evolve.
+export const stochasticStep = (
+  noise: NoiseRuntime,
+  state: HHState,
+  params: HHParameters,
+  dt: number,
+  clampV?: number,
+  rates: RateFunctions = HH_RATES
+): HHState => {
+  const V = clampV ?? state.V;
+  const phi = temperatureFactor(params.temperature);
+
+  if (noise.channels) {
+    const open = openFractions(noise.channels);
+    advanceChannels(noise.channels, V, phi, dt, noise.rng, rates);
+    return { V: clampV ?? relaxVoltage(V, open.Na, open.K, params, dt), ...meanGates(noise.channels), t: state.t + dt };
+  }
+
+  const { Na, K } = channelCounts(noise.settings.area);
+  const { alpha_m, beta_m, alpha_h, beta_h, alpha_n, beta_n } = rates;
+  return {
+    V: clampV ?? relaxVoltage(V, Math.pow(state.m, 3) * state.h, Math.pow(state.n, 4), params, dt),
+    m: langevinGate(state.m, phi * alpha_m(V), phi * beta_m(V), Na, dt, noise.rng),
+    h: langevinGate(state.h, phi * alpha_h(V), phi * beta_h(V), Na, dt, noise.rng),
+    n: langevinGate(state.n, phi * alpha_n(V), phi * beta_n(V), K, dt, noise.rng),
+    t: state.t + dt,
+  };
+};
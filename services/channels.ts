@@ -0,0 +1,240 @@
+import { ChannelDefinition, ChannelSetting, GateDefinition, HHState } from '../types';
+import { GatingKinetics } from './integrators';
+
+// Library of conductance-based channels that can be added to the classic
+// Na+/K+/leak membrane. Each channel is described by its gates; the solvers
+// integrate whatever the enabled channels declare. Kinetics share the squid
+// axon's Q10 scaling (see temperatureFactor in hhSolver.ts).
+
+const boltzmann = (V: number, half: number, slope: number): number => 1 / (1 + Math.exp((V - half) / slope));
+
+// Connor–Stevens transient K+ current (as given by Dayan & Abbott)
+const A_CURRENT: ChannelDefinition = {
+  id: 'ka',
+  name: 'A-type K+',
+  ion: 'K+',
+  carriers: { K: 1 },
+  description: 'Transient K+ current (Connor–Stevens); delays the first spike and slows repetitive firing',
+  gates: [
+    {
+      name: 'a',
+      power: 3,
+      kinetics: {
+        inf: V => Math.cbrt((0.0761 * Math.exp((V + 94.22) / 31.84)) / (1 + Math.exp((V + 1.17) / 28.93))),
+        tau: V => 0.3632 + 1.158 / (1 + Math.exp((V + 55.96) / 20.12)),
+      },
+    },
+    {
+      name: 'b',
+      power: 1,
+      kinetics: {
+        inf: V => Math.pow(1 + Math.exp((V + 53.3) / 14.54), -4),
+        tau: V => 1.24 + 2.678 / (1 + Math.exp((V + 50) / 16.027)),
+      },
+    },
+  ],
+  g: 5,
+  E: -75,
+};
+
+// Low-threshold Ca2+ current (Huguenard & McCormick); de-inactivates below
+// rest and produces rebound bursts after hyperpolarization
+const T_CURRENT: ChannelDefinition = {
+  id: 'cat',
+  name: 'T-type Ca2+',
+  ion: 'Ca2+',
+  description: 'Low-threshold Ca2+ current (Huguenard–McCormick); rebound bursts after hyperpolarization',
+  gates: [
+    {
+      name: 'm',
+      power: 2,
+      kinetics: {
+        inf: V => boltzmann(V, -57, -6.2),
+        tau: V => 0.612 + 1 / (Math.exp(-(V + 132) / 16.7) + Math.exp((V + 16.8) / 18.2)),
+      },
+    },
+    {
+      name: 'h',
+      power: 1,
+      kinetics: {
+        inf: V => boltzmann(V, -81, 4),
+        tau: V => (V < -80 ? Math.exp((V + 467) / 66.6) : 28 + Math.exp(-(V + 22) / 10.5)),
+      },
+    },
+  ],
+  g: 2,
+  E: 120,
+};
+
+// Hyperpolarization-activated cation current (Huguenard & McCormick)
+const H_CURRENT: ChannelDefinition = {
+  id: 'ih',
+  name: 'HCN Ih',
+  ion: 'Na+/K+',
+  carriers: { Na: 0.3, K: 0.7 }, // Mixed cation current, mostly K+
+  description: 'Hyperpolarization-activated cation current; depolarizing sag during hyperpolarizing steps',
+  gates: [
+    {
+      name: 'q',
+      power: 1,
+      kinetics: {
+        inf: V => boltzmann(V, -75, 5.5),
+        tau: V => 1 / (Math.exp(-14.59 - 0.086 * V) + Math.exp(-1.87 + 0.0701 * V)),
+      },
+    },
+  ],
+  g: 0.5,
+  E: -43,
+};
+
+// Fast-activating, non-inactivating Na+ current
+const PERSISTENT_NA: ChannelDefinition = {
+  id: 'nap',
+  name: 'Persistent Na+',
+  ion: 'Na+',
+  carriers: { Na: 1 },
+  description: 'Non-inactivating Na+ current; amplifies subthreshold depolarization and plateau potentials',
+  gates: [
+    {
+      name: 'p',
+      power: 1,
+      kinetics: {
+        inf: V => boltzmann(V, -52.6, -4.6),
+        tau: () => 0.15,
+      },
+    },
+  ],
+  g: 0.1,
+  E: 50,
+};
+
+const registry = new Map<string, ChannelDefinition>();
+
+export const registerChannel = (definition: ChannelDefinition): void => {
+  registry.set(definition.id, definition);
+};
+
+[A_CURRENT, T_CURRENT, H_CURRENT, PERSISTENT_NA].forEach(registerChannel);
+
+export const channelDefinition = (id: string): ChannelDefinition | undefined => registry.get(id);
+
+// Registered channels in registration order
+export const channelLibrary = (): ChannelDefinition[] => Array.from(registry.values());
+
+export const defaultChannelSetting = (definition: ChannelDefinition): ChannelSetting => ({
+  id: definition.id,
+  enabled: false,
+  g: definition.g,
+  E: definition.E,
+});
+
+export const DEFAULT_CHANNEL_SETTINGS: ChannelSetting[] = channelLibrary().map(defaultChannelSetting);
+
+// Product notation of the open probability, e.g. "a³b"
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+export const gatingFormula = (definition: ChannelDefinition): string =>
+  definition.gates
+    .map(({ name, power }) => name + (power === 1 ? '' : String(power).replace(/\d/g, d => SUPERSCRIPTS[Number(d)])))
+    .join('');
+
+// --- Solver support ---
+
+// An enabled channel with its configured conductance and reversal potential
+export interface ActiveChannel {
+  definition: ChannelDefinition;
+  g: number;
+  E: number;
+}
+
+export const activeChannels = (settings: ChannelSetting[]): ActiveChannel[] =>
+  settings.flatMap(({ id, enabled, g, E }) => {
+    const definition = enabled ? registry.get(id) : undefined;
+    return definition ? [{ definition, g, E }] : [];
+  });
+
+// Number of state variables the channels add to the model
+export const gateCount = (channels: ActiveChannel[]): number =>
+  channels.reduce((count, { definition }) => count + definition.gates.length, 0);
+
+export const gateKinetics = ({ kinetics }: GateDefinition, V: number, phi: number): GatingKinetics => {
+  if ('alpha' in kinetics) {
+    const a = kinetics.alpha(V);
+    const b = kinetics.beta(V);
+    return { inf: a / (a + b), tau: 1 / (phi * (a + b)) };
+  }
+  return { inf: kinetics.inf(V), tau: kinetics.tau(V) / phi };
+};
+
+export const steadyStateChannelGates = (definition: ChannelDefinition, V: number): number[] =>
+  definition.gates.map(gate => gateKinetics(gate, V, 1).inf);
+
+// Gate values of a channel, at steady state for the given potential when it has none yet
+export const channelGates = (gates: Record<string, number[]> | undefined, definition: ChannelDefinition, V: number): number[] =>
+  gates?.[definition.id] ?? steadyStateChannelGates(definition, V);
+
+// Total current (uA/cm^2) through the channels; `values` lists each channel's gates in `channels` order
+export const channelCurrent = (channels: ActiveChannel[], values: number[], V: number, offset = 0, stride = 1): number => {
+  let I = 0;
+  let index = offset;
+  for (const { definition, g, E } of channels) {
+    let p = 1;
+    for (const { power } of definition.gates) {
+      p *= Math.pow(values[index], power);
+      index += stride;
+    }
+    I += g * p * (V - E);
+  }
+  return I;
+};
+
+// Current through the channels given a state's potential and stored gates
+export const stateChannelCurrent = (channels: ActiveChannel[], { V, gates }: Pick<HHState, 'V' | 'gates'>): number =>
+  channels.length ? channelCurrent(channels, packGates(channels, gates, V), V) : 0;
+
+// Na+ and K+ currents (uA/cm^2) the channels carry, by each channel's carrier shares
+export const carriedCurrents = (channels: ActiveChannel[], state: Pick<HHState, 'V' | 'gates'>): { Na: number; K: number } => {
+  let Na = 0;
+  let K = 0;
+  for (const channel of channels) {
+    const { carriers } = channel.definition;
+    if (!carriers) continue;
+    const I = stateChannelCurrent([channel], state);
+    Na += I * (carriers.Na ?? 0);
+    K += I * (carriers.K ?? 0);
+  }
+  return { Na, K };
+};
+
+// Flattened gate values of the channels, e.g. the tail of a solver state vector
+export const packGates = (channels: ActiveChannel[], gates: Record<string, number[]> | undefined, V: number): number[] =>
+  channels.flatMap(({ definition }) => channelGates(gates, definition, V));
+
+export const unpackGates = (channels: ActiveChannel[], values: number[], offset = 0): Record<string, number[]> => {
+  const gates: Record<string, number[]> = {};
+  let index = offset;
+  for (const { definition } of channels) {
+    gates[definition.id] = values.slice(index, index + definition.gates.length);
+    index += definition.gates.length;
+  }
+  return gates;
+};
+
+// Exponential-Euler update of the gates with V held over the step, for
+// integrators that advance the rest of the membrane on their own
+export const relaxGates = (
+  channels: ActiveChannel[],
+  gates: Record<string, number[]> | undefined,
+  V: number,
+  phi: number,
+  dt: number
+): Record<string, number[]> => {
+  const next: Record<string, number[]> = {};
+  for (const { definition } of channels) {
+    const values = channelGates(gates, definition, V);
+    next[definition.id] = definition.gates.map((gate, i) => {
+      const { inf, tau } = gateKinetics(gate, V, phi);
+      return inf + (values[i] - inf) * Math.exp(-dt / tau);
+    });
+  }
+  return next;
+};
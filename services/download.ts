@@ -0,0 +1,12 @@
+// Saves generated content as a file through a temporary object URL.
+export const downloadFile = (filename: string, content: BlobPart, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Filesystem-safe timestamp for generated file names
+export const fileTimestamp = (date = new Date()): string => date.toISOString().replace(/[:.]/g, '-').slice(0, 19);
@@ -0,0 +1,250 @@
+// Small arithmetic language for user-typed kinetics, e.g. "0.1 * vtrap(-(V + 40), 10)".
+// Text is tokenized, parsed into a tree and compiled into nested closures; nothing
+// is ever handed to eval or the Function constructor, and only the names below
+// can be referenced.
+//
+//   sum     := product (("+" | "-") product)*
+//   product := unary (("*" | "/") unary)*
+//   unary   := ("+" | "-") unary | power
+//   power   := primary ("^" unary)?
+//   primary := number | name | name "(" sum ("," sum)* ")" | "(" sum ")"
+
+export interface ExpressionError {
+  message: string;
+  position: number | null; // Character offset into the source text; null when the value, not the syntax, is at fault
+}
+
+export type CompiledExpression = (V: number) => number;
+
+export type CompileResult =
+  | { evaluate: CompiledExpression; error: null }
+  | { evaluate: null; error: ExpressionError };
+
+// x / (exp(x / y) - 1), continued smoothly through its removable singularity at x = 0
+const vtrap = (x: number, y: number): number =>
+  Math.abs(x / y) < 1e-6 ? y * (1 - x / y / 2) : x / (Math.exp(x / y) - 1);
+
+// Maps rather than object literals, so names like "constructor" resolve to nothing
+const FUNCTIONS = new Map<string, { arity: [number, number]; apply: (...args: number[]) => number }>([
+  ['exp', { arity: [1, 1], apply: Math.exp }],
+  ['log', { arity: [1, 1], apply: Math.log }],
+  ['log10', { arity: [1, 1], apply: Math.log10 }],
+  ['sqrt', { arity: [1, 1], apply: Math.sqrt }],
+  ['abs', { arity: [1, 1], apply: Math.abs }],
+  ['tanh', { arity: [1, 1], apply: Math.tanh }],
+  ['cosh', { arity: [1, 1], apply: Math.cosh }],
+  ['sinh', { arity: [1, 1], apply: Math.sinh }],
+  ['pow', { arity: [2, 2], apply: Math.pow }],
+  ['min', { arity: [2, Infinity], apply: Math.min }],
+  ['max', { arity: [2, Infinity], apply: Math.max }],
+  ['vtrap', { arity: [2, 2], apply: vtrap }],
+]);
+
+const CONSTANTS = new Map<string, number>([['pi', Math.PI], ['e', Math.E]]);
+
+export const EXPRESSION_FUNCTIONS = Array.from(FUNCTIONS.keys());
+
+// --- Tokenizer ---
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'name'; name: string; position: number }
+  | { kind: 'symbol'; symbol: string; position: number }
+  | { kind: 'end'; position: number };
+
+// Thrown inside the parser and turned into an ExpressionError at the boundary
+class ParseFailure {
+  constructor(readonly message: string, readonly position: number) {}
+}
+
+const NUMBER = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+const SYMBOLS = '+-*/^(),';
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const rest = text.slice(i);
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = NAME.exec(rest);
+    if (name) {
+      tokens.push({ kind: 'name', name: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+    if (SYMBOLS.includes(char)) {
+      tokens.push({ kind: 'symbol', symbol: char, position: i });
+      i++;
+      continue;
+    }
+    throw new ParseFailure(`Unexpected character "${char}"`, i);
+  }
+  tokens.push({ kind: 'end', position: text.length });
+  return tokens;
+};
+
+// --- Parser / compiler ---
+
+// A compiled node; `constant` is set when it does not depend on V, so it can be folded
+interface Node {
+  evaluate: CompiledExpression;
+  constant: number | null;
+}
+
+const constantNode = (value: number): Node => ({ evaluate: () => value, constant: value });
+
+// Folds the operation when every operand is constant
+const combine = (operands: Node[], apply: (...values: number[]) => number): Node => {
+  if (operands.every(node => node.constant !== null)) {
+    return constantNode(apply(...operands.map(node => node.constant as number)));
+  }
+  const evaluators = operands.map(node => node.evaluate);
+  if (evaluators.length === 1) {
+    const [a] = evaluators;
+    return { evaluate: V => apply(a(V)), constant: null };
+  }
+  if (evaluators.length === 2) {
+    const [a, b] = evaluators;
+    return { evaluate: V => apply(a(V), b(V)), constant: null };
+  }
+  return { evaluate: V => apply(...evaluators.map(f => f(V))), constant: null };
+};
+
+const BINARY: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': Math.pow,
+};
+
+const describe = (token: Token): string => {
+  switch (token.kind) {
+    case 'number': return `number ${token.value}`;
+    case 'name': return `"${token.name}"`;
+    case 'symbol': return `"${token.symbol}"`;
+    case 'end': return 'end of expression';
+  }
+};
+
+const parse = (tokens: Token[]): Node => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token.kind === 'symbol' && token.symbol === symbol;
+  };
+  const takeOperator = () => BINARY[(tokens[index++] as Extract<Token, { kind: 'symbol' }>).symbol];
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new ParseFailure(`Expected "${symbol}" but found ${describe(peek())}`, peek().position);
+    index++;
+  };
+
+  const sum = (): Node => {
+    let left = product();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = takeOperator();
+      left = combine([left, product()], op);
+    }
+    return left;
+  };
+
+  const product = (): Node => {
+    let left = unary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const op = takeOperator();
+      left = combine([left, unary()], op);
+    }
+    return left;
+  };
+
+  const unary = (): Node => {
+    if (isSymbol('-')) {
+      index++;
+      return combine([unary()], a => -a);
+    }
+    if (isSymbol('+')) {
+      index++;
+      return unary();
+    }
+    return power();
+  };
+
+  // Right-associative, and binds tighter than unary minus on its left: -2^2 = -4
+  const power = (): Node => {
+    const base = primary();
+    if (!isSymbol('^')) return base;
+    index++;
+    return combine([base, unary()], BINARY['^']);
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index++;
+      return constantNode(token.value);
+    }
+    if (token.kind === 'symbol' && token.symbol === '(') {
+      index++;
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    if (token.kind === 'name') {
+      index++;
+      if (isSymbol('(')) return call(token.name, token.position);
+      if (token.name === 'V') return { evaluate: V => V, constant: null };
+      const constant = CONSTANTS.get(token.name);
+      if (constant !== undefined) return constantNode(constant);
+      if (FUNCTIONS.has(token.name)) throw new ParseFailure(`Function "${token.name}" needs arguments in parentheses`, token.position);
+      const hint = token.name.toLowerCase() === 'v' ? ' (the membrane potential is "V")' : '';
+      throw new ParseFailure(`Unknown name "${token.name}"${hint}`, token.position);
+    }
+    throw new ParseFailure(`Expected a value but found ${describe(token)}`, token.position);
+  };
+
+  const call = (name: string, position: number): Node => {
+    const fn = FUNCTIONS.get(name);
+    if (!fn) throw new ParseFailure(`Unknown function "${name}"`, position);
+    expect('(');
+    const args = [sum()];
+    while (isSymbol(',')) {
+      index++;
+      args.push(sum());
+    }
+    expect(')');
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}–${max}`;
+      throw new ParseFailure(`${name}() takes ${expected} argument${min === 1 && max === 1 ? '' : 's'}, got ${args.length}`, position);
+    }
+    return combine(args, fn.apply);
+  };
+
+  const root = sum();
+  if (peek().kind !== 'end') throw new ParseFailure(`Unexpected ${describe(peek())}`, peek().position);
+  return root;
+};
+
+export const compileExpression = (text: string): CompileResult => {
+  try {
+    if (!text.trim()) throw new ParseFailure('Expression is empty', 0);
+    return { evaluate: parse(tokenize(text)).evaluate, error: null };
+  } catch (failure) {
+    if (failure instanceof ParseFailure) {
+      return { evaluate: null, error: { message: failure.message, position: failure.position } };
+    }
+    throw failure;
+  }
+};
@@ -0,0 +1,36 @@
+import { FitProgress, FitResult, FitSettings, HHParameters, MembraneConditions, ReferenceTrace, SolverSettings, StimulusProtocol } from '../types';
+import { runFit } from './parameterFit';
+
+// Fits model parameters to a recorded trace off the main thread. Cancel by terminating the worker.
+
+export type FitCommand = {
+  type: 'run';
+  params: HHParameters;
+  solver: SolverSettings;
+  stimulus: StimulusProtocol;
+  target: ReferenceTrace;
+  settings: FitSettings;
+  conditions: MembraneConditions;
+};
+
+export type FitEvent =
+  | { type: 'progress'; progress: FitProgress }
+  | { type: 'done'; result: FitResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<FitCommand>) => {
+  const { params, solver, stimulus, target, settings, conditions } = e.data;
+  try {
+    const result = runFit(params, solver, stimulus, target, settings, conditions, (evaluations, cost, best) => {
+      const event: FitEvent = { type: 'progress', progress: { evaluations, cost, params: best } };
+      ctx.postMessage(event);
+    });
+    const event: FitEvent = { type: 'done', result };
+    ctx.postMessage(event);
+  } catch (err) {
+    const event: FitEvent = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(event);
+  }
+};
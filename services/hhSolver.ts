@@ -1,4 +1,6 @@
-import { HHState, HHParameters } from '../types';
+import { HHState, HHParameters, IntegratorMethod, SolverSettings, DerivedQuantities, RateName } from '../types';
+import { INTEGRATORS, ODESystem, GatingKinetics } from './integrators';
+import { ActiveChannel, gateCount, gateKinetics, channelCurrent, packGates, unpackGates } from './channels';
 
 // Rate functions (shifted to resting potential ~ -65mV for modern convention)
 // Usually alpha/beta are defined relative to resting potential V_rest = 0 in original paper.
@@ -6,78 +8,201 @@ import { HHState, HHParameters } from '../types';
 // Standard conversion: V_rest = -65mV.
 // We use the form from commonly used computational neuroscience resources.
 
-const alpha_n = (V: number): number => {
+export const alpha_n = (V: number): number => {
   const v = V + 65; // shift
   // 0.01 * (10 - v) / (exp((10 - v) / 10) - 1) which is equivalent to:
   if (Math.abs(v - 10) < 1e-6) return 0.1; // singularity handling
   return (0.01 * (10 - v)) / (Math.exp((10 - v) / 10) - 1);
 };
 
-const beta_n = (V: number): number => {
+export const beta_n = (V: number): number => {
   const v = V + 65;
   return 0.125 * Math.exp(-v / 80);
 };
 
-const alpha_m = (V: number): number => {
+export const alpha_m = (V: number): number => {
   const v = V + 65;
   if (Math.abs(v - 25) < 1e-6) return 1;
   return (0.1 * (25 - v)) / (Math.exp((25 - v) / 10) - 1);
 };
 
-const beta_m = (V: number): number => {
+export const beta_m = (V: number): number => {
   const v = V + 65;
   return 4 * Math.exp(-v / 18);
 };
 
-const alpha_h = (V: number): number => {
+export const alpha_h = (V: number): number => {
   const v = V + 65;
   return 0.07 * Math.exp(-v / 20);
 };
 
-const beta_h = (V: number): number => {
+export const beta_h = (V: number): number => {
   const v = V + 65;
   return 1 / (Math.exp((30 - v) / 10) + 1);
 };
 
-export const solveHH = (state: HHState, params: HHParameters, dt: number): HHState => {
-  const { V, m, h, n, t } = state;
-  const { Cm, E_Na, E_K, E_L, g_Na, g_K, g_L, I_ext } = params;
+// The six rate functions as a set, so user-defined kinetics can stand in for them
+export type RateFunctions = Record<RateName, (V: number) => number>;
 
-  // Calculate Currents
-  const I_Na = g_Na * Math.pow(m, 3) * h * (V - E_Na);
-  const I_K = g_K * Math.pow(n, 4) * (V - E_K);
-  const I_L = g_L * (V - E_L);
+export const HH_RATES: RateFunctions = { alpha_m, beta_m, alpha_h, beta_h, alpha_n, beta_n };
 
-  // dV/dt
-  const dV = (I_ext - (I_Na + I_K + I_L)) / Cm;
+// Temperature dependence: rate constants were measured at 6.3 °C in the squid axon
+// and scale by Q10 = 3 for every 10 °C.
+export const Q10 = 3;
+export const T_REF = 6.3; // °C
 
-  // Gating variable derivatives
-  const dm = alpha_m(V) * (1 - m) - beta_m(V) * m;
-  const dh = alpha_h(V) * (1 - h) - beta_h(V) * h;
-  const dn = alpha_n(V) * (1 - n) - beta_n(V) * n;
+export const temperatureFactor = (temperature: number): number =>
+  Math.pow(Q10, (temperature - T_REF) / 10);
 
-  // Euler Integration
+export const DEFAULT_SOLVER_SETTINGS: SolverSettings = {
+  method: IntegratorMethod.EULER,
+  dt: 0.05,
+  rtol: 1e-4,
+  atol: 1e-6,
+};
+
+// State vector layout: [V, m, h, n, ...gates of each additional channel]
+export const toVector = (state: HHState, channels: ActiveChannel[] = []): number[] =>
+  [state.V, state.m, state.h, state.n, ...packGates(channels, state.gates, state.V)];
+
+// State from a solver vector; gates are kept only while additional channels are active
+const fromVector = (y: number[], t: number, channels: ActiveChannel[]): HHState => {
+  const [V, m, h, n] = y;
+  return channels.length ? { V, m, h, n, t, gates: unpackGates(channels, y, 4) } : { V, m, h, n, t };
+};
+
+export interface IonicCurrents {
+  I_Na: number; // uA/cm^2
+  I_K: number;  // uA/cm^2
+  I_L: number;  // uA/cm^2
+}
+
+export const ionicCurrents = (V: number, m: number, h: number, n: number, params: HHParameters): IonicCurrents => ({
+  I_Na: params.g_Na * Math.pow(m, 3) * h * (V - params.E_Na),
+  I_K: params.g_K * Math.pow(n, 4) * (V - params.E_K),
+  I_L: params.g_L * (V - params.E_L),
+});
+
+// Open conductances, driving forces and the currents they produce, given the
+// open fractions of the Na+ and K+ conductances
+export const membraneQuantities = (V: number, openNa: number, openK: number, params: HHParameters): DerivedQuantities => {
+  const g_Na = params.g_Na * openNa;
+  const g_K = params.g_K * openK;
+  const drive_Na = V - params.E_Na;
+  const drive_K = V - params.E_K;
+  const drive_L = V - params.E_L;
   return {
-    V: V + dV * dt,
-    m: m + dm * dt,
-    h: h + dh * dt,
-    n: n + dn * dt,
-    t: t + dt,
+    I_Na: g_Na * drive_Na,
+    I_K: g_K * drive_K,
+    I_L: params.g_L * drive_L,
+    g_Na,
+    g_K,
+    g_L: params.g_L,
+    drive_Na,
+    drive_K,
+    drive_L,
   };
 };
 
-export const getInitialState = (): HHState => {
-  // Approximate steady state at -65mV
-  const V_rest = -65;
-  const a_m = alpha_m(V_rest), b_m = beta_m(V_rest);
-  const a_h = alpha_h(V_rest), b_h = beta_h(V_rest);
-  const a_n = alpha_n(V_rest), b_n = beta_n(V_rest);
+export const derivedQuantities = ({ V, m, h, n }: HHState, params: HHParameters): DerivedQuantities =>
+  membraneQuantities(V, Math.pow(m, 3) * h, Math.pow(n, 4), params);
+
+// Kinetics of the additional channels' gates at V, in state vector order
+const channelKinetics = (channels: ActiveChannel[], V: number, phi: number): GatingKinetics[] =>
+  channels.flatMap(({ definition }) => definition.gates.map(gate => gateKinetics(gate, V, phi)));
+
+// When clampV is given the membrane potential is held at that value and only
+// the gating variables evolve (ideal voltage clamp). Additional channels
+// contribute their currents and gates on top of the classic Na+/K+/leak membrane.
+export const createSystem = (
+  params: HHParameters,
+  clampV?: number,
+  channels: ActiveChannel[] = [],
+  rates: RateFunctions = HH_RATES
+): ODESystem => {
+  const { Cm, I_ext, temperature } = params;
+  const { alpha_m, beta_m, alpha_h, beta_h, alpha_n, beta_n } = rates;
+  const phi = temperatureFactor(temperature);
+  const clamped = clampV !== undefined;
+  const extra = gateCount(channels);
+
+  return {
+    derivatives: (_t, y) => {
+      const [V, m, h, n] = y;
+      // Calculate Currents
+      const { I_Na, I_K, I_L } = ionicCurrents(V, m, h, n, params);
+      const I_channels = extra ? channelCurrent(channels, y, V, 4) : 0;
+
+      // dV/dt
+      const dV = clamped ? 0 : (I_ext - (I_Na + I_K + I_L + I_channels)) / Cm;
+
+      // Gating variable derivatives
+      const dm = phi * (alpha_m(V) * (1 - m) - beta_m(V) * m);
+      const dh = phi * (alpha_h(V) * (1 - h) - beta_h(V) * h);
+      const dn = phi * (alpha_n(V) * (1 - n) - beta_n(V) * n);
+      if (!extra) return [dV, dm, dh, dn];
+
+      const dGates = channelKinetics(channels, V, phi).map(({ inf, tau }, i) => (inf - y[4 + i]) / tau);
+      return [dV, dm, dh, dn, ...dGates];
+    },
+    gatingKinetics: (_t, [V]) => {
+      const kinetics = (a: number, b: number) => ({ inf: a / (a + b), tau: 1 / (phi * (a + b)) });
+      return [
+        null,
+        kinetics(alpha_m(V), beta_m(V)),
+        kinetics(alpha_h(V), beta_h(V)),
+        kinetics(alpha_n(V), beta_n(V)),
+        ...channelKinetics(channels, V, phi),
+      ];
+    },
+  };
+};
+
+export const solveHH = (
+  state: HHState,
+  params: HHParameters,
+  dt: number,
+  solver: SolverSettings = DEFAULT_SOLVER_SETTINGS,
+  channels: ActiveChannel[] = [],
+  rates: RateFunctions = HH_RATES
+): HHState => {
+  const integrate = INTEGRATORS[solver.method];
+  const y = integrate(createSystem(params, undefined, channels, rates), state.t, toVector(state, channels), dt, solver);
+
+  return fromVector(y, state.t + dt, channels);
+};
+
+// Advances the gating variables with V forced to the command potential.
+export const clampHH = (
+  state: HHState,
+  params: HHParameters,
+  V_cmd: number,
+  dt: number,
+  solver: SolverSettings = DEFAULT_SOLVER_SETTINGS,
+  channels: ActiveChannel[] = [],
+  rates: RateFunctions = HH_RATES
+): HHState => {
+  const integrate = INTEGRATORS[solver.method];
+  const y = integrate(createSystem(params, V_cmd, channels, rates), state.t, toVector({ ...state, V: V_cmd }, channels), dt, solver);
+
+  return fromVector([V_cmd, ...y.slice(1)], state.t + dt, channels);
+};
+
+// Steady-state gating variables at a fixed membrane potential
+export const steadyStateGates = (V: number, rates: RateFunctions = HH_RATES): { m: number; h: number; n: number } => {
+  const a_m = rates.alpha_m(V), b_m = rates.beta_m(V);
+  const a_h = rates.alpha_h(V), b_h = rates.beta_h(V);
+  const a_n = rates.alpha_n(V), b_n = rates.beta_n(V);
 
   return {
-    V: V_rest,
     m: a_m / (a_m + b_m),
     h: a_h / (a_h + b_h),
     n: a_n / (a_n + b_n),
-    t: 0,
   };
-};
\ No newline at end of file
+};
+
+export const getInitialState = (rates: RateFunctions = HH_RATES): HHState => {
+  // Approximate steady state at -65mV
+  const V_rest = -65;
+  return { V: V_rest, ...steadyStateGates(V_rest, rates), t: 0 };
+};
@@ -0,0 +1,135 @@
+import { IntegratorMethod, SolverSettings } from '../types';
+
+// Numerical integrators operating on a flat state vector.
+// The model (see hhSolver.ts) describes itself as an ODESystem so the same
+// integrators can be reused for any conductance-based formulation.
+
+export interface GatingKinetics {
+  inf: number; // Steady-state value
+  tau: number; // Time constant (ms)
+}
+
+export interface ODESystem {
+  // dy/dt evaluated at (t, y)
+  derivatives: (t: number, y: number[]) => number[];
+  // For each component: linear first-order kinetics (gating variables) or null
+  // when the component has to be integrated explicitly (e.g. membrane potential).
+  gatingKinetics: (t: number, y: number[]) => (GatingKinetics | null)[];
+}
+
+export type Integrator = (system: ODESystem, t: number, y: number[], dt: number, settings: SolverSettings) => number[];
+
+// y + h * sum(c_i * k_i)
+const combine = (y: number[], h: number, ks: number[][], cs: number[]): number[] => {
+  const out = y.slice();
+  for (let j = 0; j < cs.length; j++) {
+    const c = cs[j];
+    if (c === 0) continue;
+    const k = ks[j];
+    for (let i = 0; i < out.length; i++) out[i] += h * c * k[i];
+  }
+  return out;
+};
+
+const eulerStep: Integrator = (system, t, y, dt) => {
+  const k1 = system.derivatives(t, y);
+  return combine(y, dt, [k1], [1]);
+};
+
+const rk4Step: Integrator = (system, t, y, dt) => {
+  const k1 = system.derivatives(t, y);
+  const k2 = system.derivatives(t + dt / 2, combine(y, dt / 2, [k1], [1]));
+  const k3 = system.derivatives(t + dt / 2, combine(y, dt / 2, [k2], [1]));
+  const k4 = system.derivatives(t + dt, combine(y, dt, [k3], [1]));
+  return combine(y, dt / 6, [k1, k2, k3, k4], [1, 2, 2, 1]);
+};
+
+const exponentialEulerStep: Integrator = (system, t, y, dt) => {
+  const dy = system.derivatives(t, y);
+  const kinetics = system.gatingKinetics(t, y);
+
+  return y.map((value, i) => {
+    const gate = kinetics[i];
+    if (!gate) return value + dy[i] * dt;
+    // Exact solution of dx/dt = (inf - x) / tau with V frozen over the step
+    return gate.inf + (value - gate.inf) * Math.exp(-dt / gate.tau);
+  });
+};
+
+// Dormand-Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+const MIN_SUBSTEP = 1e-6; // ms
+const MAX_SUBSTEPS = 10000;
+
+// Integrates across the whole interval [t, t + dt] with as many adaptive
+// sub-steps as the tolerances require. A non-finite error estimate means the
+// state has already blown up, so the step is taken as is (like the fixed-step
+// methods); running out of sub-steps short of the interval end throws.
+const rk45Step: Integrator = (system, t, y, dt, settings) => {
+  const { rtol, atol } = settings;
+  const tEnd = t + dt;
+  let h = dt;
+  let current = y;
+  let time = t;
+
+  for (let iter = 0; iter < MAX_SUBSTEPS && time < tEnd; iter++) {
+    h = Math.min(h, tEnd - time);
+
+    const ks: number[][] = [];
+    for (let s = 0; s < DP_C.length; s++) {
+      ks.push(system.derivatives(time + DP_C[s] * h, combine(current, h, ks, DP_A[s])));
+    }
+    const y5 = combine(current, h, ks, DP_B5);
+    const y4 = combine(current, h, ks, DP_B4);
+
+    // Scaled RMS error norm
+    let err = 0;
+    for (let i = 0; i < y5.length; i++) {
+      const scale = atol + rtol * Math.max(Math.abs(current[i]), Math.abs(y5[i]));
+      const e = (y5[i] - y4[i]) / scale;
+      err += e * e;
+    }
+    err = Math.sqrt(err / y5.length);
+    if (!Number.isFinite(err)) return y5;
+
+    if (err <= 1 || h <= MIN_SUBSTEP) {
+      current = y5;
+      time += h;
+    }
+
+    // Standard step-size controller with safety factor and growth limits
+    const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -1 / 5)));
+    h = Math.max(MIN_SUBSTEP, h * factor);
+  }
+
+  if (time < tEnd) {
+    throw new Error(`RK45 needed more than ${MAX_SUBSTEPS} sub-steps for one ${dt} ms step at t = ${t.toFixed(2)} ms; loosen the tolerances or reduce dt`);
+  }
+  return current;
+};
+
+export const INTEGRATORS: Record<IntegratorMethod, Integrator> = {
+  [IntegratorMethod.EULER]: eulerStep,
+  [IntegratorMethod.RK4]: rk4Step,
+  [IntegratorMethod.EXP_EULER]: exponentialEulerStep,
+  [IntegratorMethod.RK45]: rk45Step,
+};
+
+export const INTEGRATOR_LABELS: Record<IntegratorMethod, string> = {
+  [IntegratorMethod.EULER]: 'Euler',
+  [IntegratorMethod.RK4]: 'RK4',
+  [IntegratorMethod.EXP_EULER]: 'Exp-Euler',
+  [IntegratorMethod.RK45]: 'RK45',
+};
@@ -0,0 +1,115 @@
+import { IonConcentrations, IonicEnvironment, IonicState, LeakComposition, ReversalPotentials } from '../types';
+import { IonicCurrents } from './hhSolver';
+
+// Reversal potentials from ion concentrations (Nernst), the Goldman–Hodgkin–Katz
+// resting potential, and slow concentration changes driven by the membrane
+// currents and the electrogenic Na+/K+ pump.
+
+const R = 8.314;    // J/(mol·K)
+const F = 96485;    // C/mol
+const KELVIN = 273.15;
+
+// Squid giant axon
+export const SQUID_CONCENTRATIONS: IonConcentrations = {
+  Na_i: 50,
+  Na_o: 440,
+  K_i: 400,
+  K_o: 20,
+  Cl_i: 40,
+  Cl_o: 560,
+};
+
+// Relative resting permeabilities P_K : P_Na : P_Cl (Hodgkin & Katz, 1949)
+export const GHK_PERMEABILITY = { K: 1, Na: 0.04, Cl: 0.45 };
+
+export const DEFAULT_IONIC_ENVIRONMENT: IonicEnvironment = {
+  enabled: false,
+  concentrations: SQUID_CONCENTRATIONS,
+  leak: { Na: 0.1, K: 0.3, Cl: 0.6 }, // Puts E_L at HH's -54.4 mV with the squid concentrations at 6.3 °C
+  dynamic: false,
+  pumpMax: 1.9, // Roughly balances the resting Na+ and K+ leaks
+  shellThickness: 30,
+  clearance: 50,
+};
+
+export const ENVIRONMENT_PRESETS: { name: string; concentrations: IonConcentrations }[] = [
+  { name: 'Normal', concentrations: SQUID_CONCENTRATIONS },
+  { name: 'Hyperkalemia', concentrations: { ...SQUID_CONCENTRATIONS, K_o: 60 } },
+  { name: 'Low Na+ₒ', concentrations: { ...SQUID_CONCENTRATIONS, Na_o: 220 } },
+];
+
+// Concentration sets compared by value; configs reach the worker as structured clones
+export const sameConcentrations = (a: IonConcentrations, b: IonConcentrations): boolean =>
+  (Object.keys(a) as (keyof IonConcentrations)[]).every(key => a[key] === b[key]);
+
+// RT/F in mV
+export const thermalVoltage = (temperature: number): number => (1000 * R * (temperature + KELVIN)) / F;
+
+export const nernst = (z: number, outside: number, inside: number, temperature: number): number =>
+  (thermalVoltage(temperature) / z) * Math.log(outside / inside);
+
+export const reversalPotentials = (c: IonConcentrations, temperature: number, leak: LeakComposition): ReversalPotentials => {
+  const E_Na = nernst(1, c.Na_o, c.Na_i, temperature);
+  const E_K = nernst(1, c.K_o, c.K_i, temperature);
+  const E_Cl = nernst(-1, c.Cl_o, c.Cl_i, temperature);
+  const total = leak.Na + leak.K + leak.Cl;
+  return { E_Na, E_K, E_Cl, E_L: (leak.Na * E_Na + leak.K * E_K + leak.Cl * E_Cl) / total };
+};
+
+// Goldman–Hodgkin–Katz voltage equation with the resting permeabilities
+export const ghkPotential = (c: IonConcentrations, temperature: number): number => {
+  const p = GHK_PERMEABILITY;
+  return thermalVoltage(temperature) * Math.log(
+    (p.K * c.K_o + p.Na * c.Na_o + p.Cl * c.Cl_i) / (p.K * c.K_i + p.Na * c.Na_i + p.Cl * c.Cl_o)
+  );
+};
+
+const PUMP_KM_NA = 10;  // mM, intracellular Na+ half-activation
+const PUMP_KM_K = 1.5;  // mM, extracellular K+ half-activation
+
+// Outward current of the 3 Na+ out / 2 K+ in pump
+export const pumpCurrent = (c: IonConcentrations, pumpMax: number): number =>
+  pumpMax / (1 + Math.pow(PUMP_KM_NA / c.Na_i, 1.5)) / (1 + PUMP_KM_K / c.K_o);
+
+export const ionicState = (concentrations: IonConcentrations, environment: IonicEnvironment, temperature: number): IonicState => ({
+  concentrations,
+  reversal: reversalPotentials(concentrations, temperature, environment.leak),
+  I_pump: environment.dynamic ? pumpCurrent(concentrations, environment.pumpMax) : 0,
+});
+
+// Concentrations after dt (ms) of the given currents (µA/cm², outward positive).
+// Intracellular changes scale with the axon's surface-to-volume ratio, K_o with
+// the thin periaxonal space, which also exchanges K+ with the bath. Cl- and the
+// bath concentrations stay fixed.
+export const advanceConcentrations = (
+  state: IonicState,
+  currents: IonicCurrents,
+  V: number,
+  g_L: number,
+  environment: IonicEnvironment,
+  diameter: number,
+  dt: number
+): IonConcentrations => {
+  const c = state.concentrations;
+  const { leak } = environment;
+  const share = leak.Na + leak.K + leak.Cl;
+  // Leak current split by ion (chord conductance model)
+  const leakNa = ((g_L * leak.Na) / share) * (V - state.reversal.E_Na);
+  const leakK = ((g_L * leak.K) / share) * (V - state.reversal.E_K);
+
+  const I_Na = currents.I_Na + leakNa + 3 * state.I_pump;
+  const I_K = currents.I_K + leakK - 2 * state.I_pump;
+
+  // µA/cm² → mM/ms for a compartment with the given surface-to-volume ratio (1/cm)
+  const rate = (surfaceToVolume: number) => (surfaceToVolume * dt) / (1000 * F);
+  const inside = rate(4 / (diameter * 1e-4));
+  const outside = rate(1 / (environment.shellThickness * 1e-7));
+  const bath = environment.concentrations.K_o;
+
+  return {
+    ...c,
+    Na_i: Math.max(1e-3, c.Na_i - I_Na * inside),
+    K_i: Math.max(1e-3, c.K_i - I_K * inside),
+    K_o: Math.max(1e-3, c.K_o + I_K * outside - ((c.K_o - bath) * dt) / environment.clearance),
+  };
+};
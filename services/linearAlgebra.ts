@@ -0,0 +1,79 @@
+// Small dense linear-algebra helpers for stability analysis.
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+// Characteristic polynomial coefficients [1, c1, ..., cn] of a square matrix
+// (Faddeev-LeVerrier): det(λI - A) = λ^n + c1 λ^(n-1) + ... + cn
+const characteristicPolynomial = (A: number[][]): number[] => {
+  const n = A.length;
+  const coeffs = [1];
+  let M = A.map(row => row.map(() => 0)); // M_0 = 0
+
+  for (let k = 1; k <= n; k++) {
+    // M_k = A M_{k-1} + c_{k-1} I
+    const AM = A.map(row => row.map((_, j) => row.reduce((acc, a, l) => acc + a * M[l][j], 0)));
+    M = AM.map((row, i) => row.map((v, j) => v + (i === j ? coeffs[k - 1] : 0)));
+    // c_k = -tr(A M_k) / k
+    let trace = 0;
+    for (let i = 0; i < n; i++) for (let l = 0; l < n; l++) trace += A[i][l] * M[l][i];
+    coeffs.push(-trace / k);
+  }
+  return coeffs;
+};
+
+const cmul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+const csub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+const cdiv = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+
+// Roots of a monic polynomial by Durand-Kerner iteration
+const polynomialRoots = (coeffs: number[]): Complex[] => {
+  const n = coeffs.length - 1;
+  const bound = 1 + Math.max(...coeffs.slice(1).map(Math.abs));
+  let roots: Complex[] = Array.from({ length: n }, (_, k) => ({
+    re: bound * Math.cos((2 * Math.PI * k) / n + 0.4),
+    im: bound * Math.sin((2 * Math.PI * k) / n + 0.4),
+  }));
+
+  // Horner evaluation
+  const evaluate = (z: Complex): Complex =>
+    coeffs.reduce<Complex>((acc, c) => {
+      const scaled = cmul(acc, z);
+      return { re: scaled.re + c, im: scaled.im };
+    }, { re: 0, im: 0 });
+
+  for (let iter = 0; iter < 500; iter++) {
+    let change = 0;
+    roots = roots.map((z, i) => {
+      let denom: Complex = { re: 1, im: 0 };
+      roots.forEach((w, j) => { if (j !== i) denom = cmul(denom, csub(z, w)); });
+      const next = csub(z, cdiv(evaluate(z), denom));
+      change = Math.max(change, Math.hypot(next.re - z.re, next.im - z.im));
+      return next;
+    });
+    if (change < 1e-12 * bound) break;
+  }
+
+  return roots.map(z => (Math.abs(z.im) < 1e-9 * bound ? { re: z.re, im: 0 } : z));
+};
+
+export const eigenvalues = (A: number[][]): Complex[] => polynomialRoots(characteristicPolynomial(A));
+
+// Central-difference Jacobian of f at y
+export const numericalJacobian = (f: (y: number[]) => number[], y: number[], eps = 1e-6): number[][] => {
+  const n = y.length;
+  const J = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let j = 0; j < n; j++) {
+    const h = eps * Math.max(1, Math.abs(y[j]));
+    const yp = y.slice(); yp[j] += h;
+    const ym = y.slice(); ym[j] -= h;
+    const fp = f(yp), fm = f(ym);
+    for (let i = 0; i < n; i++) J[i][j] = (fp[i] - fm[i]) / (2 * h);
+  }
+  return J;
+};
@@ -0,0 +1,60 @@
+import { ChannelSetting, HHParameters, IonicState, MembraneConditions, Pharmacology, RateExpressions } from '../types';
+import { ActiveChannel, activeChannels } from './channels';
+import { conductanceScales, scaledChannels, scaledParams } from './pharmacology';
+import { RateFunctions } from './hhSolver';
+import { compileRates } from './rateExpressions';
+
+// The membrane the analysis tools (sweeps, bifurcation, fits, rheobase, phase
+// plane) work on: the configured parameters under the conditions the running
+// simulation applies, i.e. blockers, Nernst reversal potentials, library channels
+// and user-defined kinetics.
+
+export interface Membrane {
+  params: HHParameters;
+  channels: ActiveChannel[];
+  rates: RateFunctions;
+}
+
+export const DEFAULT_MEMBRANE_CONDITIONS: MembraneConditions = { channels: [], rates: {}, scales: {}, reversal: null };
+
+// Block fractions and reversal potentials drift during wash-in and with dynamic
+// concentrations; rounding them lets analyses refresh in steps rather than every frame
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+export const membraneConditions = (
+  channels: ChannelSetting[],
+  rates: RateExpressions,
+  pharmacology: Pharmacology,
+  ions: IonicState | null,
+  t: number
+): MembraneConditions => ({
+  channels,
+  rates,
+  scales: Object.fromEntries(Object.entries(conductanceScales(pharmacology, t)).map(([target, scale]) => [target, round(scale, 0.01)])),
+  reversal: ions && {
+    E_Na: round(ions.reversal.E_Na, 0.1),
+    E_K: round(ions.reversal.E_K, 0.1),
+    E_Cl: round(ions.reversal.E_Cl, 0.1),
+    E_L: round(ions.reversal.E_L, 0.1),
+  },
+});
+
+// `free` lists parameters the caller sets itself (a swept or fitted value), which
+// the environment's reversal potentials must not replace
+export const applyConditions = (
+  params: HHParameters,
+  { channels, rates, scales, reversal }: MembraneConditions,
+  free: (keyof HHParameters)[] = []
+): Membrane => {
+  const reversed = { ...params };
+  if (reversal) {
+    (['E_Na', 'E_K', 'E_L'] as const).forEach(key => {
+      if (!free.includes(key)) reversed[key] = reversal[key];
+    });
+  }
+  return {
+    params: scaledParams(reversed, scales),
+    channels: scaledChannels(activeChannels(channels), scales),
+    rates: compileRates(rates),
+  };
+};
@@ -0,0 +1,167 @@
+import { Morphology, MorphologySegment, NeuriteType, SwcNode, Vec3 } from '../types';
+import { createRng, Rng } from './random';
+
+// Neuron morphologies for the 3D view: SWC import (NeuroMorpho.org format) and
+// a seeded procedural tree used when no file is loaded.
+
+export const NEURITE_LABELS: Record<NeuriteType, string> = {
+  [NeuriteType.UNDEFINED]: 'Undefined',
+  [NeuriteType.SOMA]: 'Soma',
+  [NeuriteType.AXON]: 'Axon',
+  [NeuriteType.BASAL]: 'Basal dendrite',
+  [NeuriteType.APICAL]: 'Apical dendrite',
+  [NeuriteType.CUSTOM]: 'Custom',
+};
+
+export const NEURITE_COLORS: Record<NeuriteType, number> = {
+  [NeuriteType.UNDEFINED]: 0x8888aa,
+  [NeuriteType.SOMA]: 0x00f3ff,
+  [NeuriteType.AXON]: 0xffd000,
+  [NeuriteType.BASAL]: 0x0066ff,
+  [NeuriteType.APICAL]: 0x00ff9d,
+  [NeuriteType.CUSTOM]: 0x9d00ff,
+};
+
+const distance = (a: Vec3, b: Vec3): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// SWC reserves 0-4; everything else (fork/end points, custom labels) is shown as custom
+const toNeuriteType = (code: number): NeuriteType =>
+  code >= NeuriteType.UNDEFINED && code <= NeuriteType.APICAL ? code : NeuriteType.CUSTOM;
+
+// Parses SWC text: `id type x y z radius parent` per line, `#` comments
+export const parseSwc = (text: string): SwcNode[] => {
+  const nodes: SwcNode[] = [];
+  const ids = new Set<number>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    const fields = line.split(/\s+/).map(Number);
+    if (fields.length < 7 || fields.slice(0, 7).some(v => !Number.isFinite(v))) {
+      throw new Error(`Line ${index + 1}: expected 7 numeric fields (id type x y z radius parent)`);
+    }
+    const [id, type, x, y, z, radius, parent] = fields;
+    if (ids.has(id)) throw new Error(`Line ${index + 1}: duplicate node id ${id}`);
+    ids.add(id);
+    nodes.push({ id, type: toNeuriteType(type), position: [x, y, z], radius: Math.max(0, radius), parent: parent < 0 ? -1 : parent });
+  });
+
+  if (nodes.length < 2) throw new Error('Morphology needs at least two nodes');
+  const missing = nodes.find(node => node.parent !== -1 && !ids.has(node.parent));
+  if (missing) throw new Error(`Node ${missing.id} refers to missing parent ${missing.parent}`);
+  return nodes;
+};
+
+const computeBounds = (points: { position: Vec3; radius: number }[]): Morphology['bounds'] => {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  points.forEach(({ position, radius }) => {
+    for (let k = 0; k < 3; k++) {
+      min[k] = Math.min(min[k], position[k] - radius);
+      max[k] = Math.max(max[k], position[k] + radius);
+    }
+  });
+  return { min, max };
+};
+
+// Builds renderable segments with path distances measured from the soma
+export const buildMorphology = (nodes: SwcNode[], name: string): Morphology => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const children = new Map<number, SwcNode[]>();
+  nodes.forEach(node => {
+    if (node.parent === -1) return;
+    const list = children.get(node.parent) ?? [];
+    list.push(node);
+    children.set(node.parent, list);
+  });
+
+  // Breadth-first from every root; soma nodes all sit at path distance 0
+  const pathDistance = new Map<number, number>();
+  const queue = nodes.filter(node => node.parent === -1);
+  queue.forEach(node => pathDistance.set(node.id, 0));
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    const base = pathDistance.get(node.id)!;
+    (children.get(node.id) ?? []).forEach(child => {
+      const step = child.type === NeuriteType.SOMA ? 0 : distance(node.position, child.position);
+      pathDistance.set(child.id, base + step);
+      queue.push(child);
+    });
+  }
+  if (queue.length < nodes.length) throw new Error('Morphology contains a cycle');
+
+  const segments: MorphologySegment[] = [];
+  nodes.forEach(node => {
+    const parent = byId.get(node.parent);
+    if (!parent) return;
+    segments.push({
+      start: parent.position,
+      end: node.position,
+      startRadius: parent.radius,
+      endRadius: node.radius,
+      type: node.type,
+      startDistance: pathDistance.get(parent.id)!,
+      endDistance: pathDistance.get(node.id)!,
+    });
+  });
+
+  const somaNodes = nodes.filter(node => node.type === NeuriteType.SOMA);
+  const somaSource = somaNodes.length ? somaNodes : [queue[0]];
+  const center = [0, 1, 2].map(k => somaSource.reduce((sum, node) => sum + node.position[k], 0) / somaSource.length) as Vec3;
+  const radius = Math.max(...somaSource.map(node => node.radius));
+
+  return { name, segments, soma: { center, radius }, bounds: computeBounds(nodes) };
+};
+
+export const loadSwc = (text: string, name: string): Morphology => buildMorphology(parseSwc(text), name);
+
+// Rotates `v` by Euler angles applied in XYZ order
+const rotate = (v: Vec3, ax: number, ay: number, az: number): Vec3 => {
+  let [x, y, z] = v;
+  [x, y] = [x * Math.cos(az) - y * Math.sin(az), x * Math.sin(az) + y * Math.cos(az)];
+  [x, z] = [x * Math.cos(ay) + z * Math.sin(ay), -x * Math.sin(ay) + z * Math.cos(ay)];
+  [y, z] = [y * Math.cos(ax) - z * Math.sin(ax), y * Math.sin(ax) + z * Math.cos(ax)];
+  return [x, y, z];
+};
+
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.hypot(...v) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+// Fractal dendritic tree: `roots` primary dendrites splitting in two at every level
+export const proceduralMorphology = (seed: number): Morphology => {
+  const rng: Rng = createRng(seed);
+  const segments: MorphologySegment[] = [];
+  const points: { position: Vec3; radius: number }[] = [];
+
+  const branch = (start: Vec3, direction: Vec3, length: number, radius: number, depth: number, startDistance: number) => {
+    if (depth === 0) return;
+
+    const end: Vec3 = [start[0] + direction[0] * length, start[1] + direction[1] * length, start[2] + direction[2] * length];
+    const endRadius = radius * 0.6;
+    segments.push({
+      start, end, startRadius: radius, endRadius, type: NeuriteType.BASAL,
+      startDistance, endDistance: startDistance + length,
+    });
+    points.push({ position: end, radius: endRadius });
+
+    const spread = 0.8;
+    for (let i = 0; i < 2; i++) {
+      const next = normalize(rotate(direction, (rng() - 0.5) * spread, (rng() - 0.5) * spread, (rng() - 0.5) * spread));
+      branch(end, next, length * 0.7, endRadius, depth - 1, startDistance + length);
+    }
+  };
+
+  const roots = 6;
+  for (let i = 0; i < roots; i++) {
+    const direction = normalize([rng() - 0.5, rng() - 0.5, rng() - 0.5]);
+    branch([0, 0, 0], direction, 2.5, 0.1, 5, 0);
+  }
+
+  const soma = { center: [0, 0, 0] as Vec3, radius: 0.5 };
+  points.push({ position: soma.center, radius: soma.radius });
+  return { name: `Procedural #${seed}`, segments, soma, bounds: computeBounds(points) };
+};
+
+export const DEFAULT_MORPHOLOGY_SEED = 1;
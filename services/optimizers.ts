@@ -0,0 +1,106 @@
+import { Rng, gaussian } from './random';
+
+// Derivative-free minimizers for noisy, simulation-based objectives.
+
+export type Objective = (x: number[]) => number;
+
+export interface OptimizerOptions {
+  maxEvaluations: number;
+  step: number; // Initial simplex size / mutation strength, in the units of x
+  onProgress?: (evaluations: number, best: number, x: number[]) => void; // After every iteration
+}
+
+export interface OptimizerResult {
+  x: number[];
+  value: number;
+  evaluations: number;
+}
+
+// Treats NaN (e.g. a diverged simulation) as the worst possible value
+const guard = (f: Objective): Objective => x => {
+  const value = f(x);
+  return Number.isNaN(value) ? Infinity : value;
+};
+
+const combine = (a: number[], b: number[], weight: number): number[] => a.map((v, i) => v + weight * (b[i] - v));
+
+// Nelder–Mead downhill simplex with the standard reflection, expansion,
+// contraction and shrink coefficients (1, 2, 0.5, 0.5)
+export const nelderMead = (objective: Objective, x0: number[], { maxEvaluations, step, onProgress }: OptimizerOptions): OptimizerResult => {
+  const f = guard(objective);
+  const n = x0.length;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => { evaluations++; return f(x); };
+
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + step : v)))]
+    .map(x => ({ x, value: evaluate(x) }));
+
+  while (evaluations < maxEvaluations) {
+    simplex.sort((a, b) => a.value - b.value);
+    onProgress?.(evaluations, simplex[0].value, simplex[0].x);
+
+    const worst = simplex[n];
+    const centroid = x0.map((_, j) => simplex.slice(0, n).reduce((sum, p) => sum + p.x[j], 0) / n);
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = evaluate(reflected);
+
+    if (reflectedValue < simplex[0].value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = evaluate(expanded);
+      simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      // Contract towards the better of the worst point and its reflection
+      const outside = reflectedValue < worst.value;
+      const contracted = combine(centroid, outside ? reflected : worst.x, 0.5);
+      const contractedValue = evaluate(contracted);
+      if (contractedValue < (outside ? reflectedValue : worst.value)) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        const best = simplex[0];
+        simplex = [best, ...simplex.slice(1).map(p => {
+          const x = combine(best.x, p.x, 0.5);
+          return { x, value: evaluate(x) };
+        })];
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  onProgress?.(evaluations, simplex[0].value, simplex[0].x);
+  return { x: simplex[0].x, value: simplex[0].value, evaluations };
+};
+
+// (1+λ) evolution strategy: each generation mutates the parent λ times with
+// isotropic Gaussian noise and keeps the best child if it improves. The
+// mutation strength follows the 1/5th success rule.
+export const evolutionStrategy = (
+  objective: Objective,
+  x0: number[],
+  { maxEvaluations, step, onProgress }: OptimizerOptions,
+  rng: Rng,
+  lambda = 8
+): OptimizerResult => {
+  const f = guard(objective);
+  let parent = { x: x0, value: f(x0) };
+  let evaluations = 1;
+  let sigma = step;
+
+  while (evaluations < maxEvaluations) {
+    let best: { x: number[]; value: number } | null = null;
+    for (let i = 0; i < lambda && evaluations < maxEvaluations; i++) {
+      const x = parent.x.map(v => v + sigma * gaussian(rng));
+      const value = f(x);
+      evaluations++;
+      if (!best || value < best.value) best = { x, value };
+    }
+
+    const success = best !== null && best.value < parent.value;
+    if (success) parent = best!;
+    sigma *= Math.exp(((success ? 1 : 0) - 0.2) / 2);
+    onProgress?.(evaluations, parent.value, parent.x);
+  }
+
+  return { x: parent.x, value: parent.value, evaluations };
+};
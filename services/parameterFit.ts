@@ -0,0 +1,219 @@
+import {
+  FitAlgorithm, FitCost, FitResult, FitSettings, HHParameters, MembraneConditions, ReferenceTrace, SolverSettings, StimulusProtocol,
+} from '../types';
+import { solveHH, getInitialState } from './hhSolver';
+import { stimulusCurrent } from './stimulus';
+import { detectSpikes, computeSpikeMetrics, DEFAULT_DETECTION_OPTIONS } from './spikeDetection';
+import { referenceAt } from './traceImport';
+import { nelderMead, evolutionStrategy, OptimizerOptions } from './optimizers';
+import { createRng } from './random';
+import { Membrane, DEFAULT_MEMBRANE_CONDITIONS, applyConditions } from './membrane';
+
+export const DEFAULT_FIT_SETTINGS: FitSettings = {
+  parameters: ['g_Na', 'g_K', 'g_L'],
+  algorithm: FitAlgorithm.NELDER_MEAD,
+  cost: FitCost.TRACE_MSE,
+  maxEvaluations: 300,
+  seed: 1,
+};
+
+// Fields the optimizer may adjust, with the range it searches
+export const FITTABLE_PARAMETERS: { key: keyof HHParameters; label: string; min: number; max: number }[] = [
+  { key: 'g_Na', label: 'g_Na (mS/cm²)', min: 0, max: 300 },
+  { key: 'g_K', label: 'g_K (mS/cm²)', min: 0, max: 100 },
+  { key: 'g_L', label: 'g_L (mS/cm²)', min: 0.01, max: 3 },
+  { key: 'E_Na', label: 'E_Na (mV)', min: 20, max: 80 },
+  { key: 'E_K', label: 'E_K (mV)', min: -110, max: -50 },
+  { key: 'E_L', label: 'E_L (mV)', min: -90, max: -30 },
+  { key: 'Cm', label: 'Cm (µF/cm²)', min: 0.1, max: 5 },
+  { key: 'I_ext', label: 'I_ext (µA/cm²)', min: -20, max: 50 },
+];
+
+export const FIT_COST_LABELS: Record<FitCost, string> = {
+  [FitCost.TRACE_MSE]: 'V-trace MSE',
+  [FitCost.SPIKE_TIMES]: 'Spike times',
+  [FitCost.FEATURES]: 'Features',
+};
+
+export const FIT_ALGORITHM_LABELS: Record<FitAlgorithm, string> = {
+  [FitAlgorithm.NELDER_MEAD]: 'Nelder–Mead',
+  [FitAlgorithm.EVOLUTION]: 'Evolution (1+λ)',
+};
+
+const SETTLE_MS = 100;          // Simulated before t = 0 so every candidate starts from its own rest
+const SPIKE_MISS_PENALTY = 10;  // ms, charged per missing or extra spike
+const FEATURE_MISS_PENALTY = 25; // Squared z-score when a feature exists on only one side
+const INITIAL_STEP = 0.1;       // Fraction of each parameter's range
+const DISPLAY_POINTS = 400;
+
+interface Sampled {
+  t: Float64Array;
+  V: Float64Array;
+}
+
+// Runs the point model with the stimulus protocol starting at t = 0, sampled every solver step.
+// Returns null if the integration blew up.
+export const simulateTrace = (
+  { params, channels, rates }: Membrane,
+  solver: SolverSettings,
+  stimulus: StimulusProtocol,
+  duration: number
+): Sampled | null => {
+  let state = getInitialState(rates);
+  for (let t = 0; t < SETTLE_MS; t += solver.dt) state = solveHH(state, params, solver.dt, solver, channels, rates);
+
+  const steps = Math.ceil(duration / solver.dt) + 1;
+  const t = new Float64Array(steps);
+  const V = new Float64Array(steps);
+  state = { ...state, t: 0 };
+  for (let i = 0; i < steps; i++) {
+    t[i] = state.t;
+    V[i] = state.V;
+    if (!Number.isFinite(state.V)) return null;
+    state = solveHH(state, { ...params, I_ext: params.I_ext + stimulusCurrent(stimulus, state.t) }, solver.dt, solver, channels, rates);
+  }
+  return { t, V };
+};
+
+const squaredZ = (a: number, b: number, scale: number): number => {
+  if (Number.isNaN(a) && Number.isNaN(b)) return 0;
+  if (Number.isNaN(a) || Number.isNaN(b)) return FEATURE_MISS_PENALTY;
+  return ((a - b) / scale) ** 2;
+};
+
+// Spike count, spike shape and resting potential, each paired with the spread
+// treated as one standard deviation by the FEATURES cost
+const features = (t: ArrayLike<number>, V: ArrayLike<number>, duration: number): [number, number][] => {
+  const spikes = detectSpikes(t, V, DEFAULT_DETECTION_OPTIONS);
+  const metrics = computeSpikeMetrics(spikes, duration);
+
+  // Mean potential before the first spike, or over the whole trace without spikes
+  let end = V.length;
+  if (spikes.length) {
+    end = 1;
+    while (end < t.length && t[end] < spikes[0].time) end++;
+  }
+  let rest = 0;
+  for (let i = 0; i < end; i++) rest += V[i];
+
+  return [
+    [spikes.length, 1],
+    [metrics.firingRate, 5],
+    [metrics.meanAmplitude, 5],
+    [metrics.meanHalfWidth, 0.2],
+    [metrics.meanAhpDepth, 2],
+    [metrics.meanThreshold, 2],
+    [rest / end, 2],
+  ];
+};
+
+type CostFunction = (V: Float64Array) => number;
+
+// Builds the selected cost against the target, resampled once onto the solver grid
+const createCost = (cost: FitCost, target: ReferenceTrace, grid: Float64Array, duration: number): CostFunction => {
+  const targetV = Float64Array.from(grid, t => referenceAt(target, t) ?? NaN);
+
+  switch (cost) {
+    case FitCost.TRACE_MSE:
+      return V => {
+        let sum = 0;
+        let count = 0;
+        for (let i = 0; i < V.length; i++) {
+          if (Number.isNaN(targetV[i])) continue;
+          sum += (V[i] - targetV[i]) ** 2;
+          count++;
+        }
+        return count ? sum / count : Infinity;
+      };
+
+    case FitCost.SPIKE_TIMES: {
+      const targetSpikes = detectSpikes(target.t, target.V, DEFAULT_DETECTION_OPTIONS).map(s => s.time);
+      return V => {
+        const spikes = detectSpikes(grid, V, DEFAULT_DETECTION_OPTIONS).map(s => s.time);
+        const pairs = Math.min(spikes.length, targetSpikes.length);
+        let sum = Math.abs(spikes.length - targetSpikes.length) * SPIKE_MISS_PENALTY ** 2;
+        for (let i = 0; i < pairs; i++) sum += (spikes[i] - targetSpikes[i]) ** 2;
+        return sum / Math.max(1, targetSpikes.length);
+      };
+    }
+
+    case FitCost.FEATURES: {
+      const reference = features(target.t, target.V, duration);
+      return V => {
+        const values = features(grid, V, duration);
+        return values.reduce((sum, [value], i) => sum + squaredZ(value, reference[i][0], reference[i][1]), 0) / values.length;
+      };
+    }
+  }
+};
+
+// Simulated/target pair on at most DISPLAY_POINTS samples
+const displayTrace = (sampled: Sampled, target: ReferenceTrace): FitResult['trace'] => {
+  const stride = Math.max(1, Math.ceil(sampled.t.length / DISPLAY_POINTS));
+  const trace: FitResult['trace'] = [];
+  for (let i = 0; i < sampled.t.length; i += stride) {
+    trace.push({ t: sampled.t[i], target: referenceAt(target, sampled.t[i]), fit: sampled.V[i] });
+  }
+  return trace;
+};
+
+// Searches the chosen parameters in a [0, 1]-normalized space over each
+// parameter's range, starting from `params`. Candidates are simulated under
+// `conditions` but reported without them, so an accepted fit is not blocked twice.
+// Fitted reversal potentials take precedence over the ionic environment's.
+export const runFit = (
+  params: HHParameters,
+  solver: SolverSettings,
+  stimulus: StimulusProtocol,
+  target: ReferenceTrace,
+  settings: FitSettings,
+  conditions: MembraneConditions = DEFAULT_MEMBRANE_CONDITIONS,
+  onProgress?: (evaluations: number, cost: number, params: HHParameters) => void
+): FitResult => {
+  const ranges = settings.parameters.map(key => {
+    const range = FITTABLE_PARAMETERS.find(p => p.key === key);
+    if (!range) throw new Error(`${key} cannot be fitted`);
+    return range;
+  });
+  if (ranges.length === 0) throw new Error('Select at least one parameter to fit');
+
+  const duration = target.t[target.t.length - 1];
+  const toParams = (x: number[]): HHParameters => {
+    const fitted = { ...params };
+    ranges.forEach(({ key, min, max }, i) => {
+      fitted[key] = min + Math.min(1, Math.max(0, x[i])) * (max - min);
+    });
+    return fitted;
+  };
+
+  const simulate = (candidate: HHParameters) => simulateTrace(applyConditions(candidate, conditions, settings.parameters), solver, stimulus, duration);
+
+  const grid = simulate(params)?.t;
+  if (!grid) throw new Error('The starting parameters do not produce a stable simulation');
+  const cost = createCost(settings.cost, target, grid, duration);
+
+  const objective = (x: number[]) => {
+    const sampled = simulate(toParams(x));
+    return sampled ? cost(sampled.V) : Infinity;
+  };
+  const x0 = ranges.map(({ key, min, max }) => (params[key] - min) / (max - min));
+  const options: OptimizerOptions = {
+    maxEvaluations: settings.maxEvaluations,
+    step: INITIAL_STEP,
+    onProgress: onProgress && ((evaluations, best, x) => onProgress(evaluations, best, toParams(x))),
+  };
+
+  const result = settings.algorithm === FitAlgorithm.NELDER_MEAD
+    ? nelderMead(objective, x0, options)
+    : evolutionStrategy(objective, x0, options, createRng(settings.seed));
+
+  const best = toParams(result.x);
+  const sampled = simulate(best);
+  return {
+    settings,
+    evaluations: result.evaluations,
+    cost: result.value,
+    params: best,
+    trace: sampled ? displayTrace(sampled, target) : [],
+  };
+};
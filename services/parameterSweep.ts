@@ -0,0 +1,121 @@
+import { HHParameters, HHState, MembraneConditions, SolverSettings, SweepPoint, SweepResult, SweepSettings } from '../types';
+import { solveHH, getInitialState } from './hhSolver';
+import { detectSpikes, DEFAULT_DETECTION_OPTIONS } from './spikeDetection';
+import { Membrane, DEFAULT_MEMBRANE_CONDITIONS, applyConditions } from './membrane';
+
+export const DEFAULT_SWEEP_SETTINGS: SweepSettings = {
+  parameter: 'I_ext',
+  start: 0,
+  end: 20,
+  steps: 41,
+  duration: 300,
+};
+
+// Fields that make sense to sweep, with display labels
+export const SWEEPABLE_PARAMETERS: { key: keyof HHParameters; label: string }[] = [
+  { key: 'I_ext', label: 'I_ext (µA/cm²)' },
+  { key: 'g_Na', label: 'g_Na (mS/cm²)' },
+  { key: 'g_K', label: 'g_K (mS/cm²)' },
+  { key: 'g_L', label: 'g_L (mS/cm²)' },
+  { key: 'E_L', label: 'E_L (mV)' },
+  { key: 'Cm', label: 'Cm (µF/cm²)' },
+  { key: 'temperature', label: 'Temperature (°C)' },
+];
+
+interface RunOutcome {
+  final: HHState;
+  rate: number;           // Hz over the second half of the run
+  latency: number | null; // ms from the start of the run
+}
+
+// Simulates `duration` ms from `initial` and measures spiking. The first half is
+// treated as transient when estimating the steady firing rate.
+const simulate = (initial: HHState, { params, channels, rates }: Membrane, solver: SolverSettings, duration: number): RunOutcome => {
+  const steps = Math.ceil(duration / solver.dt);
+  const t = new Float64Array(steps);
+  const V = new Float64Array(steps);
+  let state = { ...initial, t: 0 };
+
+  for (let i = 0; i < steps; i++) {
+    state = solveHH(state, params, solver.dt, solver, channels, rates);
+    t[i] = state.t;
+    V[i] = Number.isFinite(state.V) ? state.V : 0;
+  }
+
+  const spikes = detectSpikes(t, V, DEFAULT_DETECTION_OPTIONS);
+  const steady = spikes.filter(s => s.time >= duration / 2);
+  // Mean ISI gives a finer estimate than counting spikes in a short window
+  const rate = steady.length >= 2
+    ? ((steady.length - 1) / (steady[steady.length - 1].time - steady[0].time)) * 1000
+    : (steady.length / (duration / 2)) * 1000;
+
+  return {
+    final: state,
+    rate,
+    latency: spikes.length ? spikes[0].time : null,
+  };
+};
+
+export const sweepValues = (settings: SweepSettings): number[] => {
+  const { start, end, steps } = settings;
+  if (steps <= 1) return [start];
+  return Array.from({ length: steps }, (_, i) => start + ((end - start) * i) / (steps - 1));
+};
+
+// Parameter range over which the up and down sweeps settle into different states
+export const findBistableRegion = (points: SweepPoint[]): [number, number] | null => {
+  const disagree = points.filter(p => (p.rateUp > 0) !== (p.rateDown > 0));
+  if (disagree.length === 0) return null;
+  const values = disagree.map(p => p.value);
+  return [Math.min(...values), Math.max(...values)];
+};
+
+// Runs three passes per value: from rest (f-I and latency), and continuation
+// sweeps upward and downward carrying the final state across values so that
+// hysteresis shows up as a difference between rateUp and rateDown. The swept
+// parameter is set before `conditions` apply, so e.g. a blocked g_Na stays blocked,
+// while a swept reversal potential is kept over the ionic environment's.
+export const runSweep = (
+  params: HHParameters,
+  solver: SolverSettings,
+  settings: SweepSettings,
+  conditions: MembraneConditions = DEFAULT_MEMBRANE_CONDITIONS,
+  onProgress?: (done: number, total: number) => void
+): SweepResult => {
+  const values = sweepValues(settings);
+  const total = values.length * 3;
+  let done = 0;
+  const tick = () => onProgress?.(++done, total);
+
+  const withValue = (value: number): Membrane => applyConditions({ ...params, [settings.parameter]: value }, conditions, [settings.parameter]);
+  const rest = getInitialState(withValue(params[settings.parameter]).rates);
+
+  const points: SweepPoint[] = values.map(value => {
+    const outcome = simulate(rest, withValue(value), solver, settings.duration);
+    tick();
+    return { value, rate: outcome.rate, latency: outcome.latency, rateUp: 0, rateDown: 0 };
+  });
+
+  let state = rest;
+  for (const point of points) {
+    const outcome = simulate(state, withValue(point.value), solver, settings.duration);
+    point.rateUp = outcome.rate;
+    state = outcome.final;
+    tick();
+  }
+
+  // The downward pass starts from wherever the upward pass ended
+  for (let i = points.length - 1; i >= 0; i--) {
+    const outcome = simulate(state, withValue(points[i].value), solver, settings.duration);
+    points[i].rateDown = outcome.rate;
+    state = outcome.final;
+    tick();
+  }
+
+  return {
+    settings,
+    points,
+    bistable: findBistableRegion(points),
+    rheobase: points.find(p => p.latency !== null)?.value ?? null,
+  };
+};
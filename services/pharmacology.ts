@@ -0,0 +1,123 @@
+import { Compound, DrugEvent, DrugTarget, HHParameters, Pharmacology } from '../types';
+import { ActiveChannel, channelDefinition } from './channels';
+
+// Channel blockers: Hill-equation block of the targeted conductance with a
+// first-order wash-in/wash-out time course of the bath concentration. A
+// compound targets one of the classic conductances or a library channel.
+
+export const COMPOUND_PRESETS: Compound[] = [
+  { id: 'ttx', name: 'TTX', target: DrugTarget.NA, ic50: 0.01, hill: 1, onset: 200, washout: 2000 },
+  { id: 'tea', name: 'TEA', target: DrugTarget.K, ic50: 5000, hill: 1, onset: 200, washout: 500 },
+  { id: '4ap', name: '4-AP', target: DrugTarget.K, ic50: 1000, hill: 1.3, onset: 300, washout: 1000 },
+];
+
+export const DEFAULT_PHARMACOLOGY: Pharmacology = {
+  compounds: COMPOUND_PRESETS,
+  events: [],
+};
+
+export const DRUG_TARGET_LABELS: Record<DrugTarget, string> = {
+  [DrugTarget.NA]: 'Na+',
+  [DrugTarget.K]: 'K+',
+  [DrugTarget.LEAK]: 'Leak',
+};
+
+const TARGET_CONDUCTANCE: Record<DrugTarget, 'g_Na' | 'g_K' | 'g_L'> = {
+  [DrugTarget.NA]: 'g_Na',
+  [DrugTarget.K]: 'g_K',
+  [DrugTarget.LEAK]: 'g_L',
+};
+
+const isClassicTarget = (target: string): target is DrugTarget => (Object.values(DrugTarget) as string[]).includes(target);
+
+export const targetLabel = (target: string): string =>
+  isClassicTarget(target) ? DRUG_TARGET_LABELS[target] : channelDefinition(target)?.name ?? target;
+
+export const isPreset = (compound: Compound): boolean => COMPOUND_PRESETS.some(p => p.id === compound.id);
+
+export const createCompound = (compounds: Compound[]): Compound => {
+  let index = 1;
+  while (compounds.some(c => c.id === `custom-${index}`)) index++;
+  return { id: `custom-${index}`, name: `Blocker ${index}`, target: DrugTarget.NA, ic50: 1, hill: 1, onset: 200, washout: 500 };
+};
+
+// Fraction of the target conductance blocked at concentration c (µM)
+export const blockFraction = (compound: Compound, c: number): number => {
+  if (c <= 0) return 0;
+  const x = Math.pow(c / compound.ic50, compound.hill);
+  return x / (1 + x);
+};
+
+// Effective concentration of a compound at time t, following each step change
+// with the onset (rising) or washout (falling) time constant
+export const concentrationAt = (compound: Compound, events: DrugEvent[], t: number): number => {
+  let c = 0;
+  let target = 0;
+  let since = -Infinity;
+  for (const event of events) {
+    if (event.compoundId !== compound.id) continue;
+    if (event.time > t) break;
+    c = relax(compound, c, target, event.time - since);
+    target = event.concentration;
+    since = event.time;
+  }
+  return relax(compound, c, target, t - since);
+};
+
+const relax = (compound: Compound, c: number, target: number, elapsed: number): number => {
+  if (!Number.isFinite(elapsed)) return c;
+  const tau = target > c ? compound.onset : compound.washout;
+  return tau > 0 ? target + (c - target) * Math.exp(-elapsed / tau) : target;
+};
+
+// Latest target concentration of a compound, i.e. what is in the perfusion line
+export const appliedConcentration = (compound: Compound, events: DrugEvent[]): number => {
+  let target = 0;
+  for (const event of events) if (event.compoundId === compound.id) target = event.concentration;
+  return target;
+};
+
+// Unblocked fraction of each conductance at time t; independent binding, so blocks
+// multiply. Library channels appear once a compound targets them.
+export const conductanceScales = (pharmacology: Pharmacology, t: number): Record<string, number> => {
+  const scales: Record<string, number> = { [DrugTarget.NA]: 1, [DrugTarget.K]: 1, [DrugTarget.LEAK]: 1 };
+  for (const compound of pharmacology.compounds) {
+    const unblocked = 1 - blockFraction(compound, concentrationAt(compound, pharmacology.events, t));
+    scales[compound.target] = (scales[compound.target] ?? 1) * unblocked;
+  }
+  return scales;
+};
+
+// Parameters with the conductances scaled by unblocked fractions (see conductanceScales)
+export const scaledParams = (params: HHParameters, scales: Record<string, number>): HHParameters => {
+  const scaled = { ...params };
+  for (const target of Object.values(DrugTarget)) scaled[TARGET_CONDUCTANCE[target]] *= scales[target] ?? 1;
+  return scaled;
+};
+
+export const scaledChannels = (channels: ActiveChannel[], scales: Record<string, number>): ActiveChannel[] =>
+  channels.map(channel => ({ ...channel, g: channel.g * (scales[channel.definition.id] ?? 1) }));
+
+// Parameters with the conductances scaled by the block in effect at time t
+export const blockedParams = (params: HHParameters, pharmacology: Pharmacology, t: number): HHParameters =>
+  pharmacology.events.length === 0 ? params : scaledParams(params, conductanceScales(pharmacology, t));
+
+// Library channels with their conductances scaled by the block in effect at time t
+export const blockedChannels = (channels: ActiveChannel[], pharmacology: Pharmacology, t: number): ActiveChannel[] =>
+  pharmacology.events.length === 0 || channels.length === 0 ? channels : scaledChannels(channels, conductanceScales(pharmacology, t));
+
+// Replaces the event history with the concentrations currently applied, each
+// stepped on at `time` (used when the simulation clock restarts)
+export const rebaseEvents = (pharmacology: Pharmacology, time: number): Pharmacology => ({
+  ...pharmacology,
+  events: pharmacology.compounds
+    .map(compound => ({ compoundId: compound.id, time, concentration: appliedConcentration(compound, pharmacology.events) }))
+    .filter(event => event.concentration > 0),
+});
+
+// Block on a log-spaced concentration axis from IC50 / 1000 to IC50 × 1000
+export const doseResponse = (compound: Compound, points: number): { concentration: number; block: number }[] =>
+  Array.from({ length: points }, (_, i) => {
+    const concentration = compound.ic50 * Math.pow(10, -3 + (6 * i) / (points - 1));
+    return { concentration, block: blockFraction(compound, concentration) };
+  });
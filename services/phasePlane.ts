@@ -0,0 +1,162 @@
+import { FixedPoint, FixedPointType } from '../types';
+import { HH_RATES, RateFunctions, temperatureFactor } from './hhSolver';
+import { stateChannelCurrent } from './channels';
+import type { Membrane } from './membrane';
+
+// Two-dimensional Rinzel reduction of the HH model: Na+ activation is
+// instantaneous (m = m_inf(V)) and inactivation is slaved to K+ activation
+// through the empirical relation h = 0.89 - 1.1 n. Library channel gates are
+// taken to be at steady state.
+
+export const V_RANGE: [number, number] = [-90, 60];
+export const N_RANGE: [number, number] = [0, 1];
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+export const m_inf = (V: number, { alpha_m, beta_m }: RateFunctions = HH_RATES): number => alpha_m(V) / (alpha_m(V) + beta_m(V));
+export const n_inf = (V: number, { alpha_n, beta_n }: RateFunctions = HH_RATES): number => alpha_n(V) / (alpha_n(V) + beta_n(V));
+export const h_reduced = (n: number): number => clamp01(0.89 - 1.1 * n);
+
+export const reducedDerivatives = (V: number, n: number, { params, channels, rates }: Membrane): [number, number] => {
+  const { Cm, E_Na, E_K, E_L, g_Na, g_K, g_L, I_ext, temperature } = params;
+  const I_Na = g_Na * Math.pow(m_inf(V, rates), 3) * h_reduced(n) * (V - E_Na);
+  const I_K = g_K * Math.pow(n, 4) * (V - E_K);
+  const I_L = g_L * (V - E_L);
+  const I_channels = stateChannelCurrent(channels, { V });
+
+  const dV = (I_ext - I_Na - I_K - I_L - I_channels) / Cm;
+  const dn = temperatureFactor(temperature) * (rates.alpha_n(V) * (1 - n) - rates.beta_n(V) * n);
+  return [dV, dn];
+};
+
+export type Segment = [number, number, number, number]; // V1, n1, V2, n2
+
+// Zero contour of f(V, n) over the plotting window by marching squares
+const zeroContour = (f: (V: number, n: number) => number, resolution: number): Segment[] => {
+  const [V0, V1] = V_RANGE;
+  const [n0, n1] = N_RANGE;
+  const dV = (V1 - V0) / resolution;
+  const dn = (n1 - n0) / resolution;
+
+  const grid: number[][] = [];
+  for (let i = 0; i <= resolution; i++) {
+    const row: number[] = [];
+    for (let j = 0; j <= resolution; j++) row.push(f(V0 + i * dV, n0 + j * dn));
+    grid.push(row);
+  }
+
+  const segments: Segment[] = [];
+  const lerp = (a: number, b: number) => a / (a - b);
+
+  for (let i = 0; i < resolution; i++) {
+    for (let j = 0; j < resolution; j++) {
+      const v00 = grid[i][j], v10 = grid[i + 1][j], v01 = grid[i][j + 1], v11 = grid[i + 1][j + 1];
+      const Va = V0 + i * dV, na = n0 + j * dn;
+      const points: [number, number][] = [];
+
+      if ((v00 > 0) !== (v10 > 0)) points.push([Va + lerp(v00, v10) * dV, na]);
+      if ((v10 > 0) !== (v11 > 0)) points.push([Va + dV, na + lerp(v10, v11) * dn]);
+      if ((v01 > 0) !== (v11 > 0)) points.push([Va + lerp(v01, v11) * dV, na + dn]);
+      if ((v00 > 0) !== (v01 > 0)) points.push([Va, na + lerp(v00, v01) * dn]);
+
+      for (let k = 0; k + 1 < points.length; k += 2) {
+        segments.push([points[k][0], points[k][1], points[k + 1][0], points[k + 1][1]]);
+      }
+    }
+  }
+  return segments;
+};
+
+export const vNullcline = (membrane: Membrane, resolution = 120): Segment[] =>
+  zeroContour((V, n) => reducedDerivatives(V, n, membrane)[0], resolution);
+
+export const nNullcline = ({ rates }: Membrane, points = 200): [number, number][] => {
+  const [V0, V1] = V_RANGE;
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const V = V0 + ((V1 - V0) * i) / points;
+    return [V, n_inf(V, rates)];
+  });
+};
+
+// Direction field sampled on a regular grid; vectors are returned in axis-normalised units
+export const vectorField = (membrane: Membrane, columns = 20, rows = 14): { V: number; n: number; dx: number; dy: number }[] => {
+  const [V0, V1] = V_RANGE;
+  const [n0, n1] = N_RANGE;
+  const field = [];
+  for (let i = 0; i < columns; i++) {
+    for (let j = 0; j < rows; j++) {
+      const V = V0 + ((i + 0.5) * (V1 - V0)) / columns;
+      const n = n0 + ((j + 0.5) * (n1 - n0)) / rows;
+      const [dV, dn] = reducedDerivatives(V, n, membrane);
+      field.push({ V, n, dx: dV / (V1 - V0), dy: dn / (n1 - n0) });
+    }
+  }
+  return field;
+};
+
+const jacobian = (V: number, n: number, membrane: Membrane): [[number, number], [number, number]] => {
+  const eV = 1e-4, en = 1e-6;
+  const [fVp, gVp] = reducedDerivatives(V + eV, n, membrane);
+  const [fVm, gVm] = reducedDerivatives(V - eV, n, membrane);
+  const [fnp, gnp] = reducedDerivatives(V, n + en, membrane);
+  const [fnm, gnm] = reducedDerivatives(V, n - en, membrane);
+  return [
+    [(fVp - fVm) / (2 * eV), (fnp - fnm) / (2 * en)],
+    [(gVp - gVm) / (2 * eV), (gnp - gnm) / (2 * en)],
+  ];
+};
+
+export const classifyFixedPoint = (J: [[number, number], [number, number]]): Omit<FixedPoint, 'V' | 'n'> => {
+  const tr = J[0][0] + J[1][1];
+  const det = J[0][0] * J[1][1] - J[0][1] * J[1][0];
+  const disc = tr * tr - 4 * det;
+
+  const eigenvalues = disc >= 0
+    ? [{ re: (tr + Math.sqrt(disc)) / 2, im: 0 }, { re: (tr - Math.sqrt(disc)) / 2, im: 0 }]
+    : [{ re: tr / 2, im: Math.sqrt(-disc) / 2 }, { re: tr / 2, im: -Math.sqrt(-disc) / 2 }];
+
+  let type: FixedPointType;
+  if (det < 0) type = FixedPointType.SADDLE;
+  else if (Math.abs(tr) < 1e-9) type = FixedPointType.CENTER;
+  else if (tr < 0) type = disc >= 0 ? FixedPointType.STABLE_NODE : FixedPointType.STABLE_FOCUS;
+  else type = disc >= 0 ? FixedPointType.UNSTABLE_NODE : FixedPointType.UNSTABLE_FOCUS;
+
+  return { type, eigenvalues };
+};
+
+// Fixed points lie on the n-nullcline, so search dV/dt along n = n_inf(V)
+export const findFixedPoints = (membrane: Membrane, samples = 600): FixedPoint[] => {
+  const [V0, V1] = V_RANGE;
+  const g = (V: number) => reducedDerivatives(V, n_inf(V, membrane.rates), membrane)[0];
+  const points: FixedPoint[] = [];
+
+  let prevV = V0;
+  let prevG = g(V0);
+  for (let i = 1; i <= samples; i++) {
+    const V = V0 + ((V1 - V0) * i) / samples;
+    const gV = g(V);
+    if ((prevG > 0) !== (gV > 0)) {
+      let lo = prevV, hi = V, glo = prevG;
+      for (let k = 0; k < 50; k++) {
+        const mid = (lo + hi) / 2;
+        const gm = g(mid);
+        if ((gm > 0) === (glo > 0)) { lo = mid; glo = gm; } else hi = mid;
+      }
+      const Vfp = (lo + hi) / 2;
+      const nfp = n_inf(Vfp, membrane.rates);
+      points.push({ V: Vfp, n: nfp, ...classifyFixedPoint(jacobian(Vfp, nfp, membrane)) });
+    }
+    prevV = V;
+    prevG = gV;
+  }
+  return points;
+};
+
+export const FIXED_POINT_LABELS: Record<FixedPointType, string> = {
+  [FixedPointType.STABLE_NODE]: 'Stable node',
+  [FixedPointType.STABLE_FOCUS]: 'Stable focus',
+  [FixedPointType.UNSTABLE_NODE]: 'Unstable node',
+  [FixedPointType.UNSTABLE_FOCUS]: 'Unstable focus',
+  [FixedPointType.SADDLE]: 'Saddle',
+  [FixedPointType.CENTER]: 'Center',
+};
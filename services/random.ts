@@ -0,0 +1,20 @@
+// Small seedable PRNG (mulberry32) for reproducible procedural content and optimization.
+
+export type Rng = () => number;
+
+// Uniform [0, 1) generator; the same seed always yields the same sequence
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let x = Math.imul(a ^ (a >>> 15), 1 | a);
+    x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal deviate (Box–Muller)
+export const gaussian = (rng: Rng): number => {
+  const u = 1 - rng(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
@@ -0,0 +1,87 @@
+import { RateExpressions, RateName } from '../types';
+import { CompileResult, compileExpression } from './expression';
+import { HH_RATES, RateFunctions, temperatureFactor } from './hhSolver';
+
+// User-defined α/β kinetics for the classic gates: the built-in rates written
+// out as expressions to start from, validation over the physiological range,
+// compiled rate sets for the solvers and steady-state / time-constant curves.
+
+export const GATE_RATES: { gate: 'm' | 'h' | 'n'; label: string; alpha: RateName; beta: RateName }[] = [
+  { gate: 'm', label: 'Na+ activation', alpha: 'alpha_m', beta: 'beta_m' },
+  { gate: 'h', label: 'Na+ inactivation', alpha: 'alpha_h', beta: 'beta_h' },
+  { gate: 'n', label: 'K+ activation', alpha: 'alpha_n', beta: 'beta_n' },
+];
+
+// Same functions as hhSolver.ts, in absolute membrane potential
+export const BUILT_IN_EXPRESSIONS: Record<RateName, string> = {
+  alpha_m: '0.1 * vtrap(-(V + 40), 10)',
+  beta_m: '4 * exp(-(V + 65) / 18)',
+  alpha_h: '0.07 * exp(-(V + 65) / 20)',
+  beta_h: '1 / (exp(-(V + 35) / 10) + 1)',
+  alpha_n: '0.01 * vtrap(-(V + 55), 10)',
+  beta_n: '0.125 * exp(-(V + 65) / 80)',
+};
+
+export const PREVIEW_RANGE: [number, number] = [-100, 50]; // mV
+const CHECK_RANGE: [number, number] = [-120, 60];           // mV
+const CHECK_STEP = 0.5;                                     // mV
+
+// Compiles a rate expression and checks it can drive a gate: finite and
+// non-negative everywhere the membrane potential can plausibly go
+export const compileRate = (text: string): CompileResult => {
+  const result = compileExpression(text);
+  if (result.error) return result;
+
+  for (let V = CHECK_RANGE[0]; V <= CHECK_RANGE[1]; V += CHECK_STEP) {
+    const rate = result.evaluate(V);
+    if (!Number.isFinite(rate)) {
+      const hint = Number.isNaN(rate) ? '; write x / (exp(x / y) - 1) as vtrap(x, y)' : '';
+      return { evaluate: null, error: { message: `Not finite at V = ${V} mV${hint}`, position: null } };
+    }
+    if (rate < 0) return { evaluate: null, error: { message: `Negative at V = ${V} mV; rates must be ≥ 0`, position: null } };
+  }
+  return result;
+};
+
+// Checks an α/β pair leaves the gate a steady state and a finite time constant,
+// i.e. α + β > 0 over the same range; returns the problem, or null if there is none
+export const checkRatePair = (alpha: (V: number) => number, beta: (V: number) => number): string | null => {
+  for (let V = CHECK_RANGE[0]; V <= CHECK_RANGE[1]; V += CHECK_STEP) {
+    if (!(alpha(V) + beta(V) > 0)) return `α + β is 0 at V = ${V} mV; the gate has no steady state there`;
+  }
+  return null;
+};
+
+// Built-in rates with every valid user expression swapped in; a gate whose
+// pair fails checkRatePair keeps its built-in kinetics
+export const compileRates = (expressions: RateExpressions): RateFunctions => {
+  const rates = { ...HH_RATES };
+  (Object.keys(expressions) as RateName[]).forEach(name => {
+    const text = expressions[name];
+    const { evaluate } = text === undefined ? { evaluate: null } : compileRate(text);
+    if (evaluate) rates[name] = evaluate;
+  });
+  GATE_RATES.forEach(({ alpha, beta }) => {
+    if (!checkRatePair(rates[alpha], rates[beta])) return;
+    rates[alpha] = HH_RATES[alpha];
+    rates[beta] = HH_RATES[beta];
+  });
+  return rates;
+};
+
+// Steady state and time constant (ms, at the given temperature) across the preview range
+export const gateCurve = (
+  alpha: (V: number) => number,
+  beta: (V: number) => number,
+  temperature: number,
+  points: number
+): { V: number; inf: number; tau: number }[] => {
+  const phi = temperatureFactor(temperature);
+  const [min, max] = PREVIEW_RANGE;
+  return Array.from({ length: points }, (_, i) => {
+    const V = min + ((max - min) * i) / (points - 1);
+    const a = alpha(V);
+    const b = beta(V);
+    return { V, inf: a / (a + b), tau: 1 / (phi * (a + b)) };
+  });
+};
@@ -0,0 +1,42 @@
+import { SimulationConfig, SAMPLE_STRIDE } from './simulationEngine';
+
+// Unbounded (up to a memory cap) capture of every solver step, kept in
+// fixed-size chunks so long runs never copy what they already hold.
+
+const CHUNK_RECORDS = 65536;
+export const MAX_RECORDED_SAMPLES = 1_000_000; // ~128 MB at full stride
+
+export interface Recorder {
+  chunks: Float64Array[];
+  count: number;     // Records captured so far
+  startedAt: string; // ISO timestamp of the first record
+  config: SimulationConfig; // What the simulation was running when capture started
+}
+
+export const createRecorder = (config: SimulationConfig): Recorder => ({
+  chunks: [],
+  count: 0,
+  startedAt: new Date().toISOString(),
+  config,
+});
+
+export const recorderFull = (recorder: Recorder): boolean => recorder.count >= MAX_RECORDED_SAMPLES;
+
+// Copies one record starting at `offset` in `source`; ignored once the recorder is full
+export const recordSample = (recorder: Recorder, source: Float64Array, offset: number): void => {
+  if (recorderFull(recorder)) return;
+  const slot = recorder.count % CHUNK_RECORDS;
+  if (slot === 0) recorder.chunks.push(new Float64Array(CHUNK_RECORDS * SAMPLE_STRIDE));
+  recorder.chunks[recorder.chunks.length - 1].set(source.subarray(offset, offset + SAMPLE_STRIDE), slot * SAMPLE_STRIDE);
+  recorder.count++;
+};
+
+// All captured records, contiguous and oldest first
+export const recorderData = (recorder: Recorder): Float64Array => {
+  const data = new Float64Array(recorder.count * SAMPLE_STRIDE);
+  recorder.chunks.forEach((chunk, i) => {
+    const offset = i * CHUNK_RECORDS * SAMPLE_STRIDE;
+    data.set(chunk.subarray(0, Math.min(chunk.length, data.length - offset)), offset);
+  });
+  return data;
+};
@@ -0,0 +1,24 @@
+import { HHParameters, MembraneConditions, SolverSettings } from '../types';
+import { estimateRheobase } from './spikeDetection';
+import { applyConditions } from './membrane';
+
+// Estimates the rheobase off the main thread. Cancel by terminating the worker.
+
+export type RheobaseCommand = { type: 'run'; params: HHParameters; solver: SolverSettings; conditions: MembraneConditions };
+
+export type RheobaseEvent =
+  | { type: 'done'; rheobase: number | null }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<RheobaseCommand>) => {
+  const { params, solver, conditions } = e.data;
+  try {
+    const event: RheobaseEvent = { type: 'done', rheobase: estimateRheobase(applyConditions(params, conditions), solver) };
+    ctx.postMessage(event);
+  } catch (err) {
+    const event: RheobaseEvent = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(event);
+  }
+};
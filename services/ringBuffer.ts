@@ -0,0 +1,63 @@
+// Fixed-capacity ring buffer of fixed-stride Float64 records.
+// Backed by a SharedArrayBuffer when the page is cross-origin isolated so the
+// simulation worker can write while the main thread reads without copying.
+
+const HEADER_INTS = 2; // [head, size]
+const HEAD = 0;        // Slot the next record is written to
+const SIZE = 1;        // Number of valid records (<= capacity)
+
+export interface RingBuffer {
+  data: Float64Array;
+  header: Int32Array;
+  capacity: number; // Records
+  stride: number;   // Float64 values per record
+}
+
+export const ringBufferByteLength = (capacity: number, stride: number): number =>
+  HEADER_INTS * Int32Array.BYTES_PER_ELEMENT + capacity * stride * Float64Array.BYTES_PER_ELEMENT;
+
+export const attachRingBuffer = (storage: ArrayBufferLike, capacity: number, stride: number): RingBuffer => ({
+  header: new Int32Array(storage, 0, HEADER_INTS),
+  data: new Float64Array(storage, HEADER_INTS * Int32Array.BYTES_PER_ELEMENT, capacity * stride),
+  capacity,
+  stride,
+});
+
+export const canShareMemory = (): boolean =>
+  typeof SharedArrayBuffer !== 'undefined' && (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated === true;
+
+export const createRingBuffer = (capacity: number, stride: number, shared = canShareMemory()): RingBuffer => {
+  const bytes = ringBufferByteLength(capacity, stride);
+  const storage = shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+  return attachRingBuffer(storage, capacity, stride);
+};
+
+export const ringSize = (rb: RingBuffer): number => Atomics.load(rb.header, SIZE);
+
+// Offset into rb.data of the slot the next record should be written to
+export const writeOffset = (rb: RingBuffer): number => Atomics.load(rb.header, HEAD) * rb.stride;
+
+// Publishes the record written at writeOffset()
+export const commitRecord = (rb: RingBuffer): void => {
+  const head = Atomics.load(rb.header, HEAD);
+  Atomics.store(rb.header, HEAD, (head + 1) % rb.capacity);
+  if (Atomics.load(rb.header, SIZE) < rb.capacity) Atomics.add(rb.header, SIZE, 1);
+};
+
+export const appendRecords = (rb: RingBuffer, records: Float64Array, count: number): void => {
+  for (let i = 0; i < count; i++) {
+    rb.data.set(records.subarray(i * rb.stride, (i + 1) * rb.stride), writeOffset(rb));
+    commitRecord(rb);
+  }
+};
+
+// Offset into rb.data of a record by age: 0 is the newest, ringSize - 1 the oldest
+export const recordOffset = (rb: RingBuffer, age: number): number => {
+  const head = Atomics.load(rb.header, HEAD);
+  return ((head - 1 - age + rb.capacity * 2) % rb.capacity) * rb.stride;
+};
+
+export const clearRingBuffer = (rb: RingBuffer): void => {
+  Atomics.store(rb.header, HEAD, 0);
+  Atomics.store(rb.header, SIZE, 0);
+};
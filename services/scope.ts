@@ -0,0 +1,81 @@
+import { ScopeSettings, TriggerEdge } from '../types';
+import { RingBuffer } from './ringBuffer';
+import { findCrossing, newestTime } from './traceView';
+
+// Oscilloscope screen geometry and the logic choosing which stretch of the
+// recorded history a screen shows.
+
+export const SCOPE_DIVISIONS = { x: 10, y: 8 };
+
+export const TIMEBASE_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500]; // ms/div
+export const VOLTS_STEPS = [1, 2, 5, 10, 20, 50];                                 // mV/div
+
+export const DEFAULT_SCOPE_SETTINGS: ScopeSettings = {
+  timebase: 10,
+  voltsPerDiv: 20,
+  offset: -15,
+  triggerEnabled: false,
+  triggerLevel: 0,
+  triggerEdge: TriggerEdge.RISING,
+  preTrigger: 0.2,
+  frozen: false,
+};
+
+// Next value in a 1-2-5 sequence, `direction` steps up (+) or down (-)
+export const stepScale = (steps: number[], value: number, direction: number): number => {
+  const index = steps.findIndex(step => step >= value - 1e-9);
+  const current = index === -1 ? steps.length - 1 : index;
+  return steps[Math.min(steps.length - 1, Math.max(0, current + Math.sign(direction)))];
+};
+
+export const screenSpan = (settings: ScopeSettings): number => settings.timebase * SCOPE_DIVISIONS.x;
+
+export const voltageDomain = (settings: ScopeSettings): [number, number] => {
+  const half = (settings.voltsPerDiv * SCOPE_DIVISIONS.y) / 2;
+  return [settings.offset - half, settings.offset + half];
+};
+
+export interface ScopeWindow {
+  start: number;
+  end: number;
+  trigger: number | null; // Trigger time shown on screen, null when free-running or panned away from it
+}
+
+// How far back a trigger is searched for each frame, in screens
+const TRIGGER_SEARCH_SCREENS = 2;
+
+// Picks the screen to draw:
+// - frozen: the stretch ending at `viewEnd`, keeping `lastTrigger` if it is on screen
+// - locked to `onset` (the stimulus start in sweep mode), like an external trigger
+// - triggered: the newest complete sweep around a crossing, holding the previous
+//   sweep (`lastTrigger`) until a new one arrives
+// - otherwise free-running up to the newest sample
+export const scopeWindow = (
+  rb: RingBuffer,
+  settings: ScopeSettings,
+  viewEnd: number | null,
+  lastTrigger: number | null,
+  onset: number | null = null
+): ScopeWindow | null => {
+  const span = screenSpan(settings);
+  const newest = newestTime(rb);
+  if (Number.isNaN(newest)) return null;
+
+  if (settings.frozen && viewEnd !== null) {
+    const held = lastTrigger !== null && lastTrigger >= viewEnd - span && lastTrigger <= viewEnd;
+    return { start: viewEnd - span, end: viewEnd, trigger: held ? lastTrigger : null };
+  }
+  const pre = span * settings.preTrigger;
+  if (onset !== null) return { start: onset - pre, end: onset - pre + span, trigger: onset };
+  if (!settings.triggerEnabled) return { start: newest - span, end: newest, trigger: null };
+
+  const found = findCrossing(
+    rb,
+    settings.triggerLevel,
+    settings.triggerEdge === TriggerEdge.RISING,
+    newest - span * TRIGGER_SEARCH_SCREENS,
+    newest - (span - pre) // Only sweeps whose post-trigger part has been fully recorded
+  );
+  const trigger = found ?? (lastTrigger !== null && lastTrigger <= newest ? lastTrigger : null);
+  return trigger === null ? null : { start: trigger - pre, end: trigger - pre + span, trigger };
+};
@@ -0,0 +1,214 @@
+import {
+  DrugTarget, ElectrodeKind, ElectrodeSite, ExperimentMode, IntegratorMethod, NeuriteType, NoiseMethod, RateExpressions, StimulusType,
+} from '../types';
+import { SimulationConfig, SAMPLE_STRIDE } from './simulationEngine';
+import { BUILT_IN_EXPRESSIONS } from './rateExpressions';
+import { channelDefinition } from './channels';
+
+// Versioned, self-describing snapshot of an experiment. Older versions are
+// migrated on load; anything missing falls back to the caller's defaults.
+
+export const SESSION_FORMAT = 'neuraldx-session';
+export const SESSION_VERSION = 1;
+export const SESSION_STORAGE_KEY = 'neuraldx.session';
+export const SESSION_HASH_PREFIX = '#session=';
+
+export interface SimulationSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  savedAt: string; // ISO timestamp
+  config: SimulationConfig;
+  realTimeFactor: number;
+  morphologySeed: number | null; // Procedural tree seed; null when an SWC file was shown
+  electrodeSites: Partial<Record<ElectrodeKind, ElectrodeSite>>;
+  trace?: {
+    stride: number;
+    records: number[]; // Flattened SampleField records, oldest first
+    gates?: Record<string, number[]>; // Library channel gates after the last record
+  };
+}
+
+export const createSession = (
+  config: SimulationConfig,
+  realTimeFactor: number,
+  morphologySeed: number | null,
+  electrodeSites: Partial<Record<ElectrodeKind, ElectrodeSite>>,
+  records?: Float64Array,
+  gates?: Record<string, number[]> | null
+): SimulationSession => ({
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  savedAt: new Date().toISOString(),
+  config,
+  realTimeFactor,
+  morphologySeed,
+  // Sites are positions on a specific cell, so only meaningful for a reproducible tree
+  electrodeSites: morphologySeed === null ? {} : electrodeSites,
+  ...(records && records.length
+    ? { trace: { stride: SAMPLE_STRIDE, records: Array.from(records), ...(gates ? { gates } : {}) } }
+    : {}),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps only the keys of `defaults`, taking values from `source` when they have the same type
+const mergeShallow = <T extends object>(defaults: T, source: unknown): T => {
+  if (!isObject(source)) return defaults;
+  const merged = { ...defaults };
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    const value = source[key as string];
+    if (value !== undefined && typeof value === typeof defaults[key]) merged[key] = value as T[keyof T];
+  });
+  return merged;
+};
+
+// Enum fields need a known value, not just a string
+const isMember = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// The scene reads every field of a site on each frame, so a malformed one is dropped here
+const isElectrodeSite = (value: unknown): value is ElectrodeSite =>
+  isObject(value) &&
+  Array.isArray(value.position) && value.position.length === 3 && value.position.every(isFiniteNumber) &&
+  isFiniteNumber(value.pathDistance) &&
+  isFiniteNumber(value.pathFraction) && value.pathFraction >= 0 && value.pathFraction <= 1 &&
+  typeof value.type === 'number' && NeuriteType[value.type] !== undefined;
+
+// Gate values per library channel, each a fraction for every gate the channel has
+const isChannelGates = (value: unknown): value is Record<string, number[]> =>
+  isObject(value) && Object.entries(value).every(([id, gates]) =>
+    Array.isArray(gates) && gates.length === channelDefinition(id)?.gates.length &&
+    gates.every(gate => isFiniteNumber(gate) && gate >= 0 && gate <= 1));
+
+// Upgrades older payloads in place, one version at a time
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const parseSession = (text: string, defaults: SimulationConfig): SimulationSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (!isObject(data) || data.format !== SESSION_FORMAT) throw new Error('Not a session file');
+
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > SESSION_VERSION) throw new Error(`Session version ${version} is newer than this app supports (${SESSION_VERSION})`);
+  while (version < SESSION_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Cannot read session version ${version}`);
+    data = migrate(data as Record<string, unknown>);
+    version++;
+  }
+
+  const raw = data as Record<string, unknown>;
+  const config = isObject(raw.config) ? raw.config : {};
+  const stimulus = mergeShallow(defaults.stimulus, config.stimulus);
+  if (!Array.isArray(stimulus.segments)) throw new Error('Stimulus protocol has no segment list');
+  const solver = mergeShallow(defaults.solver, config.solver);
+  const noise = mergeShallow(defaults.noise, config.noise);
+  const pharmacology = mergeShallow(defaults.pharmacology, config.pharmacology);
+  const compounds = Array.isArray(pharmacology.compounds)
+    ? pharmacology.compounds.filter(compound => isObject(compound) &&
+        (isMember(DrugTarget, compound.target) || channelDefinition(compound.target) !== undefined))
+    : defaults.pharmacology.compounds;
+  const environment = isObject(config.environment) ? config.environment : {};
+  const channels = Array.isArray(config.channels) ? config.channels.filter(isObject) : [];
+  const rates = isObject(config.rates) ? config.rates : {};
+
+  const trace = isObject(raw.trace) && raw.trace.stride === SAMPLE_STRIDE && Array.isArray(raw.trace.records)
+    ? {
+        stride: SAMPLE_STRIDE,
+        records: (raw.trace.records as unknown[]).map(Number),
+        ...(isChannelGates(raw.trace.gates) ? { gates: raw.trace.gates } : {}),
+      }
+    : undefined;
+
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    config: {
+      params: mergeShallow(defaults.params, config.params),
+      solver: { ...solver, method: isMember(IntegratorMethod, solver.method) ? solver.method : defaults.solver.method },
+      mode: isMember(ExperimentMode, config.mode) ? config.mode : defaults.mode,
+      clampProtocol: mergeShallow(defaults.clampProtocol, config.clampProtocol),
+      // Segments and compounds of a kind this build does not know are dropped
+      stimulus: { ...stimulus, segments: stimulus.segments.filter(segment => isObject(segment) && isMember(StimulusType, segment.type)) },
+      cable: mergeShallow(defaults.cable, config.cable),
+      electrodes: mergeShallow(defaults.electrodes, config.electrodes),
+      noise: { ...noise, method: isMember(NoiseMethod, noise.method) ? noise.method : defaults.noise.method },
+      pharmacology: {
+        compounds,
+        // The solver looks up the last event before t, so events must be well formed and in time order
+        events: Array.isArray(pharmacology.events)
+          ? pharmacology.events
+              .filter(event => isObject(event) && isFiniteNumber(event.time) &&
+                isFiniteNumber(event.concentration) && event.concentration >= 0 &&
+                compounds.some(compound => compound.id === event.compoundId))
+              .sort((a, b) => a.time - b.time)
+          : [],
+      },
+      environment: {
+        ...mergeShallow(defaults.environment, environment),
+        concentrations: mergeShallow(defaults.environment.concentrations, environment.concentrations),
+        leak: mergeShallow(defaults.environment.leak, environment.leak),
+      },
+      // One setting per library channel; saved channels this build does not know are dropped
+      channels: defaults.channels.map(setting => mergeShallow(setting, channels.find(saved => saved.id === setting.id))),
+      // Expressions are kept as text; anything that no longer compiles falls back to the built-in rate
+      rates: Object.fromEntries(
+        Object.entries(rates).filter(([name, text]) => Object.keys(BUILT_IN_EXPRESSIONS).includes(name) && typeof text === 'string')
+      ) as RateExpressions,
+    },
+    realTimeFactor: typeof raw.realTimeFactor === 'number' ? raw.realTimeFactor : 0.015,
+    morphologySeed: typeof raw.morphologySeed === 'number' ? raw.morphologySeed : null,
+    electrodeSites: isObject(raw.electrodeSites)
+      ? Object.fromEntries(Object.entries(raw.electrodeSites).filter(([kind, site]) => isMember(ElectrodeKind, kind) && isElectrodeSite(site)))
+      : {},
+    ...(trace ? { trace } : {}),
+  };
+};
+
+export const serializeSession = (session: SimulationSession): string => JSON.stringify(session, null, 2);
+
+export const traceRecords = (session: SimulationSession): Float64Array | undefined =>
+  session.trace ? Float64Array.from(session.trace.records) : undefined;
+
+// --- URL hash sharing ---
+// deflate + base64url keeps a typical session link to a few hundred characters.
+// Traces are left out; a link carries the experiment, not its recording.
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeSessionHash = async (session: SimulationSession): Promise<string> => {
+  const { trace: _trace, ...shareable } = session;
+  const json = new TextEncoder().encode(JSON.stringify(shareable));
+  return SESSION_HASH_PREFIX + toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSessionHash = async (hash: string, defaults: SimulationConfig): Promise<SimulationSession> => {
+  if (!hash.startsWith(SESSION_HASH_PREFIX)) throw new Error('Link does not contain a session');
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await pipe(fromBase64Url(hash.slice(SESSION_HASH_PREFIX.length)), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new Error('Session link is corrupted');
+  }
+  return parseSession(json, defaults);
+};
@@ -0,0 +1,256 @@
+import {
+  HHState, HHParameters, SolverSettings, ExperimentMode,
+  VoltageClampProtocol, StimulusProtocol, CableParameters, CableState, ElectrodePlacement,
+  NoiseMethod, NoiseSettings, Pharmacology, IonicEnvironment, IonicState, IonConcentrations, ChannelSetting,
+  RateExpressions,
+} from '../types';
+import { solveHH, clampHH, derivedQuantities, getInitialState, temperatureFactor, RateFunctions } from './hhSolver';
+import {
+  solveCable, createCableState, compartmentState, compartmentAt, axialCurrent,
+  velocityProbes, conductionVelocity,
+} from './cableSolver';
+import { commandVoltage, protocolDuration } from './voltageClamp';
+import { stimulusCurrent, stimulusDuration } from './stimulus';
+import { NoiseRuntime, syncNoise, stochasticStep, channelQuantities } from './channelNoise';
+import { blockedParams, blockedChannels } from './pharmacology';
+import { ionicState, advanceConcentrations, sameConcentrations } from './ionicEnvironment';
+import { ActiveChannel, activeChannels, carriedCurrents, relaxGates, stateChannelCurrent } from './channels';
+import { compileRates } from './rateExpressions';
+
+// Framework-free simulation core shared by the worker and headless tools.
+
+export interface SimulationConfig {
+  params: HHParameters;
+  solver: SolverSettings;
+  mode: ExperimentMode;
+  clampProtocol: VoltageClampProtocol;
+  stimulus: StimulusProtocol;
+  cable: CableParameters;
+  electrodes: ElectrodePlacement;
+  noise: NoiseSettings;
+  pharmacology: Pharmacology;
+  environment: IonicEnvironment;
+  channels: ChannelSetting[]; // Library channels added to the classic membrane
+  rates: RateExpressions;     // User-defined α/β kinetics of the classic gates
+}
+
+export interface SimulationRuntime {
+  state: HHState;
+  sweepStart: number;           // Simulation time (ms) the current voltage-clamp sweep began
+  stimulusStart: number | null; // Simulation time (ms) the stimulus protocol started, null when idle
+  pulseRemaining: number;       // Remaining duration (ms) of a manual "Inject Pulse"
+  cable: CableState | null;     // Compartment states when running a cable, null for the point model
+  probeCrossings: [number, number]; // Last upward 0 mV crossing (ms) at each velocity probe
+  conductionVelocity: number | null; // m/s, from the most recent spike to reach both probes
+  noise: NoiseRuntime | null;   // Random generator and channel population while channel noise is on
+  // Concentrations, reversal potentials and pump current while the ionic environment is modeled;
+  // `source` is the configured concentration set they started from
+  ions: { source: IonConcentrations; state: IonicState } | null;
+  // Rate functions compiled from `source`, recompiled whenever the configured expressions change
+  rates: { source: RateExpressions; functions: RateFunctions } | null;
+}
+
+export const INJECT_PULSE_AMPLITUDE = 20; // uA/cm^2
+export const INJECT_PULSE_DURATION = 20;  // ms
+
+// Layout of one recorded sample
+export enum SampleField {
+  T = 0,
+  V,
+  M,
+  H,
+  N,
+  I_APP, // Applied current: I_ext + stimulus in current clamp, clamp current in voltage clamp
+  I_NA,
+  I_K,
+  I_L,
+  G_NA,  // Open conductances, after any blockers
+  G_K,
+  G_L,
+  E_NA,  // Reversal potentials, from the concentrations when the ionic environment is modeled
+  E_K,
+  E_L,
+  I_CH,  // Total current through the library channels
+}
+export const SAMPLE_STRIDE = 16;
+
+// Starts at rest under the given kinetics
+export const createRuntime = (expressions: RateExpressions = {}): SimulationRuntime => {
+  const functions = compileRates(expressions);
+  return {
+    state: getInitialState(functions),
+    sweepStart: 0,
+    stimulusStart: null,
+    pulseRemaining: 0,
+    cable: null,
+    probeCrossings: [NaN, NaN],
+    conductionVelocity: null,
+    noise: null,
+    ions: null,
+    rates: { source: expressions, functions },
+  };
+};
+
+// Records spike arrivals at the two velocity probes and updates the velocity
+// once a wave has passed both of them.
+const trackPropagation = (runtime: SimulationRuntime, cable: CableParameters, site: number, prev: CableState, next: CableState) => {
+  const probes = velocityProbes(next.V.length, site);
+  probes.forEach((index, p) => {
+    const v0 = prev.V[index], v1 = next.V[index];
+    // Interpolate within the step so the estimate is not quantised to dt
+    if (v0 < 0 && v1 >= 0) runtime.probeCrossings[p] = prev.t + ((next.t - prev.t) * -v0) / (v1 - v0);
+  });
+  const [tNear, tFar] = runtime.probeCrossings;
+  if (next.V[probes[1]] >= 0 && prev.V[probes[1]] < 0 && tNear < tFar) {
+    runtime.conductionVelocity = conductionVelocity(cable, probes[0], probes[1], tNear, tFar);
+  }
+};
+
+// Advances either the point neuron or, with more than one segment, the cable
+// whose compartment under the recording electrode stands in for the recorded state.
+// Under voltage clamp the clamped compartment is recorded instead, since the clamp
+// electrode is where the command potential and the clamp current are measured.
+// Channel noise applies to the point neuron only.
+const advance = (
+  runtime: SimulationRuntime,
+  config: SimulationConfig,
+  params: HHParameters,
+  channels: ActiveChannel[],
+  clampV?: number
+): HHState => {
+  const { solver, cable, electrodes } = config;
+  const rates = runtime.rates?.functions;
+  if (cable.segments <= 1) {
+    runtime.cable = null;
+    if (config.noise.method !== NoiseMethod.NONE) {
+      runtime.noise = syncNoise(runtime.noise, config.noise, runtime.state);
+      // Library channels stay deterministic: their current enters as an applied
+      // current over the step and their gates relax alongside
+      const { state } = runtime;
+      const V = clampV ?? state.V;
+      const I_channels = stateChannelCurrent(channels, { V, gates: state.gates });
+      const next = stochasticStep(runtime.noise, state, { ...params, I_ext: params.I_ext - I_channels }, solver.dt, clampV, rates);
+      if (!channels.length) return next;
+      return { ...next, gates: relaxGates(channels, state.gates, V, temperatureFactor(params.temperature), solver.dt) };
+    }
+    runtime.noise = null;
+    return clampV !== undefined
+      ? clampHH(runtime.state, params, clampV, solver.dt, solver, channels, rates)
+      : solveHH(runtime.state, params, solver.dt, solver, channels, rates);
+  }
+
+  runtime.noise = null;
+  if (!runtime.cable || runtime.cable.V.length !== Math.round(cable.segments)) {
+    runtime.cable = createCableState(cable, runtime.state);
+    runtime.probeCrossings = [NaN, NaN];
+    runtime.conductionVelocity = null;
+  }
+  const N = runtime.cable.V.length;
+  const site = compartmentAt(electrodes.stimulus, N);
+  const prev = runtime.cable;
+  const next = solveCable(prev, params, cable, solver.dt, solver, clampV, site, channels, rates);
+  runtime.cable = next;
+  trackPropagation(runtime, cable, site, prev, next);
+  return compartmentState(next, clampV !== undefined ? site : compartmentAt(electrodes.record, N));
+};
+
+// Advances the simulation by one solver step and, if `out` is given, writes the
+// resulting sample at `offset`.
+export const stepSimulation = (runtime: SimulationRuntime, config: SimulationConfig, out?: Float64Array, offset = 0): void => {
+  const { solver } = config;
+  const { t } = runtime.state;
+  let params = blockedParams(config.params, config.pharmacology, t); // Conductances left by any applied blockers
+  const channels = blockedChannels(activeChannels(config.channels), config.pharmacology, t);
+  if (runtime.rates?.source !== config.rates) {
+    runtime.rates = { source: config.rates, functions: compileRates(config.rates) };
+  }
+  let next: HHState;
+  let I_app = params.I_ext;
+
+  // Reversal potentials from the (possibly drifting) concentrations; a newly
+  // configured concentration set replaces the drifted one
+  const { environment } = config;
+  if (environment.enabled) {
+    const source = environment.concentrations;
+    const concentrations = runtime.ions && sameConcentrations(runtime.ions.source, source) ? runtime.ions.state.concentrations : source;
+    runtime.ions = { source, state: ionicState(concentrations, environment, params.temperature) };
+    const { E_Na, E_K, E_L } = runtime.ions.state.reversal;
+    params = { ...params, E_Na, E_K, E_L };
+  } else {
+    runtime.ions = null;
+  }
+
+  if (config.mode === ExperimentMode.VOLTAGE_CLAMP) {
+    let tSweep = t - runtime.sweepStart;
+    if (tSweep >= protocolDuration(config.clampProtocol) || tSweep < 0) {
+      runtime.sweepStart = t;
+      tSweep = 0;
+    }
+    next = advance(runtime, config, params, channels, commandVoltage(config.clampProtocol, tSweep));
+  } else {
+    if (runtime.pulseRemaining > 0) {
+      I_app += INJECT_PULSE_AMPLITUDE;
+      runtime.pulseRemaining -= solver.dt;
+    }
+
+    if (runtime.stimulusStart !== null) {
+      const duration = stimulusDuration(config.stimulus);
+      let tStim = t - runtime.stimulusStart;
+      if (tStim >= duration) {
+        if (config.stimulus.loop && duration > 0) {
+          runtime.stimulusStart += duration * Math.floor(tStim / duration);
+          tStim = t - runtime.stimulusStart;
+        } else {
+          runtime.stimulusStart = null;
+        }
+      }
+      if (runtime.stimulusStart !== null) {
+        I_app += stimulusCurrent(config.stimulus, tStim);
+      }
+    }
+
+    // The electrogenic pump acts on the membrane but is not part of the applied current
+    next = advance(runtime, config, { ...params, I_ext: I_app - (runtime.ions?.state.I_pump ?? 0) }, channels);
+  }
+
+  runtime.state = next;
+
+  const population = runtime.noise?.channels;
+  const quantities = population ? channelQuantities(population, next.V, params) : derivedQuantities(next, params);
+  if (runtime.ions && environment.dynamic) {
+    // Library channels move Na+ and K+ too
+    const carried = carriedCurrents(channels, next);
+    const total = { ...quantities, I_Na: quantities.I_Na + carried.Na, I_K: quantities.I_K + carried.K };
+    const concentrations = advanceConcentrations(runtime.ions.state, total, next.V, params.g_L, environment, config.cable.diameter, solver.dt);
+    runtime.ions = { ...runtime.ions, state: { ...runtime.ions.state, concentrations } };
+  }
+  if (!out) return;
+
+  const { I_Na, I_K, I_L } = quantities;
+  const I_channels = stateChannelCurrent(channels, next);
+  // Ideal clamp: the amplifier supplies the full ionic current (capacitive transients omitted),
+  // plus whatever flows down the cable from the clamped compartment, which is the one recorded
+  if (config.mode === ExperimentMode.VOLTAGE_CLAMP) {
+    I_app = I_Na + I_K + I_L + I_channels;
+    if (runtime.cable) {
+      I_app -= axialCurrent(runtime.cable, config.cable, compartmentAt(config.electrodes.stimulus, runtime.cable.V.length));
+    }
+  }
+
+  out[offset + SampleField.T] = next.t;
+  out[offset + SampleField.V] = next.V;
+  out[offset + SampleField.M] = next.m;
+  out[offset + SampleField.H] = next.h;
+  out[offset + SampleField.N] = next.n;
+  out[offset + SampleField.I_APP] = I_app;
+  out[offset + SampleField.I_NA] = I_Na;
+  out[offset + SampleField.I_K] = I_K;
+  out[offset + SampleField.I_L] = I_L;
+  out[offset + SampleField.G_NA] = quantities.g_Na;
+  out[offset + SampleField.G_K] = quantities.g_K;
+  out[offset + SampleField.G_L] = quantities.g_L;
+  out[offset + SampleField.E_NA] = params.E_Na;
+  out[offset + SampleField.E_K] = params.E_K;
+  out[offset + SampleField.E_L] = params.E_L;
+  out[offset + SampleField.I_CH] = I_channels;
+};
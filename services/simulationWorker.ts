@@ -0,0 +1,223 @@
+import { HHState, IonicState } from '../types';
+import {
+  SimulationConfig, SimulationRuntime, SampleField, SAMPLE_STRIDE, INJECT_PULSE_DURATION,
+  createRuntime, stepSimulation,
+} from './simulationEngine';
+import { RingBuffer, attachRingBuffer, writeOffset, commitRecord, clearRingBuffer, appendRecords } from './ringBuffer';
+import { Recorder, createRecorder, recordSample, recorderData, recorderFull } from './recorder';
+
+// Dedicated worker running the solver off the main thread. Samples are written
+// straight into a shared ring buffer when one is provided, otherwise they are
+// batched and transferred to the main thread every tick.
+
+export type WorkerCommand =
+  | { type: 'init'; config: SimulationConfig; storage?: SharedArrayBuffer; capacity: number }
+  | { type: 'config'; config: Partial<SimulationConfig> }
+  | { type: 'run'; running: boolean }
+  | { type: 'step'; steps: number }
+  | { type: 'speed'; realTimeFactor: number }
+  | { type: 'inject' }
+  | { type: 'stimulus'; running: boolean }
+  | { type: 'restartSweep' }
+  | { type: 'restoreConcentrations' }
+  | { type: 'setState'; state: HHState }
+  | { type: 'reset'; config: Partial<SimulationConfig>; history?: Float64Array; gates?: Record<string, number[]> }
+  | { type: 'record'; recording: boolean }
+  | { type: 'exportRecording' };
+
+export type WorkerEvent =
+  | { type: 'samples'; records: Float64Array; count: number }
+  | { type: 'status'; t: number; sweepStart: number; stimulusRunning: boolean; stimulusStart: number | null; running: boolean; stepsPerSecond: number;
+      conductionVelocity: number | null; compartments: Float32Array | null; recording: boolean; recordedSamples: number;
+      ions: IonicState | null; gates: Record<string, number[]> | null }
+  | { type: 'recording'; records: Float64Array; count: number; startedAt: string; config: SimulationConfig }
+  | { type: 'error'; message: string };
+
+const TICK_MS = 8;
+const MAX_STEPS_PER_TICK = 50000;
+
+const ctx = self as unknown as Worker;
+
+let config: SimulationConfig | null = null;
+let runtime: SimulationRuntime = createRuntime();
+let shared: RingBuffer | null = null;
+let running = true;
+let realTimeFactor = 0.015; // Simulated ms per wall-clock ms
+let lastTick = 0;
+let pendingMs = 0;
+let stepsPerSecond = 0;
+let recorder: Recorder | null = null; // Last recording, kept after stopping until exported or replaced
+let recording = false;
+
+// Runs `steps` solver steps and publishes their samples. A step the solver
+// cannot complete pauses the simulation and is reported to the main thread.
+const advance = (steps: number) => {
+  if (!config || steps <= 0) return;
+
+  const capture = recording ? recorder : null;
+
+  try {
+    if (shared) {
+      for (let i = 0; i < steps; i++) {
+        const offset = writeOffset(shared);
+        stepSimulation(runtime, config, shared.data, offset);
+        if (capture) recordSample(capture, shared.data, offset);
+        commitRecord(shared);
+      }
+    } else {
+      const records = new Float64Array(steps * SAMPLE_STRIDE);
+      for (let i = 0; i < steps; i++) {
+        stepSimulation(runtime, config, records, i * SAMPLE_STRIDE);
+        if (capture) recordSample(capture, records, i * SAMPLE_STRIDE);
+      }
+      const event: WorkerEvent = { type: 'samples', records, count: steps };
+      ctx.postMessage(event, [records.buffer]);
+    }
+  } catch (err) {
+    running = false;
+    pendingMs = 0;
+    const event: WorkerEvent = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(event);
+  }
+
+  // The UI reports the cap from the sample count once capture stops here
+  if (capture && recorderFull(capture)) recording = false;
+};
+
+// Republishes previously recorded samples (e.g. from a saved session) and
+// resumes the simulation from the last of them. Samples do not hold library
+// channel gates, so those come separately; any missing start at steady state.
+const restoreHistory = (history: Float64Array, gates?: Record<string, number[]>) => {
+  const count = Math.floor(history.length / SAMPLE_STRIDE);
+  if (count === 0) return;
+
+  const last = (count - 1) * SAMPLE_STRIDE;
+  runtime.state = {
+    V: history[last + SampleField.V],
+    m: history[last + SampleField.M],
+    h: history[last + SampleField.H],
+    n: history[last + SampleField.N],
+    t: history[last + SampleField.T],
+    ...(gates ? { gates } : {}),
+  };
+  runtime.sweepStart = runtime.state.t;
+
+  if (shared) {
+    appendRecords(shared, history, count);
+  } else {
+    const event: WorkerEvent = { type: 'samples', records: history, count };
+    ctx.postMessage(event, [history.buffer]);
+  }
+};
+
+const postStatus = () => {
+  const event: WorkerEvent = {
+    type: 'status',
+    t: runtime.state.t,
+    sweepStart: runtime.sweepStart,
+    stimulusRunning: runtime.stimulusStart !== null,
+    stimulusStart: runtime.stimulusStart,
+    running,
+    stepsPerSecond,
+    conductionVelocity: runtime.conductionVelocity,
+    // Snapshot of every compartment's voltage for the 3D view
+    compartments: runtime.cable ? Float32Array.from(runtime.cable.V) : null,
+    recording,
+    recordedSamples: recorder ? recorder.count : 0,
+    ions: runtime.ions?.state ?? null,
+    gates: runtime.state.gates ?? null, // Library channel gates, saved alongside a session trace
+  };
+  ctx.postMessage(event, event.compartments ? [event.compartments.buffer] : []);
+};
+
+const tick = () => {
+  const now = performance.now();
+  const elapsed = now - lastTick;
+  lastTick = now;
+
+  if (running && config) {
+    pendingMs += elapsed * realTimeFactor;
+    const steps = Math.min(MAX_STEPS_PER_TICK, Math.floor(pendingMs / config.solver.dt));
+    // Drop any backlog we could not keep up with instead of spiralling
+    pendingMs = steps === MAX_STEPS_PER_TICK ? 0 : pendingMs - steps * config.solver.dt;
+    advance(steps);
+    stepsPerSecond = elapsed > 0 ? (steps * 1000) / elapsed : 0;
+  } else {
+    stepsPerSecond = 0;
+  }
+
+  postStatus();
+};
+
+ctx.onmessage = (e: MessageEvent<WorkerCommand>) => {
+  const command = e.data;
+
+  switch (command.type) {
+    case 'init':
+      config = command.config;
+      shared = command.storage ? attachRingBuffer(command.storage, command.capacity, SAMPLE_STRIDE) : null;
+      lastTick = performance.now();
+      setInterval(tick, TICK_MS);
+      break;
+    case 'config':
+      if (config) config = { ...config, ...command.config };
+      break;
+    case 'run':
+      running = command.running;
+      pendingMs = 0;
+      postStatus();
+      break;
+    case 'step':
+      advance(command.steps);
+      postStatus();
+      break;
+    case 'speed':
+      realTimeFactor = command.realTimeFactor;
+      break;
+    case 'inject':
+      runtime.pulseRemaining = INJECT_PULSE_DURATION;
+      break;
+    case 'stimulus':
+      runtime.stimulusStart = command.running ? runtime.state.t : null;
+      postStatus();
+      break;
+    case 'restartSweep':
+      // Start the clamp protocol from the holding potential on the next step
+      runtime.sweepStart = runtime.state.t;
+      postStatus();
+      break;
+    case 'restoreConcentrations':
+      // Drifted concentrations restart from the configured set on the next step
+      runtime.ions = null;
+      break;
+    case 'setState':
+      // Keep the clock running forwards so buffered history stays monotonic. Library
+      // channel gates travel with the state; without them they start at steady state.
+      runtime.state = { ...command.state, t: runtime.state.t };
+      runtime.cable = null; // Rebuilt uniformly from the new state
+      runtime.noise = null; // Channel population too
+      break;
+    case 'reset':
+      if (config) config = { ...config, ...command.config };
+      runtime = createRuntime(config?.rates);
+      pendingMs = 0;
+      recording = false; // The clock restarts, so a running capture ends here
+      if (shared) clearRingBuffer(shared);
+      if (command.history) restoreHistory(command.history, command.gates);
+      postStatus();
+      break;
+    case 'record':
+      if (command.recording && config) recorder = createRecorder(config);
+      recording = command.recording;
+      postStatus();
+      break;
+    case 'exportRecording':
+      if (recorder) {
+        const records = recorderData(recorder);
+        const { count, startedAt, config: recorded } = recorder;
+        const event: WorkerEvent = { type: 'recording', records, count, startedAt, config: recorded };
+        ctx.postMessage(event, [records.buffer]);
+      }
+      break;
+  }
+};
@@ -0,0 +1,163 @@
+import { SolverSettings, Spike, SpikeDetectionMethod, SpikeMetrics } from '../types';
+import { solveHH, getInitialState, DEFAULT_SOLVER_SETTINGS } from './hhSolver';
+import type { Membrane } from './membrane';
+
+export interface SpikeDetectionOptions {
+  method: SpikeDetectionMethod;
+  threshold: number;      // mV, used by THRESHOLD
+  dvdtThreshold: number;  // mV/ms, used by DERIVATIVE and to locate spike onset
+  refractory: number;     // Minimum spacing between detected spikes (ms)
+}
+
+export const DEFAULT_DETECTION_OPTIONS: SpikeDetectionOptions = {
+  method: SpikeDetectionMethod.THRESHOLD,
+  threshold: 0,
+  dvdtThreshold: 10,
+  refractory: 2,
+};
+
+const mean = (values: number[]): number =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+
+const sd = (values: number[]): number => {
+  if (values.length < 2) return NaN;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) * (v - m), 0) / (values.length - 1));
+};
+
+// Linear interpolation of the time at which V crosses `level` between samples i and i + 1
+const crossingTime = (t: ArrayLike<number>, V: ArrayLike<number>, i: number, level: number): number => {
+  const dv = V[i + 1] - V[i];
+  if (dv === 0) return t[i];
+  return t[i] + ((level - V[i]) / dv) * (t[i + 1] - t[i]);
+};
+
+export const detectSpikes = (
+  t: ArrayLike<number>,
+  V: ArrayLike<number>,
+  options: SpikeDetectionOptions = DEFAULT_DETECTION_OPTIONS
+): Spike[] => {
+  const n = Math.min(t.length, V.length);
+  if (n < 3) return [];
+
+  const dvdt = new Float64Array(n);
+  for (let i = 1; i < n - 1; i++) {
+    dvdt[i] = (V[i + 1] - V[i - 1]) / (t[i + 1] - t[i - 1]);
+  }
+
+  // 1. Detection events
+  const events: number[] = [];
+  let lastTime = -Infinity;
+  for (let i = 1; i < n - 1; i++) {
+    const crossed = options.method === SpikeDetectionMethod.THRESHOLD
+      ? V[i - 1] < options.threshold && V[i] >= options.threshold
+      : dvdt[i - 1] < options.dvdtThreshold && dvdt[i] >= options.dvdtThreshold;
+    if (crossed && t[i] - lastTime >= options.refractory) {
+      events.push(i);
+      lastTime = t[i];
+    }
+  }
+
+  // 2. Per-spike features
+  const spikes: Spike[] = [];
+  for (let k = 0; k < events.length; k++) {
+    const i = events[k];
+    const end = k + 1 < events.length ? events[k + 1] : n - 1;
+
+    // Peak: first local maximum after detection
+    let peak = i;
+    while (peak + 1 < end && V[peak + 1] >= V[peak]) peak++;
+    // A spike still rising at the end of the window cannot be measured yet
+    if (peak + 1 >= n - 1) break;
+
+    // Onset: walk back from the peak until dV/dt drops below the onset criterion
+    let onset = peak;
+    const previousPeak = spikes.length ? events[k - 1] : 0;
+    while (onset > previousPeak + 1 && dvdt[onset - 1] >= options.dvdtThreshold) onset--;
+
+    let maxDvdt = 0;
+    for (let j = onset; j <= peak; j++) maxDvdt = Math.max(maxDvdt, dvdt[j]);
+
+    // Half width
+    const half = (V[onset] + V[peak]) / 2;
+    let up = onset;
+    while (up < peak && V[up + 1] < half) up++;
+    let down = peak;
+    while (down < end && V[down + 1] > half) down++;
+    const halfWidth = down < end
+      ? crossingTime(t, V, down, half) - crossingTime(t, V, up, half)
+      : NaN;
+
+    // After-hyperpolarisation minimum before the next spike
+    let ahp = peak;
+    for (let j = peak; j <= end; j++) if (V[j] < V[ahp]) ahp = j;
+
+    spikes.push({
+      time: t[i],
+      peakTime: t[peak],
+      peakV: V[peak],
+      thresholdV: V[onset],
+      amplitude: V[peak] - V[onset],
+      halfWidth,
+      ahpV: V[ahp],
+      ahpDepth: V[onset] - V[ahp],
+      maxDvdt,
+    });
+  }
+
+  return spikes;
+};
+
+export const computeSpikeMetrics = (spikes: Spike[], window: number): SpikeMetrics => {
+  const isis = spikes.slice(1).map((s, i) => s.time - spikes[i].time);
+  const isiMean = mean(isis);
+  const isiSD = sd(isis);
+
+  return {
+    spikes,
+    window,
+    firingRate: window > 0 ? (spikes.length / window) * 1000 : 0,
+    isiMean,
+    isiSD,
+    isiCV: isiSD / isiMean,
+    meanAmplitude: mean(spikes.map(s => s.amplitude)),
+    meanHalfWidth: mean(spikes.map(s => s.halfWidth).filter(Number.isFinite)),
+    meanAhpDepth: mean(spikes.map(s => s.ahpDepth)),
+    maxDvdt: spikes.reduce((acc, s) => Math.max(acc, s.maxDvdt), 0),
+    meanThreshold: mean(spikes.map(s => s.thresholdV)),
+  };
+};
+
+// True if a step of `current` from rest evokes at least one spike within `duration`
+const stepEvokesSpike = ({ params, channels, rates }: Membrane, solver: SolverSettings, current: number, duration: number, threshold: number): boolean => {
+  let state = getInitialState(rates);
+  const stepParams = { ...params, I_ext: current };
+  const steps = Math.ceil(duration / solver.dt);
+  for (let i = 0; i < steps; i++) {
+    state = solveHH(state, stepParams, solver.dt, solver, channels, rates);
+    if (state.V >= threshold) return true;
+    if (!Number.isFinite(state.V)) return false;
+  }
+  return false;
+};
+
+// Smallest step current (uA/cm^2) that fires a spike from rest, by bisection.
+// Returns null if even maxCurrent does not fire.
+export const estimateRheobase = (
+  membrane: Membrane,
+  solver: SolverSettings = DEFAULT_SOLVER_SETTINGS,
+  { duration = 100, maxCurrent = 100, tolerance = 0.05, threshold = 0 } = {}
+): number | null => {
+  if (!stepEvokesSpike(membrane, solver, maxCurrent, duration, threshold)) return null;
+
+  let low = 0;
+  let high = maxCurrent;
+  if (stepEvokesSpike(membrane, solver, low, duration, threshold)) return 0;
+
+  while (high - low > tolerance) {
+    const mid = (low + high) / 2;
+    if (stepEvokesSpike(membrane, solver, mid, duration, threshold)) high = mid;
+    else low = mid;
+  }
+  return high;
+};
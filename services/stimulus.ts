@@ -0,0 +1,192 @@
+import { StimulusProtocol, StimulusSegment, StimulusType } from '../types';
+
+export const STIMULUS_LABELS: Record<StimulusType, string> = {
+  [StimulusType.STEP]: 'Step',
+  [StimulusType.RAMP]: 'Ramp',
+  [StimulusType.PULSE_TRAIN]: 'Pulse Train',
+  [StimulusType.SINE]: 'Sine',
+  [StimulusType.CHIRP]: 'Chirp',
+  [StimulusType.NOISE]: 'Noise',
+  [StimulusType.WAVEFORM]: 'Waveform',
+};
+
+// Editable numeric fields for each segment type (duration is always editable)
+export const STIMULUS_FIELDS: Record<StimulusType, (keyof StimulusSegment)[]> = {
+  [StimulusType.STEP]: ['amplitude'],
+  [StimulusType.RAMP]: ['offset', 'amplitude'],
+  [StimulusType.PULSE_TRAIN]: ['amplitude', 'frequency', 'dutyCycle'],
+  [StimulusType.SINE]: ['offset', 'amplitude', 'frequency'],
+  [StimulusType.CHIRP]: ['offset', 'amplitude', 'frequency', 'frequencyEnd'],
+  [StimulusType.NOISE]: ['offset', 'amplitude'],
+  [StimulusType.WAVEFORM]: ['amplitude'],
+};
+
+let segmentCounter = 0;
+const nextSegmentId = () => `seg-${Date.now().toString(36)}-${(segmentCounter++).toString(36)}`;
+
+export const createSegment = (type: StimulusType, overrides: Partial<StimulusSegment> = {}): StimulusSegment => ({
+  id: nextSegmentId(),
+  type,
+  duration: 20,
+  amplitude: type === StimulusType.WAVEFORM ? 1 : 10,
+  offset: 0,
+  frequency: type === StimulusType.PULSE_TRAIN ? 50 : 10,
+  frequencyEnd: 200,
+  dutyCycle: 0.1,
+  ...overrides,
+});
+
+export const stimulusDuration = (protocol: StimulusProtocol): number =>
+  protocol.segments.reduce((total, segment) => total + segment.duration, 0);
+
+// Deterministic hash -> [0, 1) so noise is identical in the preview and in the simulation
+const hash01 = (a: number, b: number): number => {
+  let x = Math.imul(a ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(b, 0xc2b2ae35);
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  return (x >>> 0) / 4294967296;
+};
+
+const NOISE_INTERVAL = 0.1; // ms between independent noise samples
+
+const gaussianAt = (seed: number, index: number): number => {
+  const u1 = Math.max(hash01(seed, index * 2), 1e-12);
+  const u2 = hash01(seed, index * 2 + 1);
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+const seedFromId = (id: string): number => {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = (Math.imul(h, 31) + id.charCodeAt(i)) | 0;
+  return h;
+};
+
+// Current (uA/cm^2) of a single segment at local time t (ms)
+const segmentCurrent = (segment: StimulusSegment, t: number): number => {
+  const { amplitude, offset, frequency, frequencyEnd, dutyCycle, duration } = segment;
+
+  switch (segment.type) {
+    case StimulusType.STEP:
+      return amplitude;
+    case StimulusType.RAMP:
+      return offset + (amplitude - offset) * (t / duration);
+    case StimulusType.PULSE_TRAIN: {
+      const period = 1000 / frequency;
+      return (t % period) < dutyCycle * period ? amplitude : 0;
+    }
+    case StimulusType.SINE:
+      return offset + amplitude * Math.sin(2 * Math.PI * frequency * t / 1000);
+    case StimulusType.CHIRP: {
+      // Linear frequency sweep: phase is the integral of f(t)
+      const seconds = t / 1000;
+      const rate = (frequencyEnd - frequency) / (duration / 1000);
+      return offset + amplitude * Math.sin(2 * Math.PI * (frequency * seconds + 0.5 * rate * seconds * seconds));
+    }
+    case StimulusType.NOISE:
+      return offset + amplitude * gaussianAt(seedFromId(segment.id), Math.floor(t / NOISE_INTERVAL));
+    case StimulusType.WAVEFORM: {
+      const { samples, sampleInterval } = segment;
+      if (!samples || samples.length === 0 || !sampleInterval) return 0;
+      const position = t / sampleInterval;
+      const i = Math.floor(position);
+      if (i >= samples.length - 1) return amplitude * samples[samples.length - 1];
+      const frac = position - i;
+      return amplitude * (samples[i] * (1 - frac) + samples[i + 1] * frac);
+    }
+    default:
+      return 0;
+  }
+};
+
+// Stimulus current at time t (ms) since the protocol started
+export const stimulusCurrent = (protocol: StimulusProtocol, t: number): number => {
+  let start = 0;
+  for (const segment of protocol.segments) {
+    if (t < start + segment.duration) {
+      return t >= start ? segmentCurrent(segment, t - start) : 0;
+    }
+    start += segment.duration;
+  }
+  return 0;
+};
+
+const SPACING_TOLERANCE = 0.01; // Relative deviation allowed from the mean sample interval
+
+// Parses an uploaded waveform: either one current value per line (sampled at
+// defaultInterval) or two columns "time_ms, current" with evenly spaced times.
+export const parseWaveform = (text: string, defaultInterval = 0.1): { samples: number[]; sampleInterval: number; duration: number } => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(line => line.split(/[,;\t ]+/).map(Number))
+    .filter(cols => cols.every(v => Number.isFinite(v)));
+
+  if (rows.length < 2) {
+    throw new Error('Waveform needs at least two numeric samples');
+  }
+
+  if (rows[0].length >= 2) {
+    const sampleInterval = (rows[rows.length - 1][0] - rows[0][0]) / (rows.length - 1);
+    if (!(sampleInterval > 0)) throw new Error('Time column must be increasing');
+    // One interval drives playback, so uneven spacing would stretch parts of the waveform
+    for (let i = 1; i < rows.length; i++) {
+      const interval = rows[i][0] - rows[i - 1][0];
+      if (Math.abs(interval - sampleInterval) > SPACING_TOLERANCE * sampleInterval) {
+        throw new Error(`Time column must be evenly spaced (row ${i + 1} is ${+interval.toFixed(4)} ms after the previous one, expected ${+sampleInterval.toFixed(4)} ms)`);
+      }
+    }
+    const samples = rows.map(cols => cols[1]);
+    return { samples, sampleInterval, duration: sampleInterval * (samples.length - 1) };
+  }
+
+  const samples = rows.map(cols => cols[0]);
+  return { samples, sampleInterval: defaultInterval, duration: defaultInterval * (samples.length - 1) };
+};
+
+export const STIMULUS_PRESETS: { name: string; build: () => StimulusProtocol }[] = [
+  {
+    // Second pulse 8 ms after the first probes the refractory period; change the gap to map recovery
+    name: 'Paired Pulse',
+    build: () => ({
+      loop: false,
+      segments: [
+        createSegment(StimulusType.STEP, { amplitude: 0, duration: 5 }),
+        createSegment(StimulusType.STEP, { amplitude: 20, duration: 1 }),
+        createSegment(StimulusType.STEP, { amplitude: 0, duration: 8 }),
+        createSegment(StimulusType.STEP, { amplitude: 20, duration: 1 }),
+        createSegment(StimulusType.STEP, { amplitude: 0, duration: 30 }),
+      ],
+    }),
+  },
+  {
+    // Release from hyperpolarisation removes Na+ inactivation and fires a rebound spike
+    name: 'Anode Break',
+    build: () => ({
+      loop: false,
+      segments: [
+        createSegment(StimulusType.STEP, { amplitude: 0, duration: 5 }),
+        createSegment(StimulusType.STEP, { amplitude: -15, duration: 20 }),
+        createSegment(StimulusType.STEP, { amplitude: 0, duration: 30 }),
+      ],
+    }),
+  },
+  {
+    name: 'Pulse Train',
+    build: () => ({
+      loop: true,
+      segments: [createSegment(StimulusType.PULSE_TRAIN, { amplitude: 20, frequency: 50, dutyCycle: 0.05, duration: 100 })],
+    }),
+  },
+  {
+    // Subthreshold chirp reveals the membrane's resonance frequency
+    name: 'Resonance Chirp',
+    build: () => ({
+      loop: false,
+      segments: [createSegment(StimulusType.CHIRP, { offset: 0, amplitude: 1, frequency: 1, frequencyEnd: 150, duration: 1000 })],
+    }),
+  },
+];
+
+export const DEFAULT_STIMULUS_PROTOCOL: StimulusProtocol = STIMULUS_PRESETS[0].build();
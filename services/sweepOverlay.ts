@@ -0,0 +1,90 @@
+import { HHParameters, HHState, StoredSweep } from '../types';
+import { RingBuffer } from './ringBuffer';
+import { timeRange } from './traceView';
+
+// Stimulus-locked sweeps kept for overlaying parameter changes, and their average.
+
+export const MAX_STORED_SWEEPS = 20;
+
+const SWEEP_COLORS = ['#00f0ff', '#9d00ff', '#00ff9d', '#ff00aa', '#4d7cff', '#ff8c00'];
+const OLDEST_OPACITY = 0.15;
+
+// Parameters shown in the legend when they differ between stored sweeps
+const LEGEND_PARAMETERS: { key: keyof HHParameters; label: string }[] = [
+  { key: 'g_Na', label: 'gNa' },
+  { key: 'g_K', label: 'gK' },
+  { key: 'g_L', label: 'gL' },
+  { key: 'E_Na', label: 'ENa' },
+  { key: 'E_K', label: 'EK' },
+  { key: 'E_L', label: 'EL' },
+  { key: 'Cm', label: 'Cm' },
+  { key: 'I_ext', label: 'Iext' },
+];
+
+// The stretch [onset, onset + duration] of the ring buffer with t relative to the onset
+export const captureSweep = (
+  rb: RingBuffer,
+  id: number,
+  onset: number,
+  duration: number,
+  points: number,
+  params: HHParameters
+): StoredSweep => ({
+  id,
+  params,
+  data: timeRange(rb, onset, onset + duration, points).map(state => ({ ...state, t: state.t - onset })),
+});
+
+// Color fixed per sweep, opacity fading with age (index 0 = oldest)
+export const sweepStyle = (sweep: StoredSweep, index: number, count: number): { color: string; opacity: number } => ({
+  color: SWEEP_COLORS[sweep.id % SWEEP_COLORS.length],
+  opacity: OLDEST_OPACITY + (1 - OLDEST_OPACITY) * ((index + 1) / count),
+});
+
+// Legend text per sweep listing the parameters that differ across the set
+// (g_Na and g_K when they all match)
+export const sweepLabels = (sweeps: StoredSweep[]): string[] => {
+  const varying = LEGEND_PARAMETERS.filter(({ key }) => sweeps.some(s => s.params[key] !== sweeps[0].params[key]));
+  const shown = varying.length ? varying : LEGEND_PARAMETERS.slice(0, 2);
+  return sweeps.map(s => shown.map(({ key, label }) => `${label} ${+s.params[key].toFixed(2)}`).join(' · '));
+};
+
+const interpolate = (data: HHState[], t: number, from: number): { state: HHState; index: number } => {
+  let i = from;
+  while (i < data.length - 1 && data[i + 1].t < t) i++;
+  const a = data[i];
+  const b = data[Math.min(i + 1, data.length - 1)];
+  const f = b.t > a.t ? Math.min(1, Math.max(0, (t - a.t) / (b.t - a.t))) : 0;
+  return {
+    state: { t, V: a.V + f * (b.V - a.V), m: a.m + f * (b.m - a.m), h: a.h + f * (b.h - a.h), n: a.n + f * (b.n - a.n) },
+    index: i,
+  };
+};
+
+// Point-by-point mean of the sweeps on `points` samples over the span they all cover
+export const averageSweeps = (sweeps: StoredSweep[], points: number): HHState[] => {
+  const usable = sweeps.filter(s => s.data.length > 1);
+  if (usable.length === 0) return [];
+  const end = Math.min(...usable.map(s => s.data[s.data.length - 1].t));
+  const cursors = usable.map(() => 0);
+  const out: HHState[] = [];
+
+  for (let i = 0; i <= points; i++) {
+    const t = (end * i) / points;
+    const mean: HHState = { t, V: 0, m: 0, h: 0, n: 0 };
+    usable.forEach((sweep, k) => {
+      const { state, index } = interpolate(sweep.data, t, cursors[k]);
+      cursors[k] = index;
+      mean.V += state.V / usable.length;
+      mean.m += state.m / usable.length;
+      mean.h += state.h / usable.length;
+      mean.n += state.n / usable.length;
+    });
+    out.push(mean);
+  }
+  return out;
+};
+
+// Shifts sweep-relative samples onto a screen whose stimulus onset is at `origin`
+export const placeSweep = (data: HHState[], origin: number): HHState[] =>
+  data.map(state => ({ ...state, t: state.t + origin }));
@@ -0,0 +1,34 @@
+import { HHParameters, MembraneConditions, SolverSettings, SweepResult, SweepSettings } from '../types';
+import { runSweep } from './parameterSweep';
+
+// Runs parameter sweeps off the main thread. Cancel by terminating the worker.
+
+export type SweepCommand = {
+  type: 'run';
+  params: HHParameters;
+  solver: SolverSettings;
+  settings: SweepSettings;
+  conditions: MembraneConditions;
+};
+
+export type SweepEvent =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: SweepResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<SweepCommand>) => {
+  const { params, solver, settings, conditions } = e.data;
+  try {
+    const result = runSweep(params, solver, settings, conditions, (done, total) => {
+      const event: SweepEvent = { type: 'progress', done, total };
+      ctx.postMessage(event);
+    });
+    const event: SweepEvent = { type: 'done', result };
+    ctx.postMessage(event);
+  } catch (err) {
+    const event: SweepEvent = { type: 'error', message: err instanceof Error ? err.message : String(err) };
+    ctx.postMessage(event);
+  }
+};
@@ -0,0 +1,177 @@
+import { ExperimentMode } from '../types';
+import { SimulationConfig, SampleField, SAMPLE_STRIDE } from './simulationEngine';
+
+// Serialises recorder output for offline analysis (pandas, MATLAB, pynwb).
+
+export enum ExportFormat {
+  CSV = 'CSV',
+  JSON = 'JSON',
+  NWB = 'NWB',
+}
+
+export interface Recording {
+  records: Float64Array; // SAMPLE_STRIDE values per record, oldest first
+  count: number;
+  startedAt: string;     // ISO timestamp
+}
+
+interface ColumnSpec {
+  field: SampleField;
+  name: string;
+  unit: string;
+  description: string;
+}
+
+export const RECORDING_COLUMNS: ColumnSpec[] = [
+  { field: SampleField.T, name: 't', unit: 'ms', description: 'Simulation time' },
+  { field: SampleField.V, name: 'V', unit: 'mV', description: 'Membrane potential at the recording site' },
+  { field: SampleField.M, name: 'm', unit: '', description: 'Na+ activation gate' },
+  { field: SampleField.H, name: 'h', unit: '', description: 'Na+ inactivation gate' },
+  { field: SampleField.N, name: 'n', unit: '', description: 'K+ activation gate' },
+  { field: SampleField.I_NA, name: 'I_Na', unit: 'uA/cm^2', description: 'Sodium current density' },
+  { field: SampleField.I_K, name: 'I_K', unit: 'uA/cm^2', description: 'Potassium current density' },
+  { field: SampleField.I_L, name: 'I_L', unit: 'uA/cm^2', description: 'Leak current density' },
+  { field: SampleField.I_APP, name: 'I_ext', unit: 'uA/cm^2', description: 'Applied current (clamp current in voltage clamp)' },
+  { field: SampleField.I_CH, name: 'I_ch', unit: 'uA/cm^2', description: 'Total current density through the library channels' },
+  { field: SampleField.G_NA, name: 'g_Na', unit: 'mS/cm^2', description: 'Open sodium conductance' },
+  { field: SampleField.G_K, name: 'g_K', unit: 'mS/cm^2', description: 'Open potassium conductance' },
+  { field: SampleField.G_L, name: 'g_L', unit: 'mS/cm^2', description: 'Leak conductance' },
+  { field: SampleField.E_NA, name: 'E_Na', unit: 'mV', description: 'Sodium reversal potential' },
+  { field: SampleField.E_K, name: 'E_K', unit: 'mV', description: 'Potassium reversal potential' },
+  { field: SampleField.E_L, name: 'E_L', unit: 'mV', description: 'Leak reversal potential' },
+];
+
+const column = ({ records, count }: Recording, field: SampleField, scale = 1): number[] => {
+  const values = new Array<number>(count);
+  for (let i = 0; i < count; i++) values[i] = records[i * SAMPLE_STRIDE + field] * scale;
+  return values;
+};
+
+export const recordingToCsv = (recording: Recording): string => {
+  const header = RECORDING_COLUMNS.map(({ name, unit }) => (unit ? `${name} (${unit})` : name)).join(',');
+  const lines = [header];
+  for (let i = 0; i < recording.count; i++) {
+    const offset = i * SAMPLE_STRIDE;
+    lines.push(RECORDING_COLUMNS.map(({ field }) => recording.records[offset + field]).join(','));
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Column-oriented JSON: one array per signal plus the configuration that produced it
+export const recordingToJson = (recording: Recording, config: SimulationConfig): string => JSON.stringify({
+  format: 'neuraldx-recording',
+  version: 1,
+  startedAt: recording.startedAt,
+  exportedAt: new Date().toISOString(),
+  samples: recording.count,
+  config,
+  columns: Object.fromEntries(RECORDING_COLUMNS.map(({ name, unit, description }) => [name, { unit, description }])),
+  data: Object.fromEntries(RECORDING_COLUMNS.map(({ field, name }) => [name, column(recording, field)])),
+});
+
+// --- NWB ---
+// Mirrors the group/dataset/attribute hierarchy of an NWB 2 file (as laid out by
+// the HDF5 and Zarr backends) in plain JSON, so a short script can rebuild a real
+// NWBFile with pynwb. Timestamps are stored once and linked from every other series.
+
+const NWB_VERSION = '2.7.0';
+const TIMESTAMPS_PATH = '/acquisition/membrane_potential/timestamps';
+
+const dataset = (data: number[] | string, attributes: Record<string, unknown> = {}) => ({
+  attributes,
+  dtype: typeof data === 'string' ? 'utf8' : 'float64',
+  shape: typeof data === 'string' ? [] : [data.length],
+  data,
+});
+
+// Data stay in the simulator's units; `conversion` scales them to the SI unit named
+const timeSeries = (
+  neurodataType: string,
+  description: string,
+  data: number[],
+  unit: string,
+  conversion: number,
+  timestamps: ReturnType<typeof dataset> | { link: string },
+  extra: Record<string, unknown> = {}
+) => ({
+  attributes: { namespace: 'core', neurodata_type: neurodataType, description, comments: 'no comments' },
+  data: dataset(data, { unit, conversion, offset: 0, resolution: -1 }),
+  timestamps,
+  ...extra,
+});
+
+const MV = 1e-3;        // mV -> volts
+const UA_PER_CM2 = 1e-6; // uA/cm^2 -> amperes/cm^2 (the model works in current densities)
+const MS_PER_CM2 = 1e-3; // mS/cm^2 -> siemens/cm^2
+
+export const recordingToNwb = (recording: Recording, config: SimulationConfig): string => {
+  const voltageClamp = config.mode === ExperimentMode.VOLTAGE_CLAMP;
+  const electrode = { link: '/general/intracellular_ephys/electrode' };
+  const linked = { link: TIMESTAMPS_PATH };
+  const timestamps = dataset(column(recording, SampleField.T, 1e-3), { unit: 'seconds', interval: 1 });
+  const voltage = column(recording, SampleField.V);
+  const applied = column(recording, SampleField.I_APP);
+
+  // The measured signal is the membrane potential in current clamp and the clamp current in voltage clamp
+  const response = voltageClamp
+    ? timeSeries('VoltageClampSeries', 'Clamp current density', applied, 'amperes/cm^2', UA_PER_CM2, timestamps, { electrode })
+    : timeSeries('CurrentClampSeries', 'Membrane potential', voltage, 'volts', MV, timestamps, { electrode });
+  const stimulus = voltageClamp
+    ? timeSeries('VoltageClampStimulusSeries', 'Command potential', voltage, 'volts', MV, linked, { electrode })
+    : timeSeries('CurrentClampStimulusSeries', 'Applied current density', applied, 'amperes/cm^2', UA_PER_CM2, linked, { electrode });
+
+  const modelSeries = (field: SampleField, unit: string, conversion: number) => {
+    const spec = RECORDING_COLUMNS.find(c => c.field === field)!;
+    return timeSeries('TimeSeries', spec.description, column(recording, field), unit, conversion, linked);
+  };
+
+  return JSON.stringify({
+    attributes: { namespace: 'core', neurodata_type: 'NWBFile', nwb_version: NWB_VERSION, object_id: crypto.randomUUID() },
+    identifier: dataset(crypto.randomUUID()),
+    session_description: dataset(`Hodgkin-Huxley simulation (${voltageClamp ? 'voltage' : 'current'} clamp)`),
+    session_start_time: dataset(recording.startedAt),
+    timestamps_reference_time: dataset(recording.startedAt),
+    file_create_date: dataset(new Date().toISOString()),
+    general: {
+      source_script: dataset('NeuralDX simulator'),
+      devices: {
+        simulator: { attributes: { namespace: 'core', neurodata_type: 'Device', description: 'Hodgkin-Huxley model solver' } },
+      },
+      intracellular_ephys: {
+        electrode: {
+          attributes: { namespace: 'core', neurodata_type: 'IntracellularElectrode', description: 'Ideal simulated electrode' },
+          device: { link: '/general/devices/simulator' },
+          location: dataset(`${(config.electrodes.record * 100).toFixed(0)}% along the cable`),
+        },
+      },
+      // Not part of the NWB schema; kept so the run can be reproduced exactly
+      simulation_config: dataset(JSON.stringify(config)),
+    },
+    acquisition: { membrane_potential: response },
+    stimulus: { presentation: { stimulus } },
+    processing: {
+      hodgkin_huxley: {
+        attributes: { namespace: 'core', neurodata_type: 'ProcessingModule', description: 'Internal model variables' },
+        gate_m: modelSeries(SampleField.M, 'dimensionless', 1),
+        gate_h: modelSeries(SampleField.H, 'dimensionless', 1),
+        gate_n: modelSeries(SampleField.N, 'dimensionless', 1),
+        I_Na: modelSeries(SampleField.I_NA, 'amperes/cm^2', UA_PER_CM2),
+        I_K: modelSeries(SampleField.I_K, 'amperes/cm^2', UA_PER_CM2),
+        I_L: modelSeries(SampleField.I_L, 'amperes/cm^2', UA_PER_CM2),
+        I_channels: modelSeries(SampleField.I_CH, 'amperes/cm^2', UA_PER_CM2),
+        g_Na: modelSeries(SampleField.G_NA, 'siemens/cm^2', MS_PER_CM2),
+        g_K: modelSeries(SampleField.G_K, 'siemens/cm^2', MS_PER_CM2),
+        g_L: modelSeries(SampleField.G_L, 'siemens/cm^2', MS_PER_CM2),
+        E_Na: modelSeries(SampleField.E_NA, 'volts', MV),
+        E_K: modelSeries(SampleField.E_K, 'volts', MV),
+        E_L: modelSeries(SampleField.E_L, 'volts', MV),
+      },
+    },
+  });
+};
+
+export const EXPORT_FILES: Record<ExportFormat, { extension: string; type: string; serialize: (recording: Recording, config: SimulationConfig) => string }> = {
+  [ExportFormat.CSV]: { extension: 'csv', type: 'text/csv', serialize: recording => recordingToCsv(recording) },
+  [ExportFormat.JSON]: { extension: 'json', type: 'application/json', serialize: recordingToJson },
+  [ExportFormat.NWB]: { extension: 'nwb.json', type: 'application/json', serialize: recordingToNwb },
+};
@@ -0,0 +1,108 @@
+import { HHState, ReferenceTrace } from '../types';
+
+// Loads experimental voltage traces (CSV/TSV or Axon Text File) and compares
+// them against the simulated membrane potential.
+
+const TIME_SCALES: Record<string, number> = { s: 1000, ms: 1, us: 1e-3, 'µs': 1e-3 };
+const VOLTAGE_SCALES: Record<string, number> = { v: 1000, mv: 1, uv: 1e-3, 'µv': 1e-3 };
+
+// Unit written in brackets after a column title, e.g. "Time (s)" or "Vm [mV]"
+const unitOf = (title: string): string | null => {
+  const match = title.match(/[([]\s*([^)\]]+?)\s*[)\]]/);
+  return match ? match[1].toLowerCase() : null;
+};
+
+const isTimeColumn = (title: string) => /^(t|time)\b/i.test(title) || (unitOf(title) ?? '') in TIME_SCALES;
+const isVoltageColumn = (title: string) =>
+  /^(v|vm|voltage|potential|trace)\b/i.test(title) || (unitOf(title) ?? '') in VOLTAGE_SCALES;
+
+const splitRow = (line: string): string[] =>
+  line.split(/\t|,|;/).map(field => field.trim().replace(/^"(.*)"$/, '$1'));
+
+// Picks the time and voltage columns, converts to ms / mV and rebases time to zero
+const buildTrace = (titles: string[], rows: number[][], name: string): ReferenceTrace => {
+  const timeColumn = Math.max(0, titles.findIndex(isTimeColumn));
+  let voltageColumn = titles.findIndex((title, i) => i !== timeColumn && isVoltageColumn(title));
+  if (voltageColumn === -1) voltageColumn = timeColumn === 0 ? 1 : 0;
+
+  const points = rows.filter(row => Number.isFinite(row[timeColumn]) && Number.isFinite(row[voltageColumn]));
+  if (points.length < 2) throw new Error('Trace needs at least two numeric samples');
+
+  const timeUnit = unitOf(titles[timeColumn] ?? '');
+  const voltageUnit = unitOf(titles[voltageColumn] ?? '');
+  const timeScale = timeUnit !== null && timeUnit in TIME_SCALES ? TIME_SCALES[timeUnit] : 1;
+  // Without a unit, values that never exceed 1 in magnitude can only be volts
+  const voltageScale = voltageUnit !== null && voltageUnit in VOLTAGE_SCALES
+    ? VOLTAGE_SCALES[voltageUnit]
+    : points.every(row => Math.abs(row[voltageColumn]) < 1) ? 1000 : 1;
+
+  const t0 = points[0][timeColumn];
+  const t = points.map(row => (row[timeColumn] - t0) * timeScale);
+  const V = points.map(row => row[voltageColumn] * voltageScale);
+  for (let i = 1; i < t.length; i++) {
+    if (!(t[i] > t[i - 1])) throw new Error(`Time column is not increasing at sample ${i + 1}`);
+  }
+  return { name, t, V };
+};
+
+export const parseCsvTrace = (text: string, name: string): ReferenceTrace => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  if (!lines.length) throw new Error('File is empty');
+  const first = splitRow(lines[0]);
+  const hasHeader = first.some(field => !Number.isFinite(Number(field)));
+  const titles = hasHeader ? first : first.map((_, i) => (i === 0 ? 't' : `V${i}`));
+  const rows = lines.slice(hasHeader ? 1 : 0).map(line => splitRow(line).map(Number));
+  return buildTrace(titles, rows, name);
+};
+
+// Axon Text File: "ATF <version>", "<header records> <columns>", the header
+// records, a line of quoted column titles, then tab-separated data
+export const parseAtf = (text: string, name: string): ReferenceTrace => {
+  const lines = text.split(/\r?\n/);
+  if (!/^ATF\b/.test(lines[0] ?? '')) throw new Error('Not an Axon Text File');
+  const [headerCount] = (lines[1] ?? '').trim().split(/\s+/).map(Number);
+  if (!Number.isInteger(headerCount) || headerCount < 0) throw new Error('ATF line 2: invalid header record count');
+
+  const titleLine = 2 + headerCount;
+  if (lines.length <= titleLine) throw new Error('ATF file ends before its column titles');
+  const titles = lines[titleLine].split('\t').map(field => field.trim().replace(/^"(.*)"$/, '$1'));
+  const rows = lines.slice(titleLine + 1).filter(line => line.trim()).map(line => line.split('\t').map(Number));
+  return buildTrace(titles, rows, name);
+};
+
+export const parseTrace = (text: string, name: string): ReferenceTrace =>
+  text.startsWith('ATF') ? parseAtf(text, name) : parseCsvTrace(text, name);
+
+// Linear interpolation of the reference at `t` (ms since its start); null outside the recording
+export const referenceAt = (trace: ReferenceTrace, t: number): number | null => {
+  const { t: times, V } = trace;
+  if (t < times[0] || t > times[times.length - 1]) return null;
+  let lo = 0;
+  let hi = times.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid; else hi = mid;
+  }
+  const span = times[hi] - times[lo];
+  return span > 0 ? V[lo] + ((t - times[lo]) / span) * (V[hi] - V[lo]) : V[lo];
+};
+
+export interface TraceComparison {
+  reference: (number | null)[]; // Reference V at each simulated sample, null where they do not overlap
+  rms: number | null;           // Root-mean-square of simulated - reference over the overlap (mV)
+}
+
+// `anchor` is the simulation time (ms) the recording's t = 0 is aligned to
+export const compareTrace = (history: HHState[], trace: ReferenceTrace, anchor: number): TraceComparison => {
+  let sum = 0;
+  let count = 0;
+  const reference = history.map(state => {
+    const value = referenceAt(trace, state.t - anchor);
+    if (value !== null) {
+      sum += (state.V - value) ** 2;
+      count++;
+    }
+    return value;
+  });
+  return { reference, rms: count ? Math.sqrt(sum / count) : null };
+};
@@ -0,0 +1,182 @@
+import { HHState, ClampSample, CurrentSample } from '../types';
+import { RingBuffer, ringSize, recordOffset } from './ringBuffer';
+import { SampleField } from './simulationEngine';
+
+// Read-side helpers turning the raw sample ring buffer into chart-ready arrays.
+// Walks stop at any backwards jump in time (e.g. samples from before a reset).
+
+export const recordToState = (rb: RingBuffer, offset: number): HHState => ({
+  V: rb.data[offset + SampleField.V],
+  m: rb.data[offset + SampleField.M],
+  h: rb.data[offset + SampleField.H],
+  n: rb.data[offset + SampleField.N],
+  t: rb.data[offset + SampleField.T],
+});
+
+export const latestState = (rb: RingBuffer): HHState | null =>
+  ringSize(rb) > 0 ? recordToState(rb, recordOffset(rb, 0)) : null;
+
+export const newestTime = (rb: RingBuffer): number =>
+  ringSize(rb) > 0 ? rb.data[recordOffset(rb, 0) + SampleField.T] : NaN;
+
+// Records with start <= t <= end decimated to at most `points` (spaced (end - start) / points apart), oldest first
+const decimatedRange = <T>(rb: RingBuffer, start: number, end: number, points: number, read: (offset: number) => T): T[] => {
+  const size = ringSize(rb);
+  if (size === 0 || !(end > start)) return [];
+
+  const spacing = (end - start) / points;
+  const out: T[] = [];
+  let nextT = Infinity;
+  let prevT = Infinity;
+
+  for (let age = 0; age < size && out.length <= points; age++) {
+    const offset = recordOffset(rb, age);
+    const t = rb.data[offset + SampleField.T];
+    if (t > prevT || t < start) break;
+    prevT = t;
+    if (t > end) continue;
+    if (t <= nextT) {
+      out.push(read(offset));
+      nextT = (nextT === Infinity ? t : nextT) - spacing;
+    }
+  }
+
+  return out.reverse();
+};
+
+// States between two simulation times, e.g. one oscilloscope screen
+export const timeRange = (rb: RingBuffer, start: number, end: number, points: number): HHState[] =>
+  decimatedRange(rb, start, end, points, offset => recordToState(rb, offset));
+
+// The most recent `windowMs` of simulation decimated to about `points` states, oldest first
+export const latestWindow = (rb: RingBuffer, windowMs: number, points: number): HHState[] => {
+  const newest = newestTime(rb);
+  return timeRange(rb, newest - windowMs, newest, points);
+};
+
+// Currents, conductances and driving forces as the simulation recorded them
+const recordToCurrents = ({ data }: RingBuffer, offset: number): CurrentSample => {
+  const V = data[offset + SampleField.V];
+  return {
+    t: data[offset + SampleField.T],
+    I_ext: data[offset + SampleField.I_APP],
+    I_Na: data[offset + SampleField.I_NA],
+    I_K: data[offset + SampleField.I_K],
+    I_L: data[offset + SampleField.I_L],
+    I_ch: data[offset + SampleField.I_CH],
+    g_Na: data[offset + SampleField.G_NA],
+    g_K: data[offset + SampleField.G_K],
+    g_L: data[offset + SampleField.G_L],
+    drive_Na: V - data[offset + SampleField.E_NA],
+    drive_K: V - data[offset + SampleField.E_K],
+    drive_L: V - data[offset + SampleField.E_L],
+  };
+};
+
+// Same window as latestWindow with currents, conductances and driving forces
+export const latestCurrents = (rb: RingBuffer, windowMs: number, points: number): CurrentSample[] => {
+  const newest = newestTime(rb);
+  return decimatedRange(rb, newest - windowMs, newest, points, offset => recordToCurrents(rb, offset));
+};
+
+// Time of the newest crossing of `level` (linearly interpolated) in the given
+// direction that lies within [earliest, latest], or null
+export const findCrossing = (rb: RingBuffer, level: number, rising: boolean, earliest: number, latest: number): number | null => {
+  const size = ringSize(rb);
+  let newerT = NaN;
+  let newerV = NaN;
+
+  for (let age = 0; age < size; age++) {
+    const offset = recordOffset(rb, age);
+    const t = rb.data[offset + SampleField.T];
+    const V = rb.data[offset + SampleField.V];
+    if (t > newerT || t < earliest) break;
+
+    const crosses = rising ? V < level && newerV >= level : V > level && newerV <= level;
+    if (crosses) {
+      const tCross = t + ((level - V) / (newerV - V)) * (newerT - t);
+      if (tCross <= latest) return tCross;
+    }
+    newerT = t;
+    newerV = V;
+  }
+  return null;
+};
+
+// Samples of the voltage-clamp sweep that started at `sweepStart`, oldest first
+export const clampSweep = (rb: RingBuffer, sweepStart: number, maxPoints: number): ClampSample[] => {
+  const size = ringSize(rb);
+  if (size === 0) return [];
+
+  const newest = rb.data[recordOffset(rb, 0) + SampleField.T];
+  const spacing = Math.max(0, newest - sweepStart) / maxPoints;
+  const out: ClampSample[] = [];
+  let nextT = Infinity;
+  let prevT = Infinity;
+
+  for (let age = 0; age < size; age++) {
+    const offset = recordOffset(rb, age);
+    const t = rb.data[offset + SampleField.T];
+    if (t > prevT || t <= sweepStart) break;
+    prevT = t;
+    if (t <= nextT) {
+      out.push({
+        t: t - sweepStart,
+        V_cmd: rb.data[offset + SampleField.V],
+        I_clamp: rb.data[offset + SampleField.I_APP],
+        I_Na: rb.data[offset + SampleField.I_NA],
+        I_K: rb.data[offset + SampleField.I_K],
+      });
+      nextT = t - spacing;
+    }
+  }
+
+  return out.reverse();
+};
+
+export interface TraceArrays {
+  t: Float64Array;
+  V: Float64Array;
+  I: Float64Array; // Applied current
+}
+
+// Number of records, newest first, covering the last `windowMs` of simulation
+const recentCount = (rb: RingBuffer, windowMs: number): number => {
+  const size = ringSize(rb);
+  let count = 0;
+  let prevT = Infinity;
+  let newest = NaN;
+
+  for (; count < size; count++) {
+    const t = rb.data[recordOffset(rb, count) + SampleField.T];
+    if (count === 0) newest = t;
+    if (t > prevT || t < newest - windowMs) break;
+    prevT = t;
+  }
+  return count;
+};
+
+// Full-resolution samples from the last `windowMs` of simulation, oldest first
+export const recentTrace = (rb: RingBuffer, windowMs: number): TraceArrays => {
+  const count = recentCount(rb, windowMs);
+  const trace: TraceArrays = { t: new Float64Array(count), V: new Float64Array(count), I: new Float64Array(count) };
+  for (let age = 0; age < count; age++) {
+    const offset = recordOffset(rb, age);
+    const i = count - 1 - age;
+    trace.t[i] = rb.data[offset + SampleField.T];
+    trace.V[i] = rb.data[offset + SampleField.V];
+    trace.I[i] = rb.data[offset + SampleField.I_APP];
+  }
+  return trace;
+};
+
+// Raw records (all fields) from the last `windowMs` of simulation, oldest first
+export const recentRecords = (rb: RingBuffer, windowMs: number): Float64Array => {
+  const count = recentCount(rb, windowMs);
+  const records = new Float64Array(count * rb.stride);
+  for (let age = 0; age < count; age++) {
+    const offset = recordOffset(rb, age);
+    records.set(rb.data.subarray(offset, offset + rb.stride), (count - 1 - age) * rb.stride);
+  }
+  return records;
+};
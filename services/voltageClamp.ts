@@ -0,0 +1,20 @@
+import { VoltageClampProtocol } from '../types';
+
+export const DEFAULT_CLAMP_PROTOCOL: VoltageClampProtocol = {
+  V_hold: -65,
+  t_hold: 5,
+  V_step: 0,
+  t_step: 15,
+  V_tail: -65,
+  t_tail: 10,
+};
+
+export const protocolDuration = (protocol: VoltageClampProtocol): number =>
+  protocol.t_hold + protocol.t_step + protocol.t_tail;
+
+// Command potential at time t (ms) since the start of the sweep
+export const commandVoltage = (protocol: VoltageClampProtocol, t: number): number => {
+  if (t < protocol.t_hold) return protocol.V_hold;
+  if (t < protocol.t_hold + protocol.t_step) return protocol.V_step;
+  return protocol.V_tail;
+};
@@ -4,6 +4,7 @@ export interface HHState {
   h: number; // Na+ inactivation
   n: number; // K+ activation
   t: number; // Time (ms)
+  gates?: Record<string, number[]>; // Gating variables of additional channels, by channel id
 }
 
 export interface HHParameters {
@@ -15,9 +16,464 @@ export interface HHParameters {
   g_K: number;     // Max K+ Conductance (mS/cm^2)
   g_L: number;     // Max Leak Conductance (mS/cm^2)
   I_ext: number;   // External Injected Current (uA/cm^2)
+  temperature: number; // Temperature (°C), scales channel kinetics via Q10
 }
 
 export enum SimulationMode {
   BIOLOGICAL = 'BIOLOGICAL',
   CYBERNETIC = 'CYBERNETIC',
-}
\ No newline at end of file
+}
+
+export enum IntegratorMethod {
+  EULER = 'EULER',         // Forward Euler
+  RK4 = 'RK4',             // Classic 4th-order Runge-Kutta
+  EXP_EULER = 'EXP_EULER', // Rush-Larsen: exponential update for gates, Euler for V
+  RK45 = 'RK45',           // Adaptive Dormand-Prince 5(4)
+}
+
+export interface SolverSettings {
+  method: IntegratorMethod;
+  dt: number;      // Integration step / output interval (ms)
+  rtol: number;    // Relative error tolerance (adaptive methods only)
+  atol: number;    // Absolute error tolerance (adaptive methods only)
+}
+
+export enum ExperimentMode {
+  CURRENT_CLAMP = 'CURRENT_CLAMP',
+  VOLTAGE_CLAMP = 'VOLTAGE_CLAMP',
+}
+
+export interface VoltageClampProtocol {
+  V_hold: number;  // Holding potential (mV)
+  t_hold: number;  // Holding duration before the step (ms)
+  V_step: number;  // Command step potential (mV)
+  t_step: number;  // Step duration (ms)
+  V_tail: number;  // Tail potential after the step (mV)
+  t_tail: number;  // Tail duration (ms)
+}
+
+export interface ClampSample {
+  t: number;       // Time since sweep start (ms)
+  V_cmd: number;   // Command potential (mV)
+  I_clamp: number; // Total current delivered by the clamp (uA/cm^2)
+  I_Na: number;    // Na+ current (uA/cm^2)
+  I_K: number;     // K+ current (uA/cm^2)
+}
+
+// Quantities derived from a state that the integrator itself does not keep
+export interface DerivedQuantities {
+  I_Na: number;     // uA/cm^2
+  I_K: number;      // uA/cm^2
+  I_L: number;      // uA/cm^2
+  g_Na: number;     // Open Na+ conductance, g_Na·m³h (mS/cm^2)
+  g_K: number;      // Open K+ conductance, g_K·n⁴ (mS/cm^2)
+  g_L: number;      // mS/cm^2
+  drive_Na: number; // Driving force V - E_Na (mV)
+  drive_K: number;  // V - E_K (mV)
+  drive_L: number;  // V - E_L (mV)
+}
+
+export interface CurrentSample extends DerivedQuantities {
+  t: number;     // ms
+  I_ext: number; // Applied current (uA/cm^2)
+  I_ch: number;  // Total current through the library channels (uA/cm^2)
+}
+
+export enum StimulusType {
+  STEP = 'STEP',
+  RAMP = 'RAMP',
+  PULSE_TRAIN = 'PULSE_TRAIN',
+  SINE = 'SINE',
+  CHIRP = 'CHIRP',
+  NOISE = 'NOISE',
+  WAVEFORM = 'WAVEFORM',
+}
+
+// A protocol is played back segment after segment; fields that a segment type
+// does not use are ignored.
+export interface StimulusSegment {
+  id: string;
+  type: StimulusType;
+  duration: number;      // Segment length (ms)
+  amplitude: number;     // Step level, ramp end, pulse height, sine amplitude or noise SD (uA/cm^2)
+  offset: number;        // Baseline, ramp start or noise mean (uA/cm^2)
+  frequency: number;     // Pulse rate, sine frequency or chirp start frequency (Hz)
+  frequencyEnd: number;  // Chirp end frequency (Hz)
+  dutyCycle: number;     // Fraction of each pulse-train period spent high (0-1)
+  samples?: number[];    // Uploaded waveform (uA/cm^2)
+  sampleInterval?: number; // Spacing of uploaded samples (ms)
+}
+
+export interface StimulusProtocol {
+  segments: StimulusSegment[];
+  loop: boolean;
+}
+
+export enum SpikeDetectionMethod {
+  THRESHOLD = 'THRESHOLD',   // Upward crossing of a voltage threshold
+  DERIVATIVE = 'DERIVATIVE', // Upward crossing of a dV/dt threshold
+}
+
+export interface Spike {
+  time: number;        // Detection time (ms)
+  peakTime: number;    // Time of the peak (ms)
+  peakV: number;       // Peak potential (mV)
+  thresholdV: number;  // Potential at spike onset, where dV/dt first exceeds the onset criterion (mV)
+  amplitude: number;   // Peak minus onset potential (mV)
+  halfWidth: number;   // Width at half amplitude (ms)
+  ahpV: number;        // Minimum potential after the spike (mV)
+  ahpDepth: number;    // Onset minus AHP minimum (mV)
+  maxDvdt: number;     // Maximum rate of rise (mV/ms)
+}
+
+export interface SpikeMetrics {
+  spikes: Spike[];
+  window: number;      // Analysed duration (ms)
+  firingRate: number;  // Hz
+  isiMean: number;     // ms, NaN with fewer than two spikes
+  isiSD: number;       // ms
+  isiCV: number;       // Coefficient of variation of the ISIs
+  meanAmplitude: number;
+  meanHalfWidth: number;
+  meanAhpDepth: number;
+  maxDvdt: number;
+  meanThreshold: number;
+}
+
+export interface SweepSettings {
+  parameter: keyof HHParameters; // Parameter being swept
+  start: number;
+  end: number;
+  steps: number;        // Number of parameter values
+  duration: number;     // Simulated time per value (ms)
+}
+
+export interface SweepPoint {
+  value: number;        // Parameter value
+  rate: number;         // Steady firing rate from rest (Hz)
+  latency: number | null; // First-spike latency from rest (ms)
+  rateUp: number;       // Steady firing rate continuing from the previous (lower) value (Hz)
+  rateDown: number;     // Steady firing rate continuing from the previous (higher) value (Hz)
+}
+
+export interface SweepResult {
+  settings: SweepSettings;
+  points: SweepPoint[];
+  bistable: [number, number] | null; // Parameter range where up and down sweeps disagree
+  rheobase: number | null; // Lowest swept value that evokes a spike from rest
+}
+
+export enum FixedPointType {
+  STABLE_NODE = 'STABLE_NODE',
+  STABLE_FOCUS = 'STABLE_FOCUS',
+  UNSTABLE_NODE = 'UNSTABLE_NODE',
+  UNSTABLE_FOCUS = 'UNSTABLE_FOCUS',
+  SADDLE = 'SADDLE',
+  CENTER = 'CENTER',
+}
+
+export interface FixedPoint {
+  V: number;
+  n: number;
+  type: FixedPointType;
+  eigenvalues: { re: number; im: number }[];
+}
+
+export interface BifurcationSettings {
+  start: number;      // I_ext range start (uA/cm^2)
+  end: number;        // I_ext range end (uA/cm^2)
+  steps: number;      // Number of I_ext values
+  transient: number;  // Simulated time discarded before measuring a cycle (ms)
+  window: number;     // Simulated time over which cycle extrema are measured (ms)
+}
+
+export interface EquilibriumPoint {
+  I: number;
+  V: number;
+  stable: boolean;
+  state: HHState;
+  eigenvalues: { re: number; im: number }[];
+}
+
+export interface LimitCycle {
+  I: number;
+  Vmin: number;
+  Vmax: number;
+  period: number;   // ms
+  state: HHState;   // A state on the cycle
+}
+
+export interface BifurcationResult {
+  settings: BifurcationSettings;
+  equilibria: EquilibriumPoint[];
+  cycles: LimitCycle[];
+  hopf: number[];   // I_ext values where equilibrium stability changes through a complex pair
+}
+
+export interface CableParameters {
+  segments: number;  // Number of compartments (1 = isopotential point neuron)
+  diameter: number;  // Axon diameter (µm)
+  length: number;    // Length of one compartment (µm)
+  Ra: number;        // Axial resistivity (Ω·cm)
+}
+
+export enum NoiseMethod {
+  NONE = 'NONE',         // Deterministic Hodgkin–Huxley equations
+  LANGEVIN = 'LANGEVIN', // Fox–Lu diffusion approximation of the gating variables
+  MARKOV = 'MARKOV',     // Exact Markov-chain simulation of individual channel counts
+}
+
+export interface NoiseSettings {
+  method: NoiseMethod;
+  area: number;  // Membrane patch area (µm²); sets the number of Na+ and K+ channels
+  seed: number;  // Random seed, so a noisy run can be replayed after a reset
+}
+
+export enum DrugTarget {
+  NA = 'NA',     // Voltage-gated Na+ channels (g_Na)
+  K = 'K',       // Delayed-rectifier K+ channels (g_K)
+  LEAK = 'LEAK', // Leak conductance (g_L)
+}
+
+export interface Compound {
+  id: string;
+  name: string;
+  target: DrugTarget | string; // A classic conductance, or the id of a library channel
+  ic50: number;    // Concentration giving half block (µM)
+  hill: number;    // Hill coefficient
+  onset: number;   // Wash-in time constant (ms)
+  washout: number; // Wash-out time constant (ms)
+}
+
+// Step change of a compound's bath concentration; the effective concentration
+// relaxes towards it with the compound's onset or washout time constant
+export interface DrugEvent {
+  compoundId: string;
+  time: number;          // Simulation time (ms)
+  concentration: number; // Target concentration (µM), 0 = washout
+}
+
+export interface Pharmacology {
+  compounds: Compound[];
+  events: DrugEvent[]; // In time order
+}
+
+// Ion concentrations (mM) on either side of the membrane
+export interface IonConcentrations {
+  Na_i: number;
+  Na_o: number;
+  K_i: number;
+  K_o: number;
+  Cl_i: number;
+  Cl_o: number;
+}
+
+// Share of the leak conductance carried by each ion; E_L is their weighted Nernst potential
+export interface LeakComposition {
+  Na: number;
+  K: number;
+  Cl: number;
+}
+
+export interface IonicEnvironment {
+  enabled: boolean;       // Reversal potentials from the concentrations (off = fixed E_Na, E_K, E_L)
+  concentrations: IonConcentrations;
+  leak: LeakComposition;
+  dynamic: boolean;       // Let the currents and the Na+/K+ pump shift Na_i, K_i and K_o
+  pumpMax: number;        // Maximal Na+/K+ pump current (µA/cm²)
+  shellThickness: number; // Periaxonal space where K+ accumulates (nm)
+  clearance: number;      // Time constant of K+ exchange between that space and the bath (ms)
+}
+
+export interface ReversalPotentials {
+  E_Na: number;
+  E_K: number;
+  E_Cl: number;
+  E_L: number;
+}
+
+// Live ionic state reported by the simulation while the environment model is on
+export interface IonicState {
+  concentrations: IonConcentrations;
+  reversal: ReversalPotentials;
+  I_pump: number; // Outward pump current (µA/cm²)
+}
+
+// Per-compartment state of a cable; index 0 is the stimulated end
+export interface CableState {
+  V: number[];
+  m: number[];
+  h: number[];
+  n: number[];
+  t: number;
+  gates?: Record<string, number[][]>; // [gate][compartment] of each additional channel, by channel id
+}
+
+export type Vec3 = [number, number, number];
+
+// Structure identifiers used by the SWC format
+export enum NeuriteType {
+  UNDEFINED = 0,
+  SOMA = 1,
+  AXON = 2,
+  BASAL = 3,
+  APICAL = 4,
+  CUSTOM = 5,
+}
+
+export interface SwcNode {
+  id: number;
+  type: NeuriteType;
+  position: Vec3;
+  radius: number;
+  parent: number; // -1 for the root
+}
+
+export interface MorphologySegment {
+  start: Vec3;
+  end: Vec3;
+  startRadius: number;
+  endRadius: number;
+  type: NeuriteType;
+  startDistance: number; // Path distance from the soma along the tree
+  endDistance: number;
+}
+
+export interface Morphology {
+  name: string;
+  segments: MorphologySegment[];
+  soma: { center: Vec3; radius: number };
+  bounds: { min: Vec3; max: Vec3 };
+}
+
+export enum CameraMode {
+  CINEMATIC = 'CINEMATIC', // Scripted orbit
+  FREE = 'FREE',           // User orbit / pan / zoom
+}
+
+export enum ElectrodeKind {
+  RECORD = 'RECORD',
+  STIMULUS = 'STIMULUS',
+}
+
+// A point picked on the morphology
+export interface ElectrodeSite {
+  position: Vec3;       // Morphology coordinates
+  type: NeuriteType;
+  pathDistance: number; // Along the tree from the soma, morphology units
+  pathFraction: number; // pathDistance relative to the furthest tip; maps onto the cable
+}
+
+// Electrode positions along the cable as fractions of its length (0 = compartment 0)
+export interface ElectrodePlacement {
+  record: number;
+  stimulus: number;
+}
+
+// Experimental recording loaded for comparison with the model
+export interface ReferenceTrace {
+  name: string;
+  t: number[]; // ms from the start of the recording, ascending
+  V: number[]; // mV
+}
+
+export enum FitAlgorithm {
+  NELDER_MEAD = 'NELDER_MEAD',
+  EVOLUTION = 'EVOLUTION', // (1+λ) evolution strategy
+}
+
+export enum FitCost {
+  TRACE_MSE = 'TRACE_MSE',     // Mean squared voltage error over the whole trace
+  SPIKE_TIMES = 'SPIKE_TIMES', // Squared spike-time differences plus a penalty per missing/extra spike
+  FEATURES = 'FEATURES',       // Normalized distance between spike and resting features
+}
+
+export interface FitSettings {
+  parameters: (keyof HHParameters)[]; // Parameters the optimizer may change; the rest stay fixed
+  algorithm: FitAlgorithm;
+  cost: FitCost;
+  maxEvaluations: number; // Budget of simulated traces
+  seed: number;           // Seeds the evolution strategy
+}
+
+export interface FitProgress {
+  evaluations: number;
+  cost: number;         // Best cost so far
+  params: HHParameters; // Best parameters so far
+}
+
+export interface FitResult extends FitProgress {
+  settings: FitSettings;
+  trace: { t: number; target: number | null; fit: number }[]; // Target vs best fit, downsampled for display
+}
+
+export enum TriggerEdge {
+  RISING = 'RISING',
+  FALLING = 'FALLING',
+}
+
+export interface ScopeSettings {
+  timebase: number;      // ms per horizontal division
+  voltsPerDiv: number;   // mV per vertical division
+  offset: number;        // Potential at the center of the screen (mV)
+  triggerEnabled: boolean; // Off = free-running
+  triggerLevel: number;  // mV
+  triggerEdge: TriggerEdge;
+  preTrigger: number;    // Fraction of the screen shown before the trigger point
+  frozen: boolean;       // Screen held; wheel and drag then browse the recorded history
+}
+
+// One stimulus-locked trace kept for overlaying against later runs
+export interface StoredSweep {
+  id: number;
+  params: HHParameters;  // Parameters in effect when the sweep was recorded
+  data: HHState[];       // t relative to the stimulus onset (ms)
+}
+
+// Voltage dependence of one gating variable at the model's reference temperature:
+// opening and closing rates (1/ms) or steady state and time constant (ms)
+export type GateKinetics =
+  | { alpha: (V: number) => number; beta: (V: number) => number }
+  | { inf: (V: number) => number; tau: (V: number) => number };
+
+export interface GateDefinition {
+  name: string;  // e.g. 'm', 'h'
+  power: number; // Exponent of the gate in the open probability
+  kinetics: GateKinetics;
+}
+
+// Conductance-based channel: I = g · Π gate^power · (V − E)
+export interface ChannelDefinition {
+  id: string;
+  name: string;
+  ion: string;         // Charge carrier, for display
+  carriers?: { Na?: number; K?: number }; // Share of the current carried by Na+ and K+ (concentration dynamics); other ions are not tracked
+  description: string;
+  gates: GateDefinition[];
+  g: number;           // Default maximal conductance (mS/cm^2)
+  E: number;           // Default reversal potential (mV)
+}
+
+// A library channel as configured in the simulation
+export interface ChannelSetting {
+  id: string;
+  enabled: boolean;
+  g: number; // Maximal conductance (mS/cm^2)
+  E: number; // Reversal potential (mV)
+}
+
+// Everything besides HHParameters that shapes the running membrane (library
+// channels, custom kinetics, blockers and Nernst reversal potentials), in a form
+// that can be posted to the analysis workers
+export interface MembraneConditions {
+  channels: ChannelSetting[];          // Library channels
+  rates: RateExpressions;              // User-defined α/β kinetics of the classic gates
+  scales: Record<string, number>;      // Unblocked fraction of each blocker target (see conductanceScales)
+  reversal: ReversalPotentials | null; // From the ionic environment, when it is modeled
+}
+
+export type RateName = 'alpha_m' | 'beta_m' | 'alpha_h' | 'beta_h' | 'alpha_n' | 'beta_n';
+
+// User-typed replacements (expressions in V, 1/ms at 6.3 °C) for the squid-axon
+// rate functions; rates left out keep the built-in kinetics
+export type RateExpressions = Partial<Record<RateName, string>>;
@@ -2,12 +2,26 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Cross-origin isolation enables SharedArrayBuffer for the simulation worker's
+// ring buffer; 'credentialless' keeps the CDN fonts and scripts loading.
+const CROSS_ORIGIN_ISOLATION = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: CROSS_ORIGIN_ISOLATION,
+      },
+      preview: {
+        headers: CROSS_ORIGIN_ISOLATION,
+      },
+      worker: {
+        format: 'es',
       },
       plugins: [react()],
       define: {